@@ -0,0 +1,809 @@
+/**
+ * FormFlare Admin
+ * Dashboard for browsing, exporting and deleting submissions.
+ * Talks to the worker's authenticated API with the API key entered on sign-in.
+ */
+
+(function (window, document) {
+    'use strict';
+
+    const STORAGE_KEY = 'formflare-admin-key';
+    const PAGE_SIZE = 25;
+    const PREVIEW_FIELDS = 3;
+    const STATUS_LABELS = {
+        new: 'New',
+        in_progress: 'In progress',
+        done: 'Done',
+        archived: 'Archived',
+        spam: 'Spam'
+    };
+
+    const NOTIFICATION_LABELS = {
+        notification: 'Notification',
+        'auto-reply': 'Auto-reply',
+        confirmation: 'Opt-in confirmation'
+    };
+
+    const $ = (id) => document.getElementById(id);
+
+    const Admin = {
+        apiKey: null,
+        formId: null,
+        cursor: null, // cursor of the current page
+        previousCursors: [],
+        nextCursor: null,
+        fieldNames: new Set(),
+        submission: null,
+
+        /**
+         * Wire up the page and restore the session
+         */
+        init: function () {
+            $('sign-in').addEventListener('submit', (e) => {
+                e.preventDefault();
+                this.signIn(e.target.apiKey.value.trim());
+            });
+            $('sign-out').addEventListener('click', () => this.signOut());
+            $('form-id').addEventListener('submit', (e) => {
+                e.preventDefault();
+                this.openForm(e.target.formId.value.trim());
+            });
+            $('filters').addEventListener('submit', (e) => {
+                e.preventDefault();
+                this.resetPagination();
+                this.loadSubmissions();
+            });
+            $('export').addEventListener('click', () => this.exportSubmissions());
+            $('previous').addEventListener('click', () => {
+                this.cursor = this.previousCursors.pop() || null;
+                this.loadSubmissions();
+            });
+            $('next').addEventListener('click', () => {
+                this.previousCursors.push(this.cursor);
+                this.cursor = this.nextCursor;
+                this.loadSubmissions();
+            });
+            $('email-test').addEventListener('click', () => this.testEmail());
+            $('channel-test').addEventListener('click', () => this.testChannels());
+
+            document.querySelectorAll('[data-view]').forEach((button) => {
+                button.addEventListener('click', () => this.showView(button.dataset.view));
+            });
+
+            const apiKey = window.sessionStorage.getItem(STORAGE_KEY);
+            if (apiKey) {
+                this.signIn(apiKey);
+            } else {
+                this.showSignIn();
+            }
+        },
+
+        /**
+         * Check the key against the API and open the dashboard
+         * @param {string} apiKey - Admin or scoped API key
+         */
+        signIn: async function (apiKey) {
+            this.apiKey = apiKey;
+
+            try {
+                const response = await this.fetch('/forms');
+                if (response.status === 401) {
+                    this.showSignIn('This API key was not accepted.');
+                    return;
+                }
+
+                window.sessionStorage.setItem(STORAGE_KEY, apiKey);
+                $('sign-in').hidden = true;
+                $('nav').hidden = false;
+                $('app').hidden = false;
+                this.showView('submissions');
+
+                const body = await response.json();
+                // Keys without forms:manage can still read submissions of forms they know
+                this.renderForms(response.ok ? body.forms : null);
+
+                // Links in digest emails point at #submission=<id>
+                const linked = window.location.hash.match(/^#submission=(.+)$/);
+                if (linked) {
+                    window.history.replaceState(null, '', window.location.pathname);
+                    await this.openSubmission(decodeURIComponent(linked[1]));
+                    if (this.submission) this.selectForm(this.submission.formId);
+                } else if (response.ok && body.forms.length > 0) {
+                    this.openForm(body.forms[0].id);
+                }
+            } catch (error) {
+                this.showSignIn(error.message);
+            }
+        },
+
+        signOut: function () {
+            window.sessionStorage.removeItem(STORAGE_KEY);
+            this.apiKey = null;
+            this.formId = null;
+            this.showSignIn();
+        },
+
+        showSignIn: function (error) {
+            $('nav').hidden = true;
+            $('app').hidden = true;
+            $('sign-in').hidden = false;
+            $('sign-in').reset();
+            $('sign-in-message').hidden = !error;
+            $('sign-in-message').textContent = error || '';
+        },
+
+        /**
+         * Call the API with the API key
+         * @param {string} path - Path and query string
+         * @param {Object} options - fetch options
+         * @returns {Promise<Response>}
+         */
+        fetch: function (path, options = {}) {
+            const headers = { Authorization: `Bearer ${this.apiKey}`, ...(options.headers || {}) };
+            if (options.body !== undefined && typeof options.body !== 'string') {
+                headers['Content-Type'] = 'application/json';
+                options = { ...options, body: JSON.stringify(options.body) };
+            }
+            return window.fetch(path, { ...options, headers });
+        },
+
+        /**
+         * Call the API and parse the JSON response, throwing the API's error message on failure
+         */
+        request: async function (path, options = {}) {
+            const response = await this.fetch(path, options);
+            if (response.status === 401) {
+                this.signOut();
+                throw new Error('Your API key is no longer valid.');
+            }
+
+            const body = await response.json().catch(() => ({}));
+            if (!response.ok || body.success === false) {
+                const error = new Error(body.error || `Request failed with status ${response.status}`);
+                error.body = body;
+                throw error;
+            }
+            return body;
+        },
+
+        /**
+         * Download a file from an authenticated endpoint
+         */
+        download: async function (path, fallbackName) {
+            const response = await this.fetch(path);
+            if (!response.ok) {
+                const body = await response.json().catch(() => ({}));
+                throw new Error(body.error || `Download failed with status ${response.status}`);
+            }
+
+            const disposition = response.headers.get('Content-Disposition') || '';
+            const match = disposition.match(/filename="([^"]+)"/);
+            const url = URL.createObjectURL(await response.blob());
+
+            const link = el('a', { href: url, download: match ? match[1] : fallbackName });
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        },
+
+        showView: function (view) {
+            $('view-submissions').hidden = view !== 'submissions';
+            $('view-detail').hidden = view !== 'detail';
+            $('view-tools').hidden = view !== 'tools';
+            this.hideMessage();
+        },
+
+        showMessage: function (text, type = 'error') {
+            const message = $('message');
+            message.className = `message ${type}`;
+            message.textContent = text;
+            message.hidden = false;
+        },
+
+        hideMessage: function () {
+            $('message').hidden = true;
+        },
+
+        /**
+         * Show the forms sidebar
+         * @param {Array|null} forms - null when the key may not list forms
+         */
+        renderForms: function (forms) {
+            const list = $('forms');
+            list.replaceChildren();
+
+            $('forms-hint').hidden = forms !== null;
+            $('forms-hint').textContent = 'This API key cannot list forms. Enter a form ID to open its submissions.';
+
+            for (const form of forms || []) {
+                const item = el('li', { dataset: { formId: form.id } }, [
+                    form.name || form.id,
+                    el('small', {}, [form.enabled ? form.id : `${form.id} (disabled)`])
+                ]);
+                item.addEventListener('click', () => this.openForm(form.id));
+                list.appendChild(item);
+            }
+        },
+
+        openForm: function (formId) {
+            if (!formId) return;
+
+            this.selectForm(formId);
+            this.showView('submissions');
+            this.loadSubmissions();
+        },
+
+        /**
+         * Make a form the current one without changing the view
+         */
+        selectForm: function (formId) {
+            this.formId = formId;
+            this.fieldNames = new Set();
+            this.resetPagination();
+            $('filters').reset();
+
+            document.querySelectorAll('#forms li').forEach((item) => {
+                item.classList.toggle('active', item.dataset.formId === formId);
+            });
+        },
+
+        resetPagination: function () {
+            this.cursor = null;
+            this.previousCursors = [];
+            this.nextCursor = null;
+        },
+
+        /**
+         * Build the listing query from the filter toolbar
+         */
+        filterParams: function () {
+            const filters = $('filters').elements;
+            const params = new URLSearchParams();
+
+            if (filters.search.value.trim() && filters.field.value) {
+                params.set(`contains[${filters.field.value}]`, filters.search.value.trim());
+            }
+            if (filters.status.value) params.set('status', filters.status.value);
+            if (filters.from.value) params.set('from', filters.from.value);
+            if (filters.to.value) params.set('to', filters.to.value);
+            params.set('quarantined', filters.quarantined.value);
+            params.set('pending', filters.pending.value);
+
+            return params;
+        },
+
+        loadSubmissions: async function () {
+            if (!this.formId) return;
+
+            const filters = $('filters').elements;
+            if (filters.search.value.trim() && !filters.field.value) {
+                this.showMessage('Choose the field to search in.');
+                return;
+            }
+
+            const params = this.filterParams();
+            params.set('limit', PAGE_SIZE);
+            if (this.cursor) params.set('cursor', this.cursor);
+
+            try {
+                const body = await this.request(`/submissions/${encodeURIComponent(this.formId)}?${params}`);
+                this.hideMessage();
+                this.nextCursor = body.pagination.nextCursor;
+                this.renderSubmissions(body.submissions, body.pagination.total);
+            } catch (error) {
+                this.renderSubmissions([], 0);
+                this.showMessage(error.message);
+            }
+        },
+
+        renderSubmissions: function (submissions, total) {
+            const tbody = $('submissions');
+            tbody.replaceChildren();
+
+            for (const submission of submissions) {
+                Object.keys(submission.data).forEach((name) => this.fieldNames.add(name));
+
+                const workflow = submission.workflow || {};
+                const row = el('tr', { className: workflow.read ? '' : 'unread' }, [
+                    el('td', {}, [formatDate(submission.metadata.timestamp)]),
+                    el('td', {}, [statusBadge(submission)]),
+                    el('td', { className: 'preview' }, [(workflow.starred ? '★ ' : '') + preview(submission.data)])
+                ]);
+                row.addEventListener('click', () => this.openSubmission(submission.id));
+                tbody.appendChild(row);
+            }
+
+            this.renderFieldOptions();
+
+            $('submissions-empty').hidden = submissions.length > 0;
+            const first = this.previousCursors.length * PAGE_SIZE + 1;
+            $('total').textContent = submissions.length > 0
+                ? `${first}–${first + submissions.length - 1} of ${total}`
+                : '';
+            $('previous').disabled = this.previousCursors.length === 0;
+            $('next').disabled = !this.nextCursor;
+        },
+
+        renderFieldOptions: function () {
+            const select = $('filters').elements.field;
+            const selected = select.value;
+            const known = new Set([...select.options].map((option) => option.value));
+
+            for (const name of [...this.fieldNames].sort()) {
+                if (!known.has(name)) {
+                    select.appendChild(el('option', { value: name }, [name]));
+                }
+            }
+            select.value = selected;
+        },
+
+        exportSubmissions: async function () {
+            if (!this.formId) return;
+
+            const filters = $('filters').elements;
+            const params = new URLSearchParams({ format: filters.format.value, metadata: 'true' });
+            if (filters.from.value) params.set('from', filters.from.value);
+            if (filters.to.value) params.set('to', filters.to.value);
+
+            const button = $('export');
+            button.disabled = true;
+            try {
+                await this.download(
+                    `/submissions/${encodeURIComponent(this.formId)}/export?${params}`,
+                    `${this.formId}-submissions.${filters.format.value}`
+                );
+            } catch (error) {
+                this.showMessage(error.message);
+            } finally {
+                button.disabled = false;
+            }
+        },
+
+        /**
+         * Show a submission with its workflow state, notes and webhook log
+         */
+        openSubmission: async function (id) {
+            try {
+                const body = await this.request(`/submission/${encodeURIComponent(id)}`);
+                this.submission = body.submission;
+                this.showView('detail');
+                this.renderSubmission();
+
+                if (this.submission.workflow && !this.submission.workflow.read) {
+                    // Marking as read needs submissions:write, which read-only keys lack
+                    this.updateWorkflow({ read: true }, true);
+                }
+
+                this.loadNotificationLog();
+                this.loadWebhookDeliveries();
+            } catch (error) {
+                this.showMessage(error.message);
+            }
+        },
+
+        renderSubmission: function () {
+            const submission = this.submission;
+            const workflow = submission.workflow || { status: 'new', tags: [], notes: [] };
+            const view = $('view-detail');
+            view.replaceChildren();
+
+            const back = el('button', { type: 'button', className: 'secondary' }, ['← Back']);
+            back.addEventListener('click', () => {
+                this.showView('submissions');
+                this.loadSubmissions();
+            });
+
+            const actions = el('div', { className: 'toolbar' }, [back, el('span', { className: 'spacer' })]);
+
+            if (submission.metadata.spam && submission.metadata.spam.quarantined) {
+                const notSpam = el('button', { type: 'button', className: 'secondary' }, ['Not spam']);
+                notSpam.addEventListener('click', () => this.markNotSpam());
+                actions.appendChild(notSpam);
+            }
+
+            const remove = el('button', { type: 'button', className: 'danger' }, ['Delete']);
+            remove.addEventListener('click', () => this.deleteSubmission());
+            actions.appendChild(remove);
+
+            view.append(
+                actions,
+                el('h2', {}, [`Submission ${submission.id}`]),
+                el('p', { className: 'subtitle' }, [`${submission.formId} · ${formatDate(submission.metadata.timestamp)}`]),
+                this.renderWorkflow(workflow),
+                el('h3', {}, ['Data']),
+                definitionList(Object.entries(submission.data).map(([name, value]) => [name, this.renderValue(value)])),
+                el('h3', {}, ['Metadata']),
+                definitionList(metadataEntries(submission.metadata)),
+                el('h3', {}, ['Notes']),
+                this.renderNotes(workflow.notes),
+                el('h3', {}, ['Email notifications']),
+                el('div', { id: 'notification-log' }, [el('p', { className: 'hint' }, ['Loading…'])]),
+                el('h3', {}, ['Webhook deliveries']),
+                el('div', { id: 'webhook-deliveries' }, [el('p', { className: 'hint' }, ['Loading…'])])
+            );
+        },
+
+        renderWorkflow: function (workflow) {
+            const status = el('select', { 'aria-label': 'Status' }, Object.entries(STATUS_LABELS).map(
+                ([value, label]) => el('option', { value, selected: workflow.status === value }, [label])
+            ));
+            status.addEventListener('change', () => this.updateWorkflow({ status: status.value }));
+
+            const star = el('button', { type: 'button', className: 'secondary' }, [workflow.starred ? '★ Starred' : '☆ Star']);
+            star.addEventListener('click', () => this.updateWorkflow({ starred: !workflow.starred }));
+
+            const unread = el('button', { type: 'button', className: 'secondary' }, ['Mark unread']);
+            unread.addEventListener('click', () => this.updateWorkflow({ read: false }));
+
+            const tags = el('input', { type: 'text', placeholder: 'Tags, comma-separated', value: workflow.tags.join(', ') });
+            const saveTags = el('button', { type: 'button', className: 'secondary' }, ['Save tags']);
+            saveTags.addEventListener('click', () => this.updateWorkflow({
+                tags: tags.value.split(',').map((tag) => tag.trim()).filter(Boolean)
+            }));
+
+            return el('div', { className: 'toolbar' }, [status, star, unread, tags, saveTags]);
+        },
+
+        renderNotes: function (notes) {
+            const list = el('ul', { className: 'notes' }, notes.map((note) => el('li', {}, [
+                el('small', {}, [`${note.author} · ${formatDate(note.createdAt)}`]),
+                note.text
+            ])));
+
+            const text = el('textarea', { placeholder: 'Add an internal note' });
+            const add = el('button', { type: 'button', className: 'secondary' }, ['Add note']);
+            add.addEventListener('click', () => {
+                if (text.value.trim()) this.updateWorkflow({ note: text.value.trim() });
+            });
+
+            return el('div', {}, [list, text, add]);
+        },
+
+        /**
+         * Render a submitted value, with download buttons for uploaded files
+         */
+        renderValue: function (value) {
+            if (isFileReference(value)) {
+                const button = el('button', { type: 'button', className: 'secondary' }, [`${value.name} (${formatSize(value.size)})`]);
+                button.addEventListener('click', () => {
+                    this.download(
+                        `/submission/${encodeURIComponent(this.submission.id)}/files/${encodeURIComponent(value.name)}`,
+                        value.name
+                    ).catch((error) => this.showMessage(error.message));
+                });
+                return button;
+            }
+
+            if (Array.isArray(value) && value.some(isFileReference)) {
+                return el('div', { className: 'toolbar' }, value.map((item) => this.renderValue(item)));
+            }
+
+            return formatValue(value);
+        },
+
+        /**
+         * Apply a workflow change and redraw the submission
+         * @param {Object} changes - PATCH /submission/:id body
+         * @param {boolean} quiet - Ignore failures
+         */
+        updateWorkflow: async function (changes, quiet = false) {
+            try {
+                const body = await this.request(`/submission/${encodeURIComponent(this.submission.id)}`, {
+                    method: 'PATCH',
+                    body: changes
+                });
+                this.submission = body.submission;
+                if (!quiet) {
+                    this.renderSubmission();
+                    this.loadNotificationLog();
+                    this.loadWebhookDeliveries();
+                }
+            } catch (error) {
+                if (!quiet) this.showMessage(error.message);
+            }
+        },
+
+        markNotSpam: async function () {
+            try {
+                const body = await this.request(`/submission/${encodeURIComponent(this.submission.id)}/not-spam`, {
+                    method: 'POST'
+                });
+                this.submission = body.submission;
+                this.renderSubmission();
+                this.loadNotificationLog();
+                this.loadWebhookDeliveries();
+                this.showMessage('Released from the quarantine. Its notifications have been sent.', 'success');
+            } catch (error) {
+                this.showMessage(error.message);
+            }
+        },
+
+        deleteSubmission: async function () {
+            if (!window.confirm('Permanently delete this submission with its files, webhook and notification logs?')) {
+                return;
+            }
+
+            try {
+                await this.request(`/submission/${encodeURIComponent(this.submission.id)}`, { method: 'DELETE' });
+                this.submission = null;
+                this.showView('submissions');
+                await this.loadSubmissions();
+                this.showMessage('Submission deleted.', 'success');
+            } catch (error) {
+                this.showMessage(error.message);
+            }
+        },
+
+        loadNotificationLog: async function () {
+            const container = $('notification-log');
+            if (!container) return;
+
+            try {
+                const body = await this.request(`/submission/${encodeURIComponent(this.submission.id)}/notifications`);
+                this.renderNotificationLog(container, body.notifications);
+            } catch (error) {
+                container.replaceChildren(el('p', { className: 'hint' }, [error.message]));
+            }
+        },
+
+        renderNotificationLog: function (container, notifications) {
+            const resend = el('button', { type: 'button', className: 'secondary' }, ['Resend notification']);
+            resend.addEventListener('click', () => this.resendNotification(resend));
+
+            if (notifications.length === 0) {
+                container.replaceChildren(
+                    el('p', { className: 'hint' }, ['No emails were sent for this submission.']),
+                    resend
+                );
+                return;
+            }
+
+            const rows = notifications.map((notification) => {
+                // e.g. "resend: HTTP 503 → mailgun: HTTP 200"
+                const attempts = notification.attempts.map((attempt) =>
+                    `${attempt.provider}: ${attempt.status ? `HTTP ${attempt.status}` : attempt.error || 'no response'}`
+                ).join(' → ');
+
+                return el('tr', {}, [
+                    el('td', {}, [NOTIFICATION_LABELS[notification.type] || notification.type]),
+                    el('td', {}, [notification.to]),
+                    el('td', {}, [el('span', { className: `badge ${notification.status}` }, [notification.status])]),
+                    el('td', {}, [attempts || notification.error || '']),
+                    el('td', {}, [formatDate(notification.createdAt)])
+                ]);
+            });
+
+            container.replaceChildren(el('table', {}, [el('tbody', {}, rows)]), resend);
+        },
+
+        resendNotification: async function (button) {
+            button.disabled = true;
+            try {
+                const response = await this.fetch(
+                    `/submission/${encodeURIComponent(this.submission.id)}/notifications/resend`,
+                    { method: 'POST' }
+                );
+                const body = await response.json().catch(() => ({}));
+
+                // A failed send still returns the new log entry
+                if (!body.notification) {
+                    throw new Error(body.error || `Resending failed with status ${response.status}`);
+                }
+                this.showMessage(
+                    body.success ? 'Notification sent.' : 'No email provider accepted the notification.',
+                    body.success ? 'success' : 'error'
+                );
+                this.loadNotificationLog();
+            } catch (error) {
+                this.showMessage(error.message);
+            } finally {
+                button.disabled = false;
+            }
+        },
+
+        loadWebhookDeliveries: async function () {
+            const container = $('webhook-deliveries');
+            if (!container) return;
+
+            try {
+                const body = await this.request(`/submission/${encodeURIComponent(this.submission.id)}/webhooks`);
+                this.renderWebhookDeliveries(container, body.deliveries);
+            } catch (error) {
+                container.replaceChildren(el('p', { className: 'hint' }, [error.message]));
+            }
+        },
+
+        renderWebhookDeliveries: function (container, deliveries) {
+            if (deliveries.length === 0) {
+                container.replaceChildren(el('p', { className: 'hint' }, ['No webhooks were sent for this submission.']));
+                return;
+            }
+
+            const rows = deliveries.map((delivery) => {
+                const last = delivery.attempts[delivery.attempts.length - 1];
+                const result = last
+                    ? (last.statusCode ? `HTTP ${last.statusCode}` : last.error || '') + ` · ${formatDate(last.attemptedAt)}`
+                    : 'Not attempted yet';
+
+                const redeliver = el('button', { type: 'button', className: 'secondary' }, ['Redeliver']);
+                redeliver.addEventListener('click', () => this.redeliverWebhook(delivery.id, redeliver));
+
+                return el('tr', {}, [
+                    el('td', {}, [delivery.url]),
+                    el('td', {}, [el('span', { className: `badge ${delivery.status}` }, [delivery.status])]),
+                    el('td', {}, [`${delivery.attempts.length} attempt${delivery.attempts.length === 1 ? '' : 's'}`]),
+                    el('td', {}, [result]),
+                    el('td', {}, [redeliver])
+                ]);
+            });
+
+            container.replaceChildren(el('table', {}, [el('tbody', {}, rows)]));
+        },
+
+        redeliverWebhook: async function (deliveryId, button) {
+            button.disabled = true;
+            try {
+                const response = await this.fetch(
+                    `/submission/${encodeURIComponent(this.submission.id)}/webhooks/${encodeURIComponent(deliveryId)}/redeliver`,
+                    { method: 'POST' }
+                );
+                const body = await response.json().catch(() => ({}));
+
+                // A failed delivery still returns the updated log entry
+                if (!body.delivery) {
+                    throw new Error(body.error || `Redelivery failed with status ${response.status}`);
+                }
+                this.showMessage(
+                    body.success ? 'Webhook delivered.' : 'The webhook endpoint did not accept the delivery.',
+                    body.success ? 'success' : 'error'
+                );
+                this.loadWebhookDeliveries();
+            } catch (error) {
+                this.showMessage(error.message);
+            } finally {
+                button.disabled = false;
+            }
+        },
+
+        testEmail: async function () {
+            const result = $('email-test-result');
+            const button = $('email-test');
+            button.disabled = true;
+
+            try {
+                const body = await this.request('/email-test', { method: 'POST' });
+                result.className = 'message success';
+                result.textContent = `${body.message} (provider: ${body.provider}).`;
+            } catch (error) {
+                const details = error.body && error.body.details;
+                result.className = 'message error';
+                result.textContent = details ? `${error.message}\n${formatValue(details)}` : error.message;
+            } finally {
+                result.hidden = false;
+                button.disabled = false;
+            }
+        },
+
+        /**
+         * Send a test message to the current form's chat channels
+         */
+        testChannels: async function () {
+            const result = $('channel-test-result');
+            if (!this.formId) {
+                result.className = 'message error';
+                result.textContent = 'Open a form first.';
+                result.hidden = false;
+                return;
+            }
+
+            const button = $('channel-test');
+            button.disabled = true;
+
+            try {
+                const body = await this.request(`/forms/${encodeURIComponent(this.formId)}/channel-test`, { method: 'POST' });
+                result.className = 'message success';
+                result.textContent = `${body.message}: ${body.results.map((item) => item.channel).join(', ')}.`;
+            } catch (error) {
+                const results = (error.body && error.body.results) || [];
+                result.className = 'message error';
+                result.textContent = [error.message, ...results.map(
+                    (item) => `${item.channel}: ${item.success ? 'sent' : item.error}`
+                )].join('\n');
+            } finally {
+                result.hidden = false;
+                button.disabled = false;
+            }
+        }
+    };
+
+    /**
+     * Create an element. Text children are always inserted as text, never as HTML.
+     */
+    function el(tag, props = {}, children = []) {
+        const element = document.createElement(tag);
+
+        for (const [key, value] of Object.entries(props)) {
+            if (key === 'dataset') {
+                Object.assign(element.dataset, value);
+            } else if (key.includes('-')) {
+                element.setAttribute(key, value);
+            } else {
+                element[key] = value;
+            }
+        }
+
+        for (const child of children) {
+            element.append(child instanceof Node ? child : String(child));
+        }
+        return element;
+    }
+
+    function definitionList(entries) {
+        if (entries.length === 0) {
+            return el('p', { className: 'hint' }, ['None']);
+        }
+        return el('dl', {}, entries.flatMap(([name, value]) => [el('dt', {}, [name]), el('dd', {}, [value])]));
+    }
+
+    function metadataEntries(metadata) {
+        const entries = [
+            ['Received', formatDate(metadata.timestamp)],
+            ['IP address', metadata.ip],
+            ['User agent', metadata.userAgent || '—']
+        ];
+
+        if (metadata.turnstileScore !== undefined) {
+            entries.push(['Turnstile score', String(metadata.turnstileScore)]);
+        }
+        if (metadata.spam) {
+            const reasons = metadata.spam.reasons.length > 0 ? ` (${metadata.spam.reasons.join(', ')})` : '';
+            entries.push(['Spam score', `${metadata.spam.score}${reasons}`]);
+        }
+        if (metadata.optIn) {
+            entries.push(['Opt-in', metadata.optIn.status === 'confirmed'
+                ? `Confirmed ${formatDate(metadata.optIn.confirmedAt)} from ${metadata.optIn.confirmedIp}`
+                : `Awaiting confirmation until ${formatDate(metadata.optIn.expiresAt)}`]);
+        }
+        if (metadata.anonymizedAt) {
+            entries.push(['Anonymized', formatDate(metadata.anonymizedAt)]);
+        }
+        return entries;
+    }
+
+    function statusBadge(submission) {
+        const status = submission.workflow ? submission.workflow.status : 'new';
+        return el('span', { className: `badge ${status}` }, [STATUS_LABELS[status] || status]);
+    }
+
+    function preview(data) {
+        return Object.entries(data)
+            .slice(0, PREVIEW_FIELDS)
+            .map(([name, value]) => `${name}: ${formatValue(value)}`)
+            .join(' · ') || '(empty)';
+    }
+
+    function formatValue(value) {
+        if (value === null || value === undefined) return '';
+        if (isFileReference(value)) return value.name;
+        if (Array.isArray(value)) return value.map(formatValue).join(', ');
+        if (typeof value === 'object') return JSON.stringify(value, null, 2);
+        return String(value);
+    }
+
+    function formatDate(value) {
+        return value ? new Date(value).toLocaleString() : '';
+    }
+
+    function formatSize(bytes) {
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+        return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+
+    function isFileReference(value) {
+        return !!value && typeof value === 'object' && typeof value.key === 'string' && typeof value.name === 'string';
+    }
+
+    document.addEventListener('DOMContentLoaded', () => Admin.init());
+})(window, document);
@@ -94,9 +94,12 @@
 
             // Add Turnstile widget if not present
             if (this.config.turnstileSiteKey && !formElement.querySelector('.cf-turnstile')) {
-                this.addTurnstileWidget(formElement);
+                this.addTurnstileWidget(formElement, formId);
             }
 
+            // Remember when the form was shown, for the server's time-to-submit spam check
+            formElement.dataset.formflareStartedAt = String(Date.now());
+
             // Attach submit handler
             formElement.addEventListener('submit', (e) => {
                 this.handleSubmit(e, formId);
@@ -110,8 +113,9 @@
         /**
          * Add Turnstile widget to form
          * @param {HTMLFormElement} form - Form element
+         * @param {string} formId - Form identifier, used as the widget's action
          */
-        addTurnstileWidget: function (form) {
+        addTurnstileWidget: function (form, formId) {
             const container = document.createElement('div');
             container.className = 'formflare-turnstile-container';
             container.style.margin = '20px 0';
@@ -122,6 +126,11 @@
             widget.className = 'cf-turnstile';
             widget.setAttribute('data-sitekey', this.config.turnstileSiteKey);
 
+            // The server checks that a token's action matches the form it is submitted to
+            if (/^[A-Za-z0-9_-]{1,32}$/.test(formId)) {
+                widget.setAttribute('data-action', formId);
+            }
+
             container.appendChild(widget);
 
             // Insert before submit button
@@ -176,24 +185,61 @@
                     return;
                 }
 
-                // Submit to FormFlare
-                const response = await fetch(`${this.config.workerUrl}/submit`, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        formId: formId,
-                        turnstileToken: turnstileToken,
-                        data: data,
-                    }),
-                });
+                // Submit to FormFlare (as multipart when the form has files)
+                const hasFiles = Array.from(form.querySelectorAll('input[type="file"]'))
+                    .some(input => input.files && input.files.length > 0);
+
+                const startedAt = form.dataset.formflareStartedAt;
+
+                // One key per filled-in form, so resending after a timeout doesn't submit twice
+                if (!form.dataset.formflareIdempotencyKey && window.crypto && crypto.randomUUID) {
+                    form.dataset.formflareIdempotencyKey = crypto.randomUUID();
+                }
+                const idempotencyHeaders = form.dataset.formflareIdempotencyKey
+                    ? { 'Idempotency-Key': form.dataset.formflareIdempotencyKey }
+                    : {};
+
+                let response;
+                if (hasFiles) {
+                    formData.set('formId', formId);
+                    if (startedAt) {
+                        formData.set('_startedAt', startedAt);
+                    }
+                    if (turnstileToken) {
+                        formData.set('cf-turnstile-response', turnstileToken);
+                    }
+
+                    response = await fetch(`${this.config.workerUrl}/submit`, {
+                        method: 'POST',
+                        headers: {
+                            'Accept': 'application/json',
+                            ...idempotencyHeaders,
+                        },
+                        body: formData,
+                    });
+                } else {
+                    response = await fetch(`${this.config.workerUrl}/submit`, {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json',
+                            ...idempotencyHeaders,
+                        },
+                        body: JSON.stringify({
+                            formId: formId,
+                            turnstileToken: turnstileToken,
+                            startedAt: startedAt ? Number(startedAt) : undefined,
+                            data: data,
+                        }),
+                    });
+                }
 
                 const result = await response.json();
 
                 if (result.success) {
                     this.showMessage(form, 'Form submitted successfully!', 'success');
                     form.reset();
+                    form.dataset.formflareStartedAt = String(Date.now());
+                    delete form.dataset.formflareIdempotencyKey;
                     this.resetTurnstile(form);
 
                     // Trigger custom event
@@ -205,12 +251,17 @@
                     if (result.details && result.details.length > 0) {
                         errorMsg += ': ' + result.details.join(', ');
                     }
+                    if (result.fieldErrors) {
+                        errorMsg += ': ' + Object.entries(result.fieldErrors)
+                            .map(([field, messages]) => `${field} ${messages.join(', ')}`)
+                            .join('; ');
+                    }
                     this.showMessage(form, errorMsg, 'error');
                     this.resetTurnstile(form);
 
                     // Trigger custom event
                     form.dispatchEvent(new CustomEvent('formflare:error', {
-                        detail: { error: errorMsg, formId: formId }
+                        detail: { error: errorMsg, fieldErrors: result.fieldErrors, formId: formId }
                     }));
                 }
             } catch (error) {
@@ -5,7 +5,14 @@ CREATE TABLE IF NOT EXISTS submissions (
     form_id TEXT NOT NULL,
     data TEXT NOT NULL,
     metadata TEXT NOT NULL,
-    created_at TEXT NOT NULL
+    created_at TEXT NOT NULL,
+    -- Workflow state
+    status TEXT NOT NULL DEFAULT 'new',
+    starred INTEGER NOT NULL DEFAULT 0,
+    is_read INTEGER NOT NULL DEFAULT 0,
+    tags TEXT NOT NULL DEFAULT '[]',
+    notes TEXT NOT NULL DEFAULT '[]',
+    updated_at TEXT
 );
 
 -- Index for faster queries by form_id
@@ -17,9 +24,121 @@ CREATE INDEX IF NOT EXISTS idx_created_at ON submissions(created_at DESC);
 -- Composite index for form_id and created_at
 CREATE INDEX IF NOT EXISTS idx_form_id_created_at ON submissions(form_id, created_at DESC);
 
+-- Index for filtering by workflow status
+CREATE INDEX IF NOT EXISTS idx_form_id_status ON submissions(form_id, status, created_at DESC);
+
 -- Rate limiting table
 CREATE TABLE IF NOT EXISTS rate_limits (
     key TEXT PRIMARY KEY,
     count INTEGER NOT NULL,
     reset_at INTEGER NOT NULL
 );
+
+-- Blocked requests and failed checks per rate limit, for monitoring ('*' is the worker-wide limit)
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+    form_id TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    blocked INTEGER NOT NULL DEFAULT 0,
+    errors INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (form_id, scope)
+);
+
+-- IP, ASN and country allow/deny rules (rule stored as JSON; form_id is NULL for global rules)
+CREATE TABLE IF NOT EXISTS access_rules (
+    id TEXT PRIMARY KEY,
+    form_id TEXT,
+    record TEXT NOT NULL,
+    expires_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+-- Submissions blocked per access rule, or per form for visitors matching no allow rule
+CREATE TABLE IF NOT EXISTS access_counters (
+    key TEXT PRIMARY KEY,
+    blocked INTEGER NOT NULL DEFAULT 0,
+    last_blocked_at TEXT
+);
+
+-- Daily submission, rejection, referrer, country and Turnstile score counters per form
+-- ('*' holds rejections made before the form is known)
+CREATE TABLE IF NOT EXISTS form_stats (
+    form_id TEXT NOT NULL,
+    day TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (form_id, day, metric)
+);
+
+-- Solved ALTCHA challenges, so each can only be used once (expires_at in seconds since epoch)
+CREATE TABLE IF NOT EXISTS captcha_replays (
+    challenge TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL
+);
+
+-- Responses to /submit kept for replay by idempotency key (response is NULL while the
+-- original request is processed; expires_at in seconds since epoch)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    key TEXT PRIMARY KEY,
+    fingerprint TEXT NOT NULL,
+    response TEXT,
+    expires_at INTEGER NOT NULL
+);
+
+-- Form registry (per-form configuration stored as JSON)
+CREATE TABLE IF NOT EXISTS forms (
+    id TEXT PRIMARY KEY,
+    config TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Webhook delivery log (attempts stored as a JSON array)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    submission_id TEXT NOT NULL,
+    form_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts TEXT NOT NULL,
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Index for the per-submission delivery log
+CREATE INDEX IF NOT EXISTS idx_webhook_submission_id ON webhook_deliveries(submission_id);
+
+-- Index for finding deliveries due for retry
+CREATE INDEX IF NOT EXISTS idx_webhook_status_next_attempt ON webhook_deliveries(status, next_attempt_at);
+
+-- Email notification log (provider attempts stored as a JSON array)
+CREATE TABLE IF NOT EXISTS notification_log (
+    id TEXT PRIMARY KEY,
+    submission_id TEXT NOT NULL,
+    form_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    attempts TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+-- Index for the per-submission notification log
+CREATE INDEX IF NOT EXISTS idx_notification_submission_id ON notification_log(submission_id);
+
+-- Digest watermarks: submissions created before sent_until have been reported
+CREATE TABLE IF NOT EXISTS digest_state (
+    form_id TEXT PRIMARY KEY,
+    sent_until TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- API keys (record stored as JSON, holding the key hash rather than the key)
+CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    record TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
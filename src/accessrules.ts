@@ -0,0 +1,405 @@
+/**
+ * Access rules: allow or deny submissions by IP address or CIDR range, ASN
+ * or country, for every form or for one form, with optional expiry
+ */
+
+import { nanoid } from 'nanoid';
+import { isValidFormId } from './forms';
+
+export type AccessRuleAction = 'allow' | 'deny';
+
+export type AccessRuleType = 'ip' | 'asn' | 'country';
+
+export interface AccessRule {
+    id: string;
+    action: AccessRuleAction;
+    type: AccessRuleType;
+    value: string; // IP or CIDR range, ASN number, or ISO 3166-1 alpha-2 country code
+    formId?: string; // applies to every form unless set
+    note?: string;
+    expiresAt?: string;
+    createdAt: string;
+}
+
+export type AccessRuleInput = Omit<AccessRule, 'id' | 'createdAt'>;
+
+/**
+ * Who a submission comes from, taken from the connecting IP and `request.cf`
+ */
+export interface Visitor {
+    ip?: string;
+    asn?: number;
+    country?: string;
+}
+
+export interface AccessDecision {
+    allowed: boolean;
+    rule?: AccessRule; // the rule that decided, if any matched
+}
+
+export interface AccessBlockCounter {
+    blocked: number;
+    lastBlockedAt?: string;
+}
+
+const TYPES: AccessRuleType[] = ['ip', 'asn', 'country'];
+
+// All rules are kept in one KV key, so /submit reads them in a single request
+const KV_RULES_KEY = 'access-rules';
+
+/**
+ * Validate a rule supplied through the API. The value is normalised:
+ * ASNs lose any "AS" prefix and country codes are upper-cased.
+ */
+export function parseAccessRuleInput(body: any): { input?: AccessRuleInput; error?: string } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { error: 'Access rule must be an object' };
+    }
+
+    if (body.action !== 'allow' && body.action !== 'deny') {
+        return { error: 'action must be "allow" or "deny"' };
+    }
+
+    if (!TYPES.includes(body.type)) {
+        return { error: `type must be one of: ${TYPES.join(', ')}` };
+    }
+
+    const raw = typeof body.value === 'number' ? String(body.value) : body.value;
+    if (typeof raw !== 'string' || !raw.trim()) {
+        return { error: 'value is required' };
+    }
+
+    let value = raw.trim();
+    if (body.type === 'ip') {
+        if (!parseCidr(value)) {
+            return { error: 'value must be an IPv4 or IPv6 address or CIDR range' };
+        }
+    } else if (body.type === 'asn') {
+        value = value.replace(/^AS/i, '');
+        if (!/^\d{1,10}$/.test(value) || Number(value) > 4294967295) {
+            return { error: 'value must be an ASN, e.g. 13335 or AS13335' };
+        }
+        value = String(Number(value));
+    } else {
+        value = value.toUpperCase();
+        if (!/^[A-Z][A-Z0-9]$/.test(value)) {
+            return { error: 'value must be a two-letter country code' };
+        }
+    }
+
+    const input: AccessRuleInput = { action: body.action, type: body.type, value };
+
+    if (body.formId !== undefined && body.formId !== null) {
+        if (typeof body.formId !== 'string' || !isValidFormId(body.formId)) {
+            return { error: 'formId must be a form ID' };
+        }
+        input.formId = body.formId;
+    }
+
+    if (body.note !== undefined && body.note !== null) {
+        if (typeof body.note !== 'string' || body.note.length > 500) {
+            return { error: 'note must be a string of at most 500 characters' };
+        }
+        if (body.note.trim()) input.note = body.note.trim();
+    }
+
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+        const expiresAt = new Date(body.expiresAt);
+        if (typeof body.expiresAt !== 'string' || isNaN(expiresAt.getTime())) {
+            return { error: 'expiresAt must be an ISO date' };
+        }
+        if (expiresAt.getTime() <= Date.now()) {
+            return { error: 'expiresAt must be in the future' };
+        }
+        input.expiresAt = expiresAt.toISOString();
+    }
+
+    return { input };
+}
+
+/**
+ * Decide whether a visitor may submit. Global rules and a form's own rules
+ * are separate layers, and the visitor must pass both. Pass no form ID to
+ * check the global layer only.
+ *
+ * Within a layer, the most specific matching rule decides: IP rules over ASN
+ * rules over country rules, and deny over allow when both match. A visitor
+ * matching no rule is allowed, unless the layer has allow rules, which then
+ * act as an allowlist.
+ */
+export function checkAccess(rules: AccessRule[], formId: string | undefined, visitor: Visitor): AccessDecision {
+    const now = Date.now();
+    const active = rules.filter(rule => !rule.expiresAt || new Date(rule.expiresAt).getTime() > now);
+
+    const layers = [active.filter(rule => !rule.formId)];
+    if (formId) layers.push(active.filter(rule => rule.formId === formId));
+
+    for (const layer of layers) {
+        const decision = checkLayer(layer, visitor);
+        if (!decision.allowed) return decision;
+    }
+
+    return { allowed: true };
+}
+
+function checkLayer(rules: AccessRule[], visitor: Visitor): AccessDecision {
+    for (const type of TYPES) {
+        const matching = rules.filter(rule => rule.type === type && matchesRule(rule, visitor));
+        const rule = matching.find(rule => rule.action === 'deny') ?? matching[0];
+        if (rule) return { allowed: rule.action === 'allow', rule };
+    }
+
+    return { allowed: !rules.some(rule => rule.action === 'allow') };
+}
+
+function matchesRule(rule: AccessRule, visitor: Visitor): boolean {
+    switch (rule.type) {
+        case 'ip':
+            return visitor.ip !== undefined && ipInRange(visitor.ip, rule.value);
+        case 'asn':
+            return visitor.asn !== undefined && String(visitor.asn) === rule.value;
+        case 'country':
+            return visitor.country?.toUpperCase() === rule.value;
+    }
+}
+
+/**
+ * Whether an IP address is within a CIDR range, or equal to a single address.
+ * IPv4-mapped IPv6 addresses match IPv4 ranges.
+ */
+export function ipInRange(ip: string, range: string): boolean {
+    const address = parseIp(ip);
+    const cidr = parseCidr(range);
+    if (!address || !cidr || address.version !== cidr.version) return false;
+
+    const bits = address.version === 4 ? 32 : 128;
+    const shift = BigInt(bits - cidr.prefix);
+    return address.value >> shift === cidr.value >> shift;
+}
+
+function parseCidr(range: string): { version: 4 | 6; value: bigint; prefix: number } | null {
+    const [ip, prefix, ...rest] = range.split('/');
+    if (rest.length > 0) return null;
+
+    const address = parseIp(ip);
+    if (!address) return null;
+
+    const bits = address.version === 4 ? 32 : 128;
+    if (prefix === undefined) return { ...address, prefix: bits };
+    if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > bits) return null;
+
+    return { ...address, prefix: Number(prefix) };
+}
+
+function parseIp(ip: string): { version: 4 | 6; value: bigint } | null {
+    if (ip.includes('.') && !ip.includes(':')) {
+        const value = parseIpv4(ip);
+        return value === null ? null : { version: 4, value };
+    }
+
+    const value = parseIpv6(ip);
+    if (value === null) return null;
+
+    // ::ffff:a.b.c.d is an IPv4 address
+    if (value >> 32n === 0xffffn) {
+        return { version: 4, value: value & 0xffffffffn };
+    }
+    return { version: 6, value };
+}
+
+function parseIpv4(ip: string): bigint | null {
+    const parts = ip.split('.');
+    if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+        return null;
+    }
+    return parts.reduce((value, part) => (value << 8n) + BigInt(part), 0n);
+}
+
+function parseIpv6(ip: string): bigint | null {
+    // Zone IDs, as in fe80::1%eth0, don't identify the address
+    let address = ip.split('%')[0];
+
+    // A trailing dotted IPv4 address stands for the last two groups
+    const ipv4 = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+    if (ipv4) {
+        const value = parseIpv4(ipv4[2]);
+        if (value === null) return null;
+        address = `${ipv4[1]}${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`;
+    }
+
+    const halves = address.split('::');
+    if (halves.length > 2) return null;
+
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+
+    if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+    const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+    if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+    return groups.reduce((value, group) => (value << 16n) + BigInt(parseInt(group, 16)), 0n);
+}
+
+/**
+ * Create a rule
+ */
+export async function createAccessRule(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    input: AccessRuleInput
+): Promise<AccessRule> {
+    const rule: AccessRule = {
+        id: nanoid(12),
+        ...input,
+        createdAt: new Date().toISOString(),
+    };
+
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO access_rules (id, form_id, record, expires_at, created_at)
+         VALUES (?, ?, ?, ?, ?)`
+            )
+            .bind(rule.id, rule.formId ?? null, JSON.stringify(rule), rule.expiresAt ?? null, rule.createdAt)
+            .run();
+    } else if (kv) {
+        const rules = await kv.get(KV_RULES_KEY, 'json') as AccessRule[] | null ?? [];
+        await kv.put(KV_RULES_KEY, JSON.stringify([...rules, rule]));
+    } else {
+        throw new Error('No storage backend configured');
+    }
+
+    return rule;
+}
+
+/**
+ * List rules, oldest first, including expired rules not yet cleaned up
+ */
+export async function listAccessRules(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined
+): Promise<AccessRule[]> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT record FROM access_rules ORDER BY created_at')
+            .all();
+
+        return result.results.map((row: any) => JSON.parse(row.record));
+    } else if (kv) {
+        return await kv.get(KV_RULES_KEY, 'json') as AccessRule[] | null ?? [];
+    }
+
+    return [];
+}
+
+/**
+ * Delete a rule and its blocked counter. Returns the deleted rule, or null if it doesn't exist.
+ */
+export async function deleteAccessRule(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    id: string
+): Promise<AccessRule | null> {
+    const rule = (await listAccessRules(kv, db)).find(rule => rule.id === id);
+    if (!rule) return null;
+
+    if (db) {
+        await db.prepare('DELETE FROM access_rules WHERE id = ?').bind(id).run();
+        await db.prepare('DELETE FROM access_counters WHERE key = ?').bind(id).run();
+    } else if (kv) {
+        const rules = await kv.get(KV_RULES_KEY, 'json') as AccessRule[] | null ?? [];
+        await kv.put(KV_RULES_KEY, JSON.stringify(rules.filter(rule => rule.id !== id)));
+        await kv.delete(`access-blocked:${id}`);
+    }
+
+    return rule;
+}
+
+/**
+ * Delete rules that have expired, with their counters
+ */
+export async function deleteExpiredAccessRules(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined
+): Promise<number> {
+    const now = Date.now();
+    const expired = (await listAccessRules(kv, db))
+        .filter(rule => rule.expiresAt && new Date(rule.expiresAt).getTime() <= now);
+
+    for (const rule of expired) {
+        await deleteAccessRule(kv, db, rule.id);
+    }
+
+    return expired.length;
+}
+
+/**
+ * The counter a blocked submission is recorded under: the deciding rule,
+ * or `allowlist:<formId>` (`allowlist:*` for global rules) when the visitor
+ * matched no allow rule
+ */
+export function accessCounterKey(decision: AccessDecision, formId: string | undefined): string {
+    return decision.rule?.id ?? `allowlist:${formId ?? '*'}`;
+}
+
+/**
+ * Count a blocked submission
+ */
+export async function recordAccessBlock(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    key: string
+): Promise<void> {
+    const now = new Date().toISOString();
+
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO access_counters (key, blocked, last_blocked_at) VALUES (?, 1, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           blocked = blocked + 1,
+           last_blocked_at = excluded.last_blocked_at`
+            )
+            .bind(key, now)
+            .run();
+    } else if (kv) {
+        // Approximate under load: KV has no atomic increment
+        const counter = await kv.get(`access-blocked:${key}`, 'json') as AccessBlockCounter | null ?? { blocked: 0 };
+        await kv.put(`access-blocked:${key}`, JSON.stringify({ blocked: counter.blocked + 1, lastBlockedAt: now }));
+    }
+}
+
+/**
+ * Blocked counters, by rule ID or allowlist key
+ */
+export async function getAccessCounters(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined
+): Promise<Record<string, AccessBlockCounter>> {
+    const counters: Record<string, AccessBlockCounter> = {};
+
+    if (db) {
+        const result = await db
+            .prepare('SELECT key, blocked, last_blocked_at FROM access_counters')
+            .all<{ key: string; blocked: number; last_blocked_at: string }>();
+
+        for (const row of result.results) {
+            counters[row.key] = { blocked: row.blocked, lastBlockedAt: row.last_blocked_at };
+        }
+    } else if (kv) {
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list({ prefix: 'access-blocked:', cursor });
+            for (const key of list.keys) {
+                const counter = await kv.get(key.name, 'json') as AccessBlockCounter | null;
+                if (counter) counters[key.name.slice('access-blocked:'.length)] = counter;
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
+    }
+
+    return counters;
+}
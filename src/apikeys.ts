@@ -0,0 +1,279 @@
+/**
+ * API key store
+ * Keys are stored hashed, each with its own scopes, optional form restriction and expiry
+ */
+
+import { nanoid } from 'nanoid';
+import { randomToken, sha256Hex, timingSafeEqual } from './crypto';
+import { isValidFormId } from './forms';
+
+export const API_KEY_SCOPES = [
+    'submissions:read',
+    'submissions:write',
+    'submissions:export',
+    'submissions:delete',
+    'forms:manage',
+    'email:test',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+    id: string;
+    label: string;
+    scopes: ApiKeyScope[];
+    formIds?: string[]; // restricts the key to these forms
+    hash: string; // SHA-256 of the full key, the key itself is never stored
+    expiresAt?: string;
+    revokedAt?: string;
+    createdAt: string;
+}
+
+export type ApiKeyInput = Pick<ApiKey, 'label' | 'scopes' | 'formIds' | 'expiresAt'>;
+
+/**
+ * Who a request is authenticated as
+ */
+export interface Principal {
+    keyId: string; // "admin" for the API_KEY secret
+    label: string;
+    scopes: readonly ApiKeyScope[];
+    formIds?: string[];
+    admin: boolean;
+}
+
+// Keys look like ff_<id>_<secret>, so the record can be found without a hash lookup
+const KEY_PATTERN = /^ff_([A-Za-z0-9_-]{12})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * Validate a key creation payload
+ */
+export function parseApiKeyInput(body: any): { input?: ApiKeyInput; error?: string } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { error: 'API key must be an object' };
+    }
+
+    if (typeof body.label !== 'string' || !body.label.trim()) {
+        return { error: 'label is required' };
+    }
+
+    if (
+        !Array.isArray(body.scopes) ||
+        body.scopes.length === 0 ||
+        !body.scopes.every((scope: any) => API_KEY_SCOPES.includes(scope))
+    ) {
+        return { error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}` };
+    }
+
+    const input: ApiKeyInput = {
+        label: body.label.trim(),
+        scopes: [...new Set<ApiKeyScope>(body.scopes)],
+    };
+
+    if (body.formIds !== undefined && body.formIds !== null) {
+        if (
+            !Array.isArray(body.formIds) ||
+            body.formIds.length === 0 ||
+            !body.formIds.every((id: any) => typeof id === 'string' && isValidFormId(id))
+        ) {
+            return { error: 'formIds must be a non-empty list of form IDs' };
+        }
+        input.formIds = body.formIds;
+    }
+
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+        const expiresAt = new Date(body.expiresAt);
+        if (typeof body.expiresAt !== 'string' || isNaN(expiresAt.getTime())) {
+            return { error: 'expiresAt must be an ISO date' };
+        }
+        if (expiresAt.getTime() <= Date.now()) {
+            return { error: 'expiresAt must be in the future' };
+        }
+        input.expiresAt = expiresAt.toISOString();
+    }
+
+    return { input };
+}
+
+/**
+ * Create a key. The plaintext key is only ever returned here.
+ */
+export async function createApiKey(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    input: ApiKeyInput
+): Promise<{ key: string; record: ApiKey }> {
+    const id = nanoid(12);
+    const key = `ff_${id}_${randomToken()}`;
+    const record: ApiKey = {
+        id,
+        ...input,
+        hash: await sha256Hex(key),
+        createdAt: new Date().toISOString(),
+    };
+
+    await saveApiKey(kv, db, record);
+    return { key, record };
+}
+
+/**
+ * Replace a key's secret, keeping its label, scopes and restrictions
+ */
+export async function rotateApiKey(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    existing: ApiKey
+): Promise<{ key: string; record: ApiKey }> {
+    const { key, record } = await createApiKey(kv, db, {
+        label: existing.label,
+        scopes: existing.scopes,
+        formIds: existing.formIds,
+        expiresAt: existing.expiresAt,
+    });
+
+    await revokeApiKey(kv, db, existing);
+    return { key, record };
+}
+
+/**
+ * Revoke a key. The record is kept so the key list shows when it was revoked.
+ */
+export async function revokeApiKey(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    apiKey: ApiKey
+): Promise<ApiKey> {
+    const revoked = { ...apiKey, revokedAt: apiKey.revokedAt ?? new Date().toISOString() };
+    await saveApiKey(kv, db, revoked);
+    return revoked;
+}
+
+/**
+ * Get a key record by ID
+ */
+export async function getApiKey(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    id: string
+): Promise<ApiKey | null> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT record FROM api_keys WHERE id = ?')
+            .bind(id)
+            .first();
+
+        return result ? JSON.parse(result.record as string) : null;
+    } else if (kv) {
+        return await kv.get(`apikey:${id}`, 'json') as ApiKey | null;
+    }
+
+    return null;
+}
+
+/**
+ * List all key records, newest first
+ */
+export async function listApiKeys(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined
+): Promise<ApiKey[]> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT record FROM api_keys ORDER BY created_at DESC')
+            .all();
+
+        return result.results.map((row: any) => JSON.parse(row.record));
+    } else if (kv) {
+        const keys: ApiKey[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list({ prefix: 'apikey:', cursor });
+            for (const key of list.keys) {
+                const record = await kv.get(key.name, 'json') as ApiKey | null;
+                if (record) keys.push(record);
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
+
+        return keys.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    return [];
+}
+
+/**
+ * Resolve a bearer token to a principal.
+ * The API_KEY secret is the admin key: it has every scope and can manage keys.
+ */
+export async function authenticate(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    adminKey: string | undefined,
+    token: string
+): Promise<Principal | null> {
+    if (adminKey && timingSafeEqual(token, adminKey)) {
+        return { keyId: 'admin', label: 'Admin', scopes: API_KEY_SCOPES, admin: true };
+    }
+
+    const match = token.match(KEY_PATTERN);
+    if (!match) return null;
+
+    const record = await getApiKey(kv, db, match[1]);
+    if (!record || !timingSafeEqual(await sha256Hex(token), record.hash)) {
+        return null;
+    }
+
+    if (record.revokedAt || (record.expiresAt && record.expiresAt <= new Date().toISOString())) {
+        return null;
+    }
+
+    return {
+        keyId: record.id,
+        label: record.label,
+        scopes: record.scopes,
+        formIds: record.formIds,
+        admin: false,
+    };
+}
+
+/**
+ * Check whether a principal may access a form's data
+ */
+export function canAccessForm(principal: Principal, formId: string): boolean {
+    return !principal.formIds || principal.formIds.includes(formId);
+}
+
+/**
+ * Strip the hash before returning a key over the API
+ */
+export function redactApiKey(apiKey: ApiKey) {
+    const { hash, ...rest } = apiKey;
+    return {
+        ...rest,
+        status: apiKey.revokedAt
+            ? 'revoked'
+            : apiKey.expiresAt && apiKey.expiresAt <= new Date().toISOString() ? 'expired' : 'active',
+    };
+}
+
+async function saveApiKey(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    apiKey: ApiKey
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO api_keys (id, record, created_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET record = excluded.record`
+            )
+            .bind(apiKey.id, JSON.stringify(apiKey), apiKey.createdAt)
+            .run();
+    } else if (kv) {
+        await kv.put(`apikey:${apiKey.id}`, JSON.stringify(apiKey));
+    } else {
+        throw new Error('No storage backend configured');
+    }
+}
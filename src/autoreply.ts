@@ -0,0 +1,145 @@
+/**
+ * Auto-replies: a confirmation email sent to the address a visitor entered in the form.
+ * Replies to the same address are throttled, so a form cannot be used to flood third parties.
+ */
+
+import type { FormConfig } from './forms';
+import { parseEmailTemplate, type EmailTemplate } from './email';
+import { checkRateLimit } from './ratelimit';
+import { sha256Hex } from './crypto';
+import { isEmailAddress } from './validation';
+
+export interface AutoReplyConfig {
+    emailField: string; // field holding the visitor's address
+    from?: string; // falls back to EMAIL_FROM
+    replyTo?: string;
+    template?: EmailTemplate;
+    maxPerAddress: number; // auto-replies to one address per window, across all forms
+    windowSeconds: number;
+}
+
+const DEFAULT_AUTO_REPLY: AutoReplyConfig = {
+    emailField: 'email',
+    maxPerAddress: 3,
+    windowSeconds: 24 * 60 * 60,
+};
+
+// Only used when the auto-reply has no template of its own. Submitted values are
+// deliberately left out, so a reply to a mistyped or forged address carries nothing from the form.
+const DEFAULT_TEMPLATE: Required<EmailTemplate> = {
+    subject: 'We received your message',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>We received your message</title>
+</head>
+<body style="margin: 0; padding: 40px 20px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; background-color: #f5f5f5;">
+  <table width="600" cellpadding="0" cellspacing="0" align="center" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+    <tr>
+      <td style="padding: 30px; color: #333; font-size: 15px; line-height: 1.6;">
+        <p style="margin: 0 0 16px 0;">Thanks for getting in touch. We have received your message and will reply as soon as we can.</p>
+        <p style="margin: 0; color: #999; font-size: 12px;">This is an automatic reply to a form submitted with this email address. If that was not you, you can ignore it.</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+    text: `Thanks for getting in touch. We have received your message and will reply as soon as we can.
+
+This is an automatic reply to a form submitted with this email address. If that was not you, you can ignore it.`,
+};
+
+/**
+ * Validate an auto-reply configuration supplied through the forms API
+ */
+export function parseAutoReplyConfig(value: any): { autoReply?: AutoReplyConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'autoReply must be an object' };
+    }
+
+    const autoReply: AutoReplyConfig = { ...DEFAULT_AUTO_REPLY };
+
+    if (value.emailField !== undefined) {
+        if (typeof value.emailField !== 'string' || !value.emailField) {
+            return { error: 'autoReply.emailField must be a field name' };
+        }
+        autoReply.emailField = value.emailField;
+    }
+
+    for (const key of ['from', 'replyTo'] as const) {
+        if (value[key] !== undefined && value[key] !== null) {
+            if (typeof value[key] !== 'string' || !isEmailAddress(value[key])) {
+                return { error: `autoReply.${key} must be an email address` };
+            }
+            autoReply[key] = value[key];
+        }
+    }
+
+    const template = { subject: value.subject, html: value.html, text: value.text };
+    if (Object.values(template).some(item => item !== undefined && item !== null)) {
+        const { emailTemplate, error } = parseEmailTemplate(template, 'autoReply');
+        if (!emailTemplate) return { error };
+        autoReply.template = emailTemplate;
+    }
+
+    if (value.maxPerAddress !== undefined) {
+        if (!Number.isInteger(value.maxPerAddress) || value.maxPerAddress < 1 || value.maxPerAddress > 100) {
+            return { error: 'autoReply.maxPerAddress must be an integer from 1 to 100' };
+        }
+        autoReply.maxPerAddress = value.maxPerAddress;
+    }
+
+    if (value.windowSeconds !== undefined) {
+        if (!Number.isInteger(value.windowSeconds) || value.windowSeconds < 60) {
+            return { error: 'autoReply.windowSeconds must be an integer of at least 60' };
+        }
+        autoReply.windowSeconds = value.windowSeconds;
+    }
+
+    return { autoReply };
+}
+
+/**
+ * The visitor's email address, when the submission has a valid one.
+ * Read from the auto-reply's field, or from `email` when the form has no auto-reply.
+ */
+export function getSubmitterEmail(form: FormConfig, data: Record<string, any>): string | undefined {
+    const value = data[form.autoReply?.emailField ?? DEFAULT_AUTO_REPLY.emailField];
+    const address = typeof value === 'string' ? value.trim() : undefined;
+    return address && isEmailAddress(address) ? address : undefined;
+}
+
+/**
+ * The auto-reply template with defaults filled in. An HTML-only template
+ * keeps its text body unset so it is derived from the HTML.
+ */
+export function autoReplyTemplate(autoReply: AutoReplyConfig): EmailTemplate {
+    const template = autoReply.template ?? {};
+    return {
+        subject: template.subject ?? DEFAULT_TEMPLATE.subject,
+        html: template.html ?? DEFAULT_TEMPLATE.html,
+        text: template.text ?? (template.html ? undefined : DEFAULT_TEMPLATE.text),
+    };
+}
+
+/**
+ * Count an auto-reply against the address's throttle. Addresses are hashed
+ * so the throttle does not keep a list of visitors' email addresses.
+ */
+export async function takeAutoReplySlot(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    autoReply: AutoReplyConfig,
+    address: string
+): Promise<boolean> {
+    const { allowed } = await checkRateLimit(
+        kv,
+        db,
+        `autoreply:${await sha256Hex(address.toLowerCase())}`,
+        autoReply.maxPerAddress,
+        autoReply.windowSeconds
+    );
+    return allowed;
+}
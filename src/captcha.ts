@@ -0,0 +1,441 @@
+/**
+ * CAPTCHA verification. Each form picks a provider; Turnstile is the default.
+ * ALTCHA is a self-hosted proof of work, with challenges issued by this worker.
+ */
+
+import type { FormConfig } from './forms';
+import { hmacSha256Hex, sha256Hex, timingSafeEqual } from './crypto';
+import {
+    verifyTurnstile,
+    resolveTurnstileSecret,
+    turnstileHostnames,
+    originHostnames,
+    checkToken,
+    isTurnstileAction,
+    type TurnstileEnv,
+    type TurnstileToken,
+} from './turnstile';
+
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'recaptcha' | 'friendly-captcha' | 'altcha';
+
+export const CAPTCHA_PROVIDERS: CaptchaProvider[] = ['turnstile', 'hcaptcha', 'recaptcha', 'friendly-captcha', 'altcha'];
+
+export interface CaptchaConfig {
+    provider: CaptchaProvider;
+    secretKey?: string; // falls back to the provider's secret, e.g. HCAPTCHA_SECRET_KEY (Turnstile uses turnstileSecretKey)
+    siteKey?: string; // checked by hCaptcha and Friendly Captcha when set
+    minScore?: number; // reCAPTCHA v3 scores below this are rejected, default 0.5
+    action?: string; // reCAPTCHA v3 action tokens must have
+    maxNumber?: number; // ALTCHA difficulty, default 100000
+}
+
+/**
+ * Where and when a token was solved, kept with the submission
+ */
+export interface CaptchaDetails extends TurnstileToken {
+    provider: CaptchaProvider;
+    score?: number;
+}
+
+export interface CaptchaResult {
+    success: boolean;
+    score?: number;
+    errors?: string[];
+    details?: CaptchaDetails;
+    unavailable?: boolean; // the provider couldn't be reached, so the token is unverified rather than invalid
+}
+
+export interface CaptchaEnv extends TurnstileEnv {
+    FORM_SUBMISSIONS?: KVNamespace;
+    DB?: D1Database;
+    HCAPTCHA_SECRET_KEY?: string;
+    RECAPTCHA_SECRET_KEY?: string;
+    FRIENDLY_CAPTCHA_API_KEY?: string;
+    ALTCHA_HMAC_KEY?: string;
+}
+
+export interface CaptchaContext {
+    form: FormConfig;
+    remoteIP: string;
+    hostname?: string; // of the page the form was submitted from
+    env: CaptchaEnv;
+}
+
+/**
+ * A CAPTCHA provider's server-side check of a token
+ */
+export interface CaptchaVerifier {
+    label: string;
+    verify(token: string, context: CaptchaContext): Promise<CaptchaResult>;
+}
+
+export interface AltchaChallenge {
+    algorithm: 'SHA-256';
+    challenge: string;
+    maxnumber: number;
+    salt: string;
+    signature: string;
+}
+
+// Fields CAPTCHA widgets add to a form, in the order they are looked for
+export const CAPTCHA_FIELDS = [
+    'cf-turnstile-response',
+    'h-captcha-response',
+    'g-recaptcha-response',
+    'frc-captcha-response',
+    'frc-captcha-solution',
+    'altcha',
+];
+
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_ALTCHA_MAX_NUMBER = 100000;
+const ALTCHA_CHALLENGE_TTL_SECONDS = 600;
+
+/**
+ * Validate a CAPTCHA configuration supplied through the forms API
+ */
+export function parseCaptchaConfig(value: any): { captcha?: CaptchaConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'captcha must be an object' };
+    }
+
+    if (!CAPTCHA_PROVIDERS.includes(value.provider)) {
+        return { error: `captcha.provider must be one of: ${CAPTCHA_PROVIDERS.join(', ')}` };
+    }
+
+    const captcha: CaptchaConfig = { provider: value.provider };
+
+    for (const key of ['secretKey', 'siteKey', 'action'] as const) {
+        if (value[key] !== undefined && value[key] !== null) {
+            if (typeof value[key] !== 'string' || !value[key]) {
+                return { error: `captcha.${key} must be a string` };
+            }
+            captcha[key] = value[key];
+        }
+    }
+
+    if (value.minScore !== undefined && value.minScore !== null) {
+        if (typeof value.minScore !== 'number' || value.minScore < 0 || value.minScore > 1) {
+            return { error: 'captcha.minScore must be a number from 0 to 1' };
+        }
+        captcha.minScore = value.minScore;
+    }
+
+    if (value.maxNumber !== undefined && value.maxNumber !== null) {
+        if (!Number.isInteger(value.maxNumber) || value.maxNumber < 1000 || value.maxNumber > 10000000) {
+            return { error: 'captcha.maxNumber must be an integer from 1000 to 10000000' };
+        }
+        captcha.maxNumber = value.maxNumber;
+    }
+
+    return { captcha };
+}
+
+/**
+ * Hide the secret key in API responses
+ */
+export function redactCaptcha(captcha: CaptchaConfig) {
+    const { secretKey, ...rest } = captcha;
+    return { ...rest, hasSecretKey: !!secretKey };
+}
+
+/**
+ * The verifier for a form's provider
+ */
+export function captchaVerifier(form: FormConfig): CaptchaVerifier {
+    return VERIFIERS[form.captcha?.provider ?? 'turnstile'];
+}
+
+const turnstileVerifier: CaptchaVerifier = {
+    label: 'Turnstile',
+    async verify(token, { form, remoteIP, hostname, env }) {
+        const result = await verifyTurnstile(token, resolveTurnstileSecret(form, hostname, env), remoteIP, {
+            hostnames: turnstileHostnames(form),
+            action: form.id,
+            // Longer form IDs can't be a widget's action, so their tokens never carry one
+            allowMissingAction: form.turnstile?.allowMissingAction || !isTurnstileAction(form.id),
+            maxTokenAgeSeconds: form.turnstile?.maxTokenAgeSeconds,
+        });
+
+        return {
+            success: result.success,
+            score: result.score,
+            errors: result.errors,
+            details: result.token && { provider: 'turnstile', ...result.token },
+            unavailable: result.unavailable,
+        };
+    },
+};
+
+const hcaptchaVerifier: CaptchaVerifier = {
+    label: 'hCaptcha',
+    async verify(token, { form, remoteIP, env }) {
+        const secretKey = form.captcha?.secretKey || env.HCAPTCHA_SECRET_KEY;
+        if (!secretKey) return notConfigured('HCAPTCHA_SECRET_KEY');
+
+        const body = new URLSearchParams({ secret: secretKey, response: token, remoteip: remoteIP });
+        if (form.captcha?.siteKey) body.set('sitekey', form.captcha.siteKey);
+
+        return siteverify('https://api.hcaptcha.com/siteverify', body, 'hcaptcha', form);
+    },
+};
+
+const recaptchaVerifier: CaptchaVerifier = {
+    label: 'reCAPTCHA',
+    async verify(token, { form, remoteIP, env }) {
+        const secretKey = form.captcha?.secretKey || env.RECAPTCHA_SECRET_KEY;
+        if (!secretKey) return notConfigured('RECAPTCHA_SECRET_KEY');
+
+        const body = new URLSearchParams({ secret: secretKey, response: token, remoteip: remoteIP });
+        const result = await siteverify('https://www.google.com/recaptcha/api/siteverify', body, 'recaptcha', form, {
+            action: form.captcha?.action,
+        });
+
+        // v3 tokens carry a score from 0.0 (likely a bot) to 1.0 (likely a human)
+        const minScore = form.captcha?.minScore ?? DEFAULT_MIN_SCORE;
+        if (result.success && result.score !== undefined && result.score < minScore) {
+            return { ...result, success: false, errors: ['score-too-low'] };
+        }
+        return result;
+    },
+};
+
+const friendlyCaptchaVerifier: CaptchaVerifier = {
+    label: 'Friendly Captcha',
+    async verify(token, { form, env }) {
+        const apiKey = form.captcha?.secretKey || env.FRIENDLY_CAPTCHA_API_KEY;
+        if (!apiKey) return notConfigured('FRIENDLY_CAPTCHA_API_KEY');
+
+        try {
+            const response = await fetch('https://global.frcapi.com/api/v2/captcha/siteverify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+                body: JSON.stringify({ response: token, sitekey: form.captcha?.siteKey }),
+            });
+
+            if (response.status >= 500 || response.status === 429) {
+                return unavailable(`Friendly Captcha returned ${response.status}`);
+            }
+
+            const result = await response.json() as {
+                success: boolean;
+                data?: { challenge?: { timestamp?: string; origin?: string } };
+                error?: { error_code?: string };
+            };
+
+            const challenge = result.data?.challenge;
+            const details: CaptchaDetails = {
+                provider: 'friendly-captcha',
+                hostname: challenge?.origin ? hostnameOf(challenge.origin) : undefined,
+                challengeTs: challenge?.timestamp,
+            };
+
+            if (!result.success) {
+                return { success: false, errors: [result.error?.error_code || 'verification-failed'], details };
+            }
+
+            const errors = checkToken(details, { hostnames: originHostnames(form) });
+            return { success: errors.length === 0, errors: errors.length > 0 ? errors : undefined, details };
+        } catch (error) {
+            return unavailable(error);
+        }
+    },
+};
+
+const altchaVerifier: CaptchaVerifier = {
+    label: 'ALTCHA',
+    async verify(token, { form, env }) {
+        const hmacKey = altchaKey(form, env);
+        if (!hmacKey) return notConfigured('ALTCHA_HMAC_KEY');
+
+        let payload: { algorithm?: string; challenge?: string; number?: number; salt?: string; signature?: string };
+        try {
+            payload = JSON.parse(atob(token));
+        } catch {
+            return { success: false, errors: ['invalid-payload'] };
+        }
+
+        const { algorithm, challenge, number, salt, signature } = payload;
+        if (
+            algorithm !== 'SHA-256' ||
+            typeof challenge !== 'string' ||
+            typeof salt !== 'string' ||
+            typeof signature !== 'string' ||
+            !Number.isInteger(number)
+        ) {
+            return { success: false, errors: ['invalid-payload'] };
+        }
+
+        // The salt carries the expiry and form, and is covered by the signed challenge
+        const params = new URLSearchParams(salt.split('?')[1] ?? '');
+        const expires = Number(params.get('expires'));
+        const details: CaptchaDetails = {
+            provider: 'altcha',
+            challengeTs: expires ? new Date((expires - ALTCHA_CHALLENGE_TTL_SECONDS) * 1000).toISOString() : undefined,
+        };
+
+        if (
+            !timingSafeEqual(await sha256Hex(`${salt}${number}`), challenge) ||
+            !timingSafeEqual(await hmacSha256Hex(hmacKey, challenge), signature)
+        ) {
+            return { success: false, errors: ['invalid-solution'], details };
+        }
+        if (params.get('form') !== form.id) {
+            return { success: false, errors: ['form-mismatch'], details };
+        }
+        if (!expires || expires * 1000 < Date.now()) {
+            return { success: false, errors: ['challenge-expired'], details };
+        }
+
+        // Each solved challenge can only be used once
+        if (!(await claimAltchaChallenge(env.FORM_SUBMISSIONS, env.DB, challenge, expires))) {
+            return { success: false, errors: ['challenge-reused'], details };
+        }
+
+        return { success: true, details };
+    },
+};
+
+const VERIFIERS: Record<CaptchaProvider, CaptchaVerifier> = {
+    'turnstile': turnstileVerifier,
+    'hcaptcha': hcaptchaVerifier,
+    'recaptcha': recaptchaVerifier,
+    'friendly-captcha': friendlyCaptchaVerifier,
+    'altcha': altchaVerifier,
+};
+
+/**
+ * The HMAC key that signs a form's ALTCHA challenges
+ */
+export function altchaKey(form: FormConfig, env: CaptchaEnv): string | undefined {
+    return form.captcha?.secretKey || env.ALTCHA_HMAC_KEY;
+}
+
+/**
+ * Issue an ALTCHA challenge for a form: the SHA-256 of a salt and a random
+ * number, which the browser finds by brute force, signed so it can't be forged
+ */
+export async function createAltchaChallenge(form: FormConfig, hmacKey: string): Promise<AltchaChallenge> {
+    const maxNumber = form.captcha?.maxNumber ?? DEFAULT_ALTCHA_MAX_NUMBER;
+    const expires = Math.floor(Date.now() / 1000) + ALTCHA_CHALLENGE_TTL_SECONDS;
+    const random = crypto.getRandomValues(new Uint32Array(4));
+
+    const salt = `${[...random].map(n => n.toString(16).padStart(8, '0')).join('')}?${new URLSearchParams({
+        expires: String(expires),
+        form: form.id,
+    })}`;
+    // Drawn separately, as the salt is sent to the browser
+    const number = crypto.getRandomValues(new Uint32Array(1))[0] % (maxNumber + 1);
+    const challenge = await sha256Hex(`${salt}${number}`);
+
+    return {
+        algorithm: 'SHA-256',
+        challenge,
+        maxnumber: maxNumber,
+        salt,
+        signature: await hmacSha256Hex(hmacKey, challenge),
+    };
+}
+
+/**
+ * Record a solved ALTCHA challenge. Returns false if it was already used.
+ */
+async function claimAltchaChallenge(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    challenge: string,
+    expires: number
+): Promise<boolean> {
+    if (db) {
+        const result = await db
+            .prepare('INSERT INTO captcha_replays (challenge, expires_at) VALUES (?, ?) ON CONFLICT(challenge) DO NOTHING')
+            .bind(challenge, expires)
+            .run();
+        return result.meta.changes > 0;
+    } else if (kv) {
+        // Approximate: two requests with the same payload at the same moment can both pass
+        const key = `altcha-used:${challenge}`;
+        if (await kv.get(key)) return false;
+        await kv.put(key, '1', { expirationTtl: Math.max(60, expires - Math.floor(Date.now() / 1000)) });
+    }
+
+    return true;
+}
+
+/**
+ * Delete used ALTCHA challenges that have expired anyway
+ */
+export async function deleteExpiredCaptchaReplays(db: D1Database | undefined): Promise<number> {
+    if (!db) return 0;
+
+    const result = await db
+        .prepare('DELETE FROM captcha_replays WHERE expires_at < ?')
+        .bind(Math.floor(Date.now() / 1000))
+        .run();
+    return result.meta.changes;
+}
+
+/**
+ * POST to an hCaptcha or reCAPTCHA style siteverify endpoint and check where the token was solved
+ */
+async function siteverify(
+    url: string,
+    body: URLSearchParams,
+    provider: CaptchaProvider,
+    form: FormConfig,
+    options: { action?: string } = {}
+): Promise<CaptchaResult> {
+    try {
+        const response = await fetch(url, { method: 'POST', body });
+
+        if (response.status >= 500 || response.status === 429) {
+            return unavailable(`${provider} siteverify returned ${response.status}`);
+        }
+
+        const result = await response.json() as {
+            success: boolean;
+            score?: number;
+            action?: string;
+            hostname?: string;
+            challenge_ts?: string;
+            'error-codes'?: string[];
+        };
+
+        const details: CaptchaDetails = {
+            provider,
+            hostname: result.hostname || undefined,
+            action: result.action || undefined,
+            challengeTs: result.challenge_ts || undefined,
+            score: result.score,
+        };
+
+        if (!result.success) {
+            return { success: false, score: result.score, errors: result['error-codes'], details };
+        }
+
+        const errors = checkToken(details, { hostnames: originHostnames(form), ...options });
+        return errors.length > 0
+            ? { success: false, score: result.score, errors, details }
+            : { success: true, score: result.score, details };
+    } catch (error) {
+        return unavailable(error);
+    }
+}
+
+function notConfigured(secret: string): CaptchaResult {
+    console.error(`CAPTCHA verification failed: ${secret} is not set`);
+    return { success: false, errors: ['missing-input-secret'] };
+}
+
+function unavailable(error: unknown): CaptchaResult {
+    console.error('CAPTCHA verification error:', error);
+    return { success: false, errors: ['verification-failed'], unavailable: true };
+}
+
+function hostnameOf(origin: string): string | undefined {
+    try {
+        return new URL(origin).hostname;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,398 @@
+/**
+ * Chat notification channels: Slack, Discord, Microsoft Teams and Telegram.
+ * Each platform gets a message in its own format, with values escaped and
+ * truncated to the platform's limits.
+ */
+
+import type { FormConfig } from './forms';
+import type { StoredSubmission } from './storage';
+import type { FileLink } from './files';
+import { formatValue } from './templates';
+import { isHttpUrl } from './validation';
+
+export type ChannelType = 'slack' | 'discord' | 'teams' | 'telegram';
+
+export type ChannelConfig =
+    | { type: 'slack' | 'discord' | 'teams'; name?: string; webhookUrl: string }
+    | { type: 'telegram'; name?: string; botToken?: string; chatId: string };
+
+/**
+ * What a channel message shows, independent of the platform
+ */
+export interface ChannelMessage {
+    title: string;
+    fields: [string, any][];
+    files: FileLink[];
+    footer: string; // submission ID and time
+    url?: string; // link to the submission in the admin dashboard
+}
+
+export interface ChannelAttempt {
+    provider: ChannelType;
+    attemptedAt: string;
+    status?: number; // HTTP status, missing when no response was received
+    error?: string;
+    durationMs: number;
+}
+
+export interface ChannelResult {
+    success: boolean;
+    error?: string;
+    attempts: ChannelAttempt[]; // empty when nothing was posted
+}
+
+export const CHANNEL_TYPES: ChannelType[] = ['slack', 'discord', 'teams', 'telegram'];
+
+const MAX_CHANNELS = 10;
+const CHANNEL_TIMEOUT_MS = 10000;
+
+// Fields shown in one message; the rest are counted
+const MAX_FIELDS = 20;
+
+const TELEGRAM_TOKEN_PATTERN = /^\d+:[\w-]+$/;
+const TELEGRAM_CHAT_PATTERN = /^(-?\d+|@\w{5,32})$/;
+
+/**
+ * Validate a form's channel list supplied through the forms API
+ */
+export function parseChannelConfigs(value: any): { channels?: ChannelConfig[]; error?: string } {
+    if (!Array.isArray(value)) {
+        return { error: 'channels must be an array' };
+    }
+    if (value.length > MAX_CHANNELS) {
+        return { error: `A form can have at most ${MAX_CHANNELS} channels` };
+    }
+
+    const channels: ChannelConfig[] = [];
+    for (const [index, item] of value.entries()) {
+        const { channel, error } = parseChannelConfig(item, `channels[${index}]`);
+        if (!channel) return { error };
+        channels.push(channel);
+    }
+
+    return { channels };
+}
+
+/**
+ * Validate a single channel
+ */
+export function parseChannelConfig(value: any, name = 'channel'): { channel?: ChannelConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: `${name} must be an object` };
+    }
+    if (!CHANNEL_TYPES.includes(value.type)) {
+        return { error: `${name}.type must be one of: ${CHANNEL_TYPES.join(', ')}` };
+    }
+    if (value.name !== undefined && (typeof value.name !== 'string' || value.name.length > 100)) {
+        return { error: `${name}.name must be a string of at most 100 characters` };
+    }
+
+    if (value.type === 'telegram') {
+        const chatId = typeof value.chatId === 'number' ? String(value.chatId) : value.chatId;
+        if (typeof chatId !== 'string' || !TELEGRAM_CHAT_PATTERN.test(chatId)) {
+            return { error: `${name}.chatId must be a numeric chat ID or an @channel username` };
+        }
+        if (value.botToken !== undefined && (typeof value.botToken !== 'string' || !TELEGRAM_TOKEN_PATTERN.test(value.botToken))) {
+            return { error: `${name}.botToken must be a Telegram bot token` };
+        }
+        return { channel: { type: 'telegram', name: value.name, botToken: value.botToken, chatId } };
+    }
+
+    if (typeof value.webhookUrl !== 'string' || !isHttpUrl(value.webhookUrl) || !value.webhookUrl.startsWith('https://')) {
+        return { error: `${name}.webhookUrl must be an https URL` };
+    }
+
+    const host = new URL(value.webhookUrl).hostname;
+    if (value.type === 'slack' && host !== 'hooks.slack.com') {
+        return { error: `${name}.webhookUrl must be a Slack incoming webhook (https://hooks.slack.com/...)` };
+    }
+    if (value.type === 'discord' && !['discord.com', 'discordapp.com'].includes(host)) {
+        return { error: `${name}.webhookUrl must be a Discord webhook (https://discord.com/api/webhooks/...)` };
+    }
+
+    return { channel: { type: value.type, name: value.name, webhookUrl: value.webhookUrl } };
+}
+
+/**
+ * Hide webhook URLs and bot tokens, which grant posting access, in API responses
+ */
+export function redactChannel(channel: ChannelConfig) {
+    if (channel.type === 'telegram') {
+        const { botToken, ...rest } = channel;
+        return { ...rest, hasBotToken: !!botToken };
+    }
+    const { webhookUrl, ...rest } = channel;
+    return { ...rest, hasWebhookUrl: true };
+}
+
+/**
+ * A readable label for logs and test results
+ */
+export function channelLabel(channel: ChannelConfig): string {
+    return channel.name ? `${channel.type} (${channel.name})` : channel.type;
+}
+
+/**
+ * The message posted for a submission. `publicUrl` (PUBLIC_URL) adds a link to the admin dashboard.
+ */
+export function submissionMessage(
+    form: FormConfig,
+    submission: StoredSubmission,
+    files: FileLink[],
+    publicUrl?: string
+): ChannelMessage {
+    const fileFields = new Set(files.map(file => file.field));
+    return {
+        title: `New submission: ${form.name || form.id}`,
+        fields: Object.entries(submission.data).filter(([name]) => !fileFields.has(name)),
+        files,
+        footer: `${submission.id} · ${new Date(submission.metadata.timestamp).toLocaleString()}`,
+        url: publicUrl
+            ? new URL(`/admin/#submission=${encodeURIComponent(submission.id)}`, publicUrl).toString()
+            : undefined,
+    };
+}
+
+/**
+ * Post a message to a channel. Telegram channels without a bot token of their
+ * own use `defaultBotToken` (TELEGRAM_BOT_TOKEN).
+ */
+export async function sendChannelMessage(
+    channel: ChannelConfig,
+    message: ChannelMessage,
+    defaultBotToken?: string
+): Promise<ChannelResult> {
+    let url: string;
+    let body: unknown;
+
+    switch (channel.type) {
+        case 'slack':
+            url = channel.webhookUrl;
+            body = slackPayload(message);
+            break;
+        case 'discord':
+            url = channel.webhookUrl;
+            body = discordPayload(message);
+            break;
+        case 'teams':
+            url = channel.webhookUrl;
+            body = teamsPayload(message);
+            break;
+        case 'telegram': {
+            const token = channel.botToken || defaultBotToken;
+            if (!token) return { success: false, error: 'No Telegram bot token configured', attempts: [] };
+            url = `https://api.telegram.org/bot${token}/sendMessage`;
+            body = telegramPayload(message, channel.chatId);
+            break;
+        }
+    }
+
+    const started = Date.now();
+    const attempt: ChannelAttempt = {
+        provider: channel.type,
+        attemptedAt: new Date(started).toISOString(),
+        durationMs: 0,
+    };
+
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(CHANNEL_TIMEOUT_MS),
+        });
+
+        attempt.status = response.status;
+        if (!response.ok) {
+            const error = await response.text().catch(() => '');
+            attempt.error = `${response.status} ${truncate(error, 500)}`.trim();
+        }
+    } catch (error) {
+        attempt.error = error instanceof Error ? error.message : String(error);
+    }
+
+    attempt.durationMs = Date.now() - started;
+    return attempt.error
+        ? { success: false, error: attempt.error, attempts: [attempt] }
+        : { success: true, attempts: [attempt] };
+}
+
+/**
+ * Slack incoming webhook with Block Kit. Section fields hold at most 2000
+ * characters and a section at most 10 fields; mrkdwn needs &, < and > escaped.
+ */
+function slackPayload(message: ChannelMessage) {
+    const { fields, hidden } = visibleFields(message);
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const blocks: any[] = [
+        { type: 'header', text: { type: 'plain_text', text: truncate(message.title, 150), emoji: false } },
+    ];
+
+    const items = fields.map(([name, value]) => ({
+        type: 'mrkdwn',
+        text: truncate(`*${escape(truncate(name, 100))}*\n${escape(truncate(displayValue(value), 1500))}`, 2000),
+    }));
+    for (let i = 0; i < items.length; i += 10) {
+        blocks.push({ type: 'section', fields: items.slice(i, i + 10) });
+    }
+
+    const extras = [
+        ...message.files.map(file => `<${file.url}|${escape(file.name)}>`),
+        ...(hidden > 0 ? [`${hidden} more ${hidden === 1 ? 'field' : 'fields'}`] : []),
+    ];
+    if (extras.length > 0) {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(extras.join('\n'), 3000) } });
+    }
+
+    if (message.url) {
+        blocks.push({
+            type: 'actions',
+            elements: [{ type: 'button', text: { type: 'plain_text', text: 'View submission' }, url: message.url }],
+        });
+    }
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: escape(message.footer) }] });
+
+    return { text: truncate(message.title, 150), blocks };
+}
+
+/**
+ * Discord webhook with one embed: at most 25 fields, 256-character names,
+ * 1024-character values and 6000 characters in total. Mentions are disabled.
+ */
+function discordPayload(message: ChannelMessage) {
+    const { fields, hidden } = visibleFields(message);
+    const escape = (text: string) => text.replace(/([\\*_~`|<>#\[\]()-])/g, '\\$1');
+
+    const title = truncate(message.title, 256);
+    const footer = truncate(message.footer, 2048);
+    let total = title.length + footer.length;
+
+    const embedFields: { name: string; value: string }[] = [];
+    for (const [name, value] of fields) {
+        const field = {
+            name: truncate(name, 256),
+            value: truncate(escape(displayValue(value)), 1024),
+        };
+        if (total + field.name.length + field.value.length > 5000) break;
+        total += field.name.length + field.value.length;
+        embedFields.push(field);
+    }
+
+    const omitted = hidden + fields.length - embedFields.length;
+    const lines = [
+        ...message.files.map(file => `[${escape(file.name)}](${file.url})`),
+        ...(omitted > 0 ? [`${omitted} more ${omitted === 1 ? 'field' : 'fields'}`] : []),
+    ];
+
+    return {
+        embeds: [{
+            title,
+            url: message.url,
+            description: lines.length > 0 ? truncate(lines.join('\n'), 6000 - total - 100) : undefined,
+            color: 0x667eea,
+            fields: embedFields,
+            footer: { text: footer },
+        }],
+        allowed_mentions: { parse: [] },
+    };
+}
+
+/**
+ * Teams incoming webhook (Workflows or connector) with an Adaptive Card.
+ * Values are shown in a fact set with their markdown escaped.
+ */
+function teamsPayload(message: ChannelMessage) {
+    const { fields, hidden } = visibleFields(message);
+    const escape = (text: string) => text.replace(/([\\*_~`#\[\]()<>-])/g, '\\$1');
+
+    const body: any[] = [
+        { type: 'TextBlock', text: escape(truncate(message.title, 200)), weight: 'Bolder', size: 'Medium', wrap: true },
+        {
+            type: 'FactSet',
+            facts: fields.map(([name, value]) => ({
+                title: escape(truncate(name, 100)),
+                value: escape(truncate(displayValue(value), 1000)),
+            })),
+        },
+    ];
+
+    if (message.files.length > 0) {
+        body.push({
+            type: 'TextBlock',
+            text: message.files.map(file => `[${escape(file.name)}](${file.url})`).join('\n\n'),
+            wrap: true,
+        });
+    }
+    if (hidden > 0) {
+        body.push({ type: 'TextBlock', text: `${hidden} more ${hidden === 1 ? 'field' : 'fields'}`, isSubtle: true, wrap: true });
+    }
+    body.push({ type: 'TextBlock', text: escape(message.footer), isSubtle: true, size: 'Small', wrap: true });
+
+    return {
+        type: 'message',
+        attachments: [{
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: {
+                $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                type: 'AdaptiveCard',
+                version: '1.4',
+                body,
+                actions: message.url
+                    ? [{ type: 'Action.OpenUrl', title: 'View submission', url: message.url }]
+                    : undefined,
+            },
+        }],
+    };
+}
+
+/**
+ * Telegram Bot API sendMessage with HTML formatting, limited to 4096 characters
+ */
+function telegramPayload(message: ChannelMessage, chatId: string) {
+    const { fields, hidden } = visibleFields(message);
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    const head = `<b>${escape(truncate(message.title, 200))}</b>\n`;
+    const tail = [
+        ...message.files.map(file => `<a href="${escape(file.url).replace(/"/g, '&quot;')}">${escape(file.name)}</a>`),
+        message.url ? `<a href="${escape(message.url).replace(/"/g, '&quot;')}">View submission</a>` : '',
+        `<i>${escape(message.footer)}</i>`,
+    ].filter(Boolean).join('\n');
+
+    // Whole lines are dropped to stay under the limit, so no tag is cut in half
+    let text = head;
+    let omitted = hidden;
+    for (const [index, [name, value]] of fields.entries()) {
+        const line = `\n<b>${escape(truncate(name, 100))}</b>\n${escape(truncate(displayValue(value), 1000))}\n`;
+        if (text.length + line.length + tail.length > 3900) {
+            omitted += fields.length - index;
+            break;
+        }
+        text += line;
+    }
+    if (omitted > 0) text += `\n${omitted} more ${omitted === 1 ? 'field' : 'fields'}\n`;
+
+    return {
+        chat_id: chatId,
+        text: `${text}\n${tail}`,
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+    };
+}
+
+function visibleFields(message: ChannelMessage): { fields: [string, any][]; hidden: number } {
+    return {
+        fields: message.fields.slice(0, MAX_FIELDS),
+        hidden: Math.max(message.fields.length - MAX_FIELDS, 0),
+    };
+}
+
+// Platforms reject empty field values
+function displayValue(value: any): string {
+    return formatValue(value) || '-';
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
@@ -0,0 +1,59 @@
+/**
+ * Small Web Crypto helpers shared across modules
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * HMAC-SHA256 of a message, hex encoded
+ */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+    return toHex(signature);
+}
+
+/**
+ * SHA-256 of a string, hex encoded
+ */
+export async function sha256Hex(message: string): Promise<string> {
+    return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(message)));
+}
+
+/**
+ * Cryptographically random token, base64url encoded
+ */
+export function randomToken(bytes: number = 32): string {
+    const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+    return btoa(String.fromCharCode(...buffer))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+}
+
+/**
+ * Compare two strings in constant time (for the length of the longer input)
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    const left = encoder.encode(a);
+    const right = encoder.encode(b);
+    const length = Math.max(left.length, right.length);
+
+    let diff = left.length ^ right.length;
+    for (let i = 0; i < length; i++) {
+        diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+    }
+    return diff === 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return [...new Uint8Array(buffer)]
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
@@ -0,0 +1,307 @@
+/**
+ * Digest notifications: instead of one email per submission, the cron trigger
+ * sends a summary of everything received since the last digest.
+ */
+
+import type { FormConfig } from './forms';
+import { iterateSubmissions, type StoredSubmission } from './storage';
+import { sendEmail, type EmailMessage } from './email';
+import { emailConfigFromEnv, type NotificationEnv } from './notifications';
+import { escapeHtml, formatValue, htmlToText } from './templates';
+
+export type DigestFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
+
+export interface DigestConfig {
+    frequency: DigestFrequency;
+    hour: number; // UTC hour daily and weekly digests are sent at
+    weekday: number; // day weekly digests are sent on, 0 is Sunday
+}
+
+// Where a form's last digest stopped: submissions created before this have been reported
+interface DigestState {
+    formId: string;
+    sentUntil: string;
+    updatedAt: string;
+}
+
+const FREQUENCIES: DigestFrequency[] = ['immediate', 'hourly', 'daily', 'weekly'];
+
+const DEFAULT_DIGEST: DigestConfig = {
+    frequency: 'immediate',
+    hour: 8,
+    weekday: 1,
+};
+
+// Entries listed in one digest email, the rest are only counted
+const MAX_DIGEST_ROWS = 100;
+
+// Fields shown for each entry
+const PREVIEW_FIELDS = 3;
+
+// Digests cover periods that ended at least this long ago, so submissions
+// still being stored when a period ends are not skipped
+const SETTLE_MS = 60 * 1000;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Validate a digest configuration supplied through the forms API
+ */
+export function parseDigestConfig(value: any): { digest?: DigestConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'digest must be an object' };
+    }
+
+    if (!FREQUENCIES.includes(value.frequency)) {
+        return { error: `digest.frequency must be one of: ${FREQUENCIES.join(', ')}` };
+    }
+
+    const digest: DigestConfig = { ...DEFAULT_DIGEST, frequency: value.frequency };
+
+    if (value.hour !== undefined) {
+        if (!Number.isInteger(value.hour) || value.hour < 0 || value.hour > 23) {
+            return { error: 'digest.hour must be an integer from 0 to 23' };
+        }
+        digest.hour = value.hour;
+    }
+
+    if (value.weekday !== undefined) {
+        if (!Number.isInteger(value.weekday) || value.weekday < 0 || value.weekday > 6) {
+            return { error: 'digest.weekday must be an integer from 0 (Sunday) to 6 (Saturday)' };
+        }
+        digest.weekday = value.weekday;
+    }
+
+    return { digest };
+}
+
+/**
+ * Whether a form's owner emails are batched into digests
+ */
+export function isDigestEnabled(form: FormConfig | null | undefined): boolean {
+    return !!form?.digest && form.digest.frequency !== 'immediate';
+}
+
+/**
+ * Start a form's digests from now. Called when digests are turned on,
+ * so submissions already emailed one by one are not reported again.
+ */
+export async function resetDigestWatermark(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string
+): Promise<void> {
+    const now = new Date().toISOString();
+    await saveDigestState(kv, db, { formId, sentUntil: now, updatedAt: now });
+}
+
+/**
+ * Whether the owner email for a submission is sent straight away. Submissions
+ * of digest forms are left for the next digest, unless that period has already
+ * been sent, as when spam is released or an opt-in confirmed later on.
+ */
+export async function isEmailedImmediately(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    form: FormConfig,
+    submission: StoredSubmission
+): Promise<boolean> {
+    if (!isDigestEnabled(form)) return true;
+
+    const state = await getDigestState(kv, db, form.id);
+    return !!state && submission.metadata.timestamp < state.sentUntil;
+}
+
+/**
+ * Send the digests that are due and move each form's watermark forward.
+ * A digest that fails to send is retried on the next run. Called from the cron trigger.
+ */
+export async function sendDueDigests(env: NotificationEnv, forms: FormConfig[]): Promise<number> {
+    const kv = env.FORM_SUBMISSIONS;
+    const db = env.DB;
+    const now = new Date(Date.now() - SETTLE_MS);
+    let sent = 0;
+
+    for (const form of forms) {
+        if (!isDigestEnabled(form)) continue;
+
+        try {
+            const due = lastDigestTime(form.digest!, now).toISOString();
+            const state = await getDigestState(kv, db, form.id);
+
+            // Forms switched to digests before the watermark was kept start at the current period
+            if (!state) {
+                await saveDigestState(kv, db, { formId: form.id, sentUntil: due, updatedAt: new Date().toISOString() });
+                continue;
+            }
+            if (state.sentUntil >= due) continue;
+
+            const emailConfig = { ...emailConfigFromEnv(env), to: form.emailTo.join(',') };
+            if (emailConfig.provider !== 'none' && emailConfig.to) {
+                const message = await buildDigest(env, form, state.sentUntil, due);
+                if (message) {
+                    const result = await sendEmail(emailConfig, message);
+                    if (!result.success) {
+                        console.error(`Digest for form ${form.id} failed:`, result.error);
+                        continue;
+                    }
+                    sent++;
+                }
+            }
+
+            await saveDigestState(kv, db, { formId: form.id, sentUntil: due, updatedAt: new Date().toISOString() });
+        } catch (error) {
+            console.error(`Digest for form ${form.id} failed:`, error);
+        }
+    }
+
+    return sent;
+}
+
+/**
+ * The most recent time a digest of this frequency was due
+ */
+function lastDigestTime(config: DigestConfig, now: Date): Date {
+    const time = new Date(now);
+    time.setUTCMinutes(0, 0, 0);
+    if (config.frequency === 'hourly') return time;
+
+    time.setUTCHours(config.hour);
+    if (config.frequency === 'weekly') {
+        time.setTime(time.getTime() - ((time.getUTCDay() - config.weekday + 7) % 7) * DAY);
+        if (time > now) time.setTime(time.getTime() - 7 * DAY);
+    } else if (time > now) {
+        time.setTime(time.getTime() - DAY);
+    }
+    return time;
+}
+
+/**
+ * Summarise the submissions created in [from, to). Returns null when there is nothing to report.
+ */
+async function buildDigest(env: NotificationEnv, form: FormConfig, from: string, to: string): Promise<EmailMessage | null> {
+    const rows: StoredSubmission[] = [];
+    let received = 0;
+    let quarantined = 0;
+    let pending = 0;
+
+    for await (const submission of iterateSubmissions(env.FORM_SUBMISSIONS, env.DB, form.id, { range: { from, to } })) {
+        if (submission.metadata.spam?.quarantined) {
+            quarantined++;
+        } else if (submission.metadata.optIn?.status === 'pending') {
+            pending++;
+        } else {
+            received++;
+            if (rows.length < MAX_DIGEST_ROWS) rows.push(submission);
+        }
+    }
+
+    if (received + quarantined + pending === 0) return null;
+
+    const formName = form.name || form.id;
+    const adminUrl = env.PUBLIC_URL ? new URL('/admin/', env.PUBLIC_URL).toString() : undefined;
+    const period = `${new Date(from).toLocaleString()} – ${new Date(to).toLocaleString()}`;
+
+    const counts = [`<strong>${received}</strong> new ${received === 1 ? 'submission' : 'submissions'}`];
+    if (quarantined > 0) counts.push(`${quarantined} quarantined as spam`);
+    if (pending > 0) counts.push(`${pending} awaiting opt-in confirmation`);
+
+    const tableRows = rows.map((submission) => {
+        const preview = Object.entries(submission.data)
+            .slice(0, PREVIEW_FIELDS)
+            .map(([name, value]) => `<strong>${escapeHtml(name)}:</strong> ${escapeHtml(truncate(formatValue(value), 200))}`)
+            .join('<br>');
+        const link = adminUrl
+            ? `<a href="${escapeHtml(`${adminUrl}#submission=${encodeURIComponent(submission.id)}`)}" style="color: #667eea;">View</a>`
+            : escapeHtml(submission.id);
+
+        return `        <tr>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #666; white-space: nowrap; vertical-align: top;">${escapeHtml(new Date(submission.metadata.timestamp).toLocaleString())}</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; color: #333; vertical-align: top;">${preview}</td>
+          <td style="padding: 10px; border-bottom: 1px solid #eee; vertical-align: top;">${link}</td>
+        </tr>`;
+    }).join('\n');
+
+    const more = received > rows.length
+        ? `<p style="margin: 16px 0 0 0; color: #666;">and ${received - rows.length} more${adminUrl ? ` in the <a href="${escapeHtml(adminUrl)}" style="color: #667eea;">admin dashboard</a>` : ''}.</p>`
+        : '';
+
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(formName)} digest</title>
+</head>
+<body style="margin: 0; padding: 40px 20px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; background-color: #f5f5f5;">
+  <table width="600" cellpadding="0" cellspacing="0" align="center" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+    <tr>
+      <td style="padding: 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px 8px 0 0;">
+        <h1 style="margin: 0; color: #ffffff; font-size: 24px; font-weight: 600;">${escapeHtml(formName)} digest</h1>
+        <p style="margin: 8px 0 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">${escapeHtml(period)}</p>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding: 30px; font-size: 14px; line-height: 1.6;">
+        <p style="margin: 0 0 20px 0; color: #333;">${counts.join(', ')}.</p>
+${rows.length > 0 ? `        <table width="100%" cellpadding="0" cellspacing="0">
+${tableRows}
+        </table>
+        ${more}` : ''}
+      </td>
+    </tr>
+    <tr>
+      <td style="padding: 20px 30px; background-color: #f9f9f9; border-radius: 0 0 8px 8px; border-top: 1px solid #e0e0e0;">
+        <p style="margin: 0; color: #999; font-size: 12px; text-align: center;">Sent by FormFlare for form ${escapeHtml(form.id)}</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+    return {
+        subject: `${received} new ${received === 1 ? 'submission' : 'submissions'} to ${formName}`.replace(/\s+/g, ' '),
+        html,
+        text: htmlToText(html),
+    };
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+async function getDigestState(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string
+): Promise<DigestState | null> {
+    if (db) {
+        const row = await db
+            .prepare('SELECT form_id, sent_until, updated_at FROM digest_state WHERE form_id = ?')
+            .bind(formId)
+            .first<{ form_id: string; sent_until: string; updated_at: string }>();
+        return row && { formId: row.form_id, sentUntil: row.sent_until, updatedAt: row.updated_at };
+    } else if (kv) {
+        return await kv.get(`digest:${formId}`, 'json') as DigestState | null;
+    }
+    return null;
+}
+
+async function saveDigestState(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    state: DigestState
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO digest_state (form_id, sent_until, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(form_id) DO UPDATE SET sent_until = excluded.sent_until, updated_at = excluded.updated_at`
+            )
+            .bind(state.formId, state.sentUntil, state.updatedAt)
+            .run();
+    } else if (kv) {
+        await kv.put(`digest:${state.formId}`, JSON.stringify(state));
+    }
+}
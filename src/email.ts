@@ -1,19 +1,54 @@
 /**
  * Email notification module
- * Supports multiple email providers: Resend, SendGrid, Mailgun, Mailtrap
+ * Supports multiple email providers: Resend, SendGrid, Mailgun, Mailtrap, MailChannels
+ * and Cloudflare Email Routing
  */
 
+import type { FileLink } from './files';
+import { buildMimeMessage, parseAddress, toBase64 } from './mime';
+import { compileTemplate, renderTemplate, htmlToText } from './templates';
+
+export type EmailProvider = 'resend' | 'sendgrid' | 'mailgun' | 'mailtrap' | 'mailchannels' | 'cloudflare';
+
 export interface EmailConfig {
-  provider: 'resend' | 'sendgrid' | 'mailgun' | 'mailtrap' | 'none';
+  provider: EmailProvider | 'none';
   apiKey: string;
+  fallbacks?: { provider: EmailProvider; apiKey: string }[]; // tried in order after a retryable failure
   from: string;
   to: string;
   mailgunDomain?: string; // Required for Mailgun
   mailtrapInboxId?: string; // Required for Mailtrap (testing mode)
+  emailBinding?: SendEmail; // Required for Cloudflare Email Routing, which needs no API key
+  rawEmailClass?: RawEmailClass; // wraps messages for emailBinding, defaults to EmailMessage from cloudflare:email
+  template?: EmailTemplate; // per-form subject and body, defaults are used for anything not set
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+// The constructor of the messages a send_email binding accepts
+export type RawEmailClass = typeof import('cloudflare:email').EmailMessage;
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface EmailTemplate {
+  subject?: string;
+  html?: string;
+  text?: string; // derived from the HTML template when only that is set
+}
+
+export interface EmailMessage {
+  subject: string;
+  html: string;
+  text: string;
 }
 
 export interface FormSubmissionData {
   formId: string;
+  formName?: string;
   submissionId: string;
   data: Record<string, any>;
   metadata: {
@@ -22,6 +57,32 @@ export interface FormSubmissionData {
     timestamp: string;
     turnstileScore?: number;
   };
+  files?: FileLink[]; // download links for uploaded files
+  confirmUrl?: string; // double opt-in confirmation link
+}
+
+/**
+ * One try at sending an email through one provider
+ */
+export interface EmailAttempt {
+  provider: EmailProvider;
+  attemptedAt: string;
+  status?: number; // HTTP status, missing when no response was received
+  error?: string;
+  durationMs: number;
+}
+
+export interface EmailResult {
+  success: boolean;
+  error?: string;
+  attempts: EmailAttempt[]; // empty when nothing was sent
+}
+
+interface ProviderResult {
+  success: boolean;
+  status?: number;
+  error?: string;
+  undelivered?: string[]; // set when some recipients were sent to; only these are tried again
 }
 
 /**
@@ -30,31 +91,117 @@ export interface FormSubmissionData {
 export async function sendEmailNotification(
   config: EmailConfig,
   submission: FormSubmissionData
-): Promise<{ success: boolean; error?: string }> {
-  if (config.provider === 'none' || !config.apiKey || !config.to) {
-    return { success: true }; // Skip if not configured
+): Promise<EmailResult> {
+  if (!isEmailConfigured(config)) {
+    return { success: true, attempts: [] }; // Skip if not configured
   }
 
+  let message: EmailMessage;
   try {
-    switch (config.provider) {
-      case 'resend':
-        return await sendViaResend(config, submission);
-      case 'sendgrid':
-        return await sendViaSendGrid(config, submission);
-      case 'mailgun':
-        return await sendViaMailgun(config, submission);
-      case 'mailtrap':
-        return await sendViaMailtrap(config, submission);
-      default:
-        return { success: false, error: 'Unknown email provider' };
-    }
+    message = renderEmail(submission, config.template);
   } catch (error) {
     console.error('Email notification error:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      attempts: [],
     };
   }
+
+  return sendEmail(config, message);
+}
+
+/**
+ * Send an already rendered email through the configured provider. When the
+ * provider fails with a retryable status, the fallback providers are tried in order,
+ * for the recipients that have not been sent to yet.
+ */
+export async function sendEmail(
+  config: EmailConfig,
+  message: EmailMessage
+): Promise<EmailResult> {
+  if (!isEmailConfigured(config)) {
+    return { success: true, attempts: [] }; // Skip if not configured
+  }
+
+  const providers = [{ provider: config.provider as EmailProvider, apiKey: config.apiKey }, ...(config.fallbacks ?? [])];
+  const attempts: EmailAttempt[] = [];
+  let to = config.to;
+
+  for (const { provider, apiKey } of providers) {
+    const attemptedAt = new Date().toISOString();
+    const startedAt = Date.now();
+    let result: ProviderResult;
+
+    try {
+      result = await sendVia(provider, { ...config, apiKey, to }, message);
+    } catch (error) {
+      console.error('Email notification error:', error);
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    attempts.push({
+      provider,
+      attemptedAt,
+      status: result.status,
+      error: result.error,
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (result.success) {
+      return { success: true, attempts };
+    }
+    if (!isRetryableStatus(result.status)) {
+      break;
+    }
+    if (result.undelivered) {
+      to = result.undelivered.join(', ');
+    }
+  }
+
+  return { success: false, error: attempts[attempts.length - 1].error, attempts };
+}
+
+/**
+ * Whether there is a provider and recipient to send to
+ */
+function isEmailConfigured(config: EmailConfig): boolean {
+  return config.provider !== 'none' && !!config.to && (!!config.apiKey || config.provider === 'cloudflare');
+}
+
+/**
+ * Failures worth trying again elsewhere: no response at all, timeouts,
+ * rate limiting and server errors. Other statuses mean the message itself
+ * was rejected and would be rejected again.
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+async function sendVia(
+  provider: EmailProvider,
+  config: EmailConfig,
+  message: EmailMessage
+): Promise<ProviderResult> {
+  switch (provider) {
+    case 'resend':
+      return await sendViaResend(config, message);
+    case 'sendgrid':
+      return await sendViaSendGrid(config, message);
+    case 'mailgun':
+      return await sendViaMailgun(config, message);
+    case 'mailtrap':
+      return await sendViaMailtrap(config, message);
+    case 'mailchannels':
+      return await sendViaMailChannels(config, message);
+    case 'cloudflare':
+      return await sendViaCloudflare(config, message);
+    default:
+      return { success: false, error: 'Unknown email provider' };
+  }
 }
 
 /**
@@ -62,8 +209,8 @@ export async function sendEmailNotification(
  */
 async function sendViaResend(
   config: EmailConfig,
-  submission: FormSubmissionData
-): Promise<{ success: boolean; error?: string }> {
+  message: EmailMessage
+): Promise<ProviderResult> {
   const response = await fetch('https://api.resend.com/emails', {
     method: 'POST',
     headers: {
@@ -73,18 +220,26 @@ async function sendViaResend(
     body: JSON.stringify({
       from: config.from,
       to: config.to.split(',').map(email => email.trim()),
-      subject: `New Form Submission: ${submission.formId}`,
-      html: generateEmailHTML(submission),
-      text: generateEmailTEXT(submission),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      ...(config.replyTo && { reply_to: config.replyTo }),
+      ...(config.attachments?.length && {
+        attachments: config.attachments.map(attachment => ({
+          filename: attachment.filename,
+          content: toBase64(attachment.content),
+          content_type: attachment.contentType,
+        })),
+      }),
     }),
   });
 
   if (!response.ok) {
     const error = await response.text();
-    return { success: false, error: `Resend error: ${error}` };
+    return { success: false, status: response.status, error: `Resend error: ${error}` };
   }
 
-  return { success: true };
+  return { success: true, status: response.status };
 }
 
 /**
@@ -92,8 +247,8 @@ async function sendViaResend(
  */
 async function sendViaSendGrid(
   config: EmailConfig,
-  submission: FormSubmissionData
-): Promise<{ success: boolean; error?: string }> {
+  message: EmailMessage
+): Promise<ProviderResult> {
   const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
     method: 'POST',
     headers: {
@@ -107,26 +262,28 @@ async function sendViaSendGrid(
         },
       ],
       from: { email: config.from },
-      subject: `New Form Submission: ${submission.formId}`,
+      ...(config.replyTo && { reply_to: { email: config.replyTo } }),
+      subject: message.subject,
       content: [
         {
           type: 'text/plain',
-          value: generateEmailTEXT(submission),
+          value: message.text,
         },
         {
           type: 'text/html',
-          value: generateEmailHTML(submission),
+          value: message.html,
         },
       ],
+      ...(config.attachments?.length && { attachments: jsonAttachments(config.attachments) }),
     }),
   });
 
   if (!response.ok) {
     const error = await response.text();
-    return { success: false, error: `SendGrid error: ${error}` };
+    return { success: false, status: response.status, error: `SendGrid error: ${error}` };
   }
 
-  return { success: true };
+  return { success: true, status: response.status };
 }
 
 /**
@@ -134,8 +291,8 @@ async function sendViaSendGrid(
  */
 async function sendViaMailgun(
   config: EmailConfig,
-  submission: FormSubmissionData
-): Promise<{ success: boolean; error?: string }> {
+  message: EmailMessage
+): Promise<ProviderResult> {
   if (!config.mailgunDomain) {
     return { success: false, error: 'Mailgun domain is required' };
   }
@@ -143,9 +300,15 @@ async function sendViaMailgun(
   const formData = new FormData();
   formData.append('from', config.from);
   formData.append('to', config.to);
-  formData.append('subject', `New Form Submission: ${submission.formId}`);
-  formData.append('html', generateEmailHTML(submission));
-  formData.append('text', generateEmailTEXT(submission));
+  formData.append('subject', message.subject);
+  formData.append('html', message.html);
+  formData.append('text', message.text);
+  if (config.replyTo) {
+    formData.append('h:Reply-To', config.replyTo);
+  }
+  for (const attachment of config.attachments ?? []) {
+    formData.append('attachment', new Blob([attachment.content], { type: attachment.contentType }), attachment.filename);
+  }
 
   const response = await fetch(
     `https://api.mailgun.net/v3/${config.mailgunDomain}/messages`,
@@ -160,10 +323,10 @@ async function sendViaMailgun(
 
   if (!response.ok) {
     const error = await response.text();
-    return { success: false, error: `Mailgun error: ${error}` };
+    return { success: false, status: response.status, error: `Mailgun error: ${error}` };
   }
 
-  return { success: true };
+  return { success: true, status: response.status };
 }
 
 /**
@@ -172,8 +335,8 @@ async function sendViaMailgun(
  */
 async function sendViaMailtrap(
   config: EmailConfig,
-  submission: FormSubmissionData
-): Promise<{ success: boolean; error?: string }> {
+  message: EmailMessage
+): Promise<ProviderResult> {
   // Determine if using testing (sandbox) or production mode
   const isSandbox = !!config.mailtrapInboxId;
 
@@ -186,9 +349,11 @@ async function sendViaMailtrap(
     body = {
       from: { email: config.from },
       to: config.to.split(',').map(email => ({ email: email.trim() })),
-      subject: `New Form Submission: ${submission.formId}`,
-      html: generateEmailHTML(submission),
-      text: generateEmailTEXT(submission),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      ...(config.replyTo && { reply_to: { email: config.replyTo } }),
+      ...(config.attachments?.length && { attachments: jsonAttachments(config.attachments) }),
     };
   } else {
     // Production mode - send via Mailtrap Send
@@ -196,9 +361,11 @@ async function sendViaMailtrap(
     body = {
       from: { email: config.from },
       to: config.to.split(',').map(email => ({ email: email.trim() })),
-      subject: `New Form Submission: ${submission.formId}`,
-      html: generateEmailHTML(submission),
-      text: generateEmailTEXT(submission),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      ...(config.replyTo && { reply_to: { email: config.replyTo } }),
+      ...(config.attachments?.length && { attachments: jsonAttachments(config.attachments) }),
     };
   }
 
@@ -216,60 +383,158 @@ async function sendViaMailtrap(
 
   if (!response.ok) {
     // const error = await response.text();
-    return { success: false, error: `Mailtrap error: ${responseText}` };
+    return { success: false, status: response.status, error: `Mailtrap error: ${responseText}` };
   }
 
-  return { success: true };
+  return { success: true, status: response.status };
+}
+
+/**
+ * Send email via the MailChannels Email API
+ */
+async function sendViaMailChannels(
+  config: EmailConfig,
+  message: EmailMessage
+): Promise<ProviderResult> {
+  const from = parseAddress(config.from);
+
+  const response = await fetch('https://api.mailchannels.net/tx/v1/send', {
+    method: 'POST',
+    headers: {
+      'X-Api-Key': config.apiKey,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      personalizations: [
+        {
+          to: config.to.split(',').map(email => ({ email: email.trim() })),
+        },
+      ],
+      from: { email: from.address, ...(from.name && { name: from.name }) },
+      ...(config.replyTo && { reply_to: { email: config.replyTo } }),
+      subject: message.subject,
+      content: [
+        {
+          type: 'text/plain',
+          value: message.text,
+        },
+        {
+          type: 'text/html',
+          value: message.html,
+        },
+      ],
+      ...(config.attachments?.length && {
+        attachments: config.attachments.map(attachment => ({
+          filename: attachment.filename,
+          content: toBase64(attachment.content),
+          type: attachment.contentType,
+        })),
+      }),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    return { success: false, status: response.status, error: `MailChannels error: ${error}` };
+  }
+
+  return { success: true, status: response.status };
 }
 
 /**
- * Generate text email content
+ * Send email through a Cloudflare Email Routing `send_email` binding.
+ * The MIME message is built here; Email Routing takes one envelope
+ * recipient per message, so it is sent once for each recipient. A failure
+ * for one recipient doesn't stop the others, and only the failed ones are
+ * left for the fallback providers.
  */
-function generateEmailTEXT(submission: FormSubmissionData): string {
-  const formDataRows = Object.entries(submission.data)
-    .map(([key, value]) => `${key}: ${value}`)
-    .join('\n');
+async function sendViaCloudflare(
+  config: EmailConfig,
+  message: EmailMessage
+): Promise<ProviderResult> {
+  if (!config.emailBinding) {
+    return { success: false, error: 'The send_email binding is not configured' };
+  }
+
+  const recipients = config.to.split(',').map(email => email.trim()).filter(Boolean);
+  const raw = buildMimeMessage({
+    from: config.from,
+    to: recipients,
+    replyTo: config.replyTo,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: config.attachments,
+  });
+
+  // Only available in the Workers runtime, so loaded when first needed
+  const RawEmail = config.rawEmailClass ?? (await import('cloudflare:email')).EmailMessage;
+  const from = parseAddress(config.from).address;
+
+  const undelivered: string[] = [];
+  const errors: string[] = [];
+
+  for (const recipient of recipients) {
+    const address = parseAddress(recipient).address;
+    try {
+      await config.emailBinding.send(new RawEmail(from, address, raw));
+    } catch (error) {
+      undelivered.push(recipient);
+      errors.push(`${address}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (undelivered.length > 0) {
+    return { success: false, error: `Cloudflare Email Routing error: ${errors.join('; ')}`, undelivered };
+  }
+
+  return { success: true };
+}
+
+function jsonAttachments(attachments: EmailAttachment[]) {
+  return attachments.map(attachment => ({
+    content: toBase64(attachment.content),
+    filename: attachment.filename,
+    type: attachment.contentType,
+    disposition: 'attachment',
+  }));
+}
+
+
+const MAX_SUBJECT_LENGTH = 500;
+const MAX_TEMPLATE_LENGTH = 100 * 1024;
+
+const DEFAULT_SUBJECT = 'New Form Submission: {{formId}}';
 
-  return `
-New Form Submission
+const DEFAULT_TEXT = `New Form Submission
 ===================
 
-Form ID: ${submission.formId}
-Submission ID: ${submission.submissionId}
-Timestamp: ${new Date(submission.metadata.timestamp).toLocaleString()}
-IP Address: ${submission.metadata.ip}
-${submission.metadata.turnstileScore ? `Spam Score: ${submission.metadata.turnstileScore.toFixed(2)}` : ''}
+Form ID: {{formId}}
+Submission ID: {{submissionId}}
+Timestamp: {{date}}
+IP Address: {{metadata.ip}}
+{{#if metadata.turnstileScore}}
+Spam Score: {{metadata.turnstileScore}}
+{{/if}}
 
 Form Data
 ---------
-${formDataRows}
+{{#each fields}}
+{{@key}}: {{this}}
+{{/each}}
+{{#if files}}
+
+Files
+-----
+{{#each files}}
+{{name}} ({{field}}): {{url}}
+{{/each}}
+{{/if}}
 
 ------------------------------------------------
-Sent by FormFlare • Powered by Cloudflare Workers
-  `.trim();
-}
+Sent by FormFlare • Powered by Cloudflare Workers`;
 
-/**
- * Generate HTML email content
- */
-function generateEmailHTML(submission: FormSubmissionData): string {
-  const formDataRows = Object.entries(submission.data)
-    .map(
-      ([key, value]) => `
-        <tr>
-          <td style="padding: 12px; border-bottom: 1px solid #e0e0e0; font-weight: 600; color: #333;">
-            ${escapeHtml(key)}
-          </td>
-          <td style="padding: 12px; border-bottom: 1px solid #e0e0e0; color: #666;">
-            ${escapeHtml(String(value))}
-          </td>
-        </tr>
-      `
-    )
-    .join('');
-
-  return `
-<!DOCTYPE html>
+const DEFAULT_HTML = `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
@@ -288,23 +553,23 @@ function generateEmailHTML(submission: FormSubmissionData): string {
                 🎉 New Form Submission
               </h1>
               <p style="margin: 8px 0 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">
-                Form ID: ${escapeHtml(submission.formId)}
+                Form ID: {{formId}}
               </p>
             </td>
           </tr>
-          
+
           <!-- Submission Info -->
           <tr>
             <td style="padding: 20px 30px;">
               <p style="margin: 0 0 16px 0; color: #666; font-size: 14px;">
-                <strong>Submission ID:</strong> ${escapeHtml(submission.submissionId)}<br>
-                <strong>Timestamp:</strong> ${new Date(submission.metadata.timestamp).toLocaleString()}<br>
-                <strong>IP Address:</strong> ${escapeHtml(submission.metadata.ip)}<br>
-                ${submission.metadata.turnstileScore ? `<strong>Spam Score:</strong> ${submission.metadata.turnstileScore.toFixed(2)}<br>` : ''}
+                <strong>Submission ID:</strong> {{submissionId}}<br>
+                <strong>Timestamp:</strong> {{date}}<br>
+                <strong>IP Address:</strong> {{metadata.ip}}<br>
+                {{#if metadata.turnstileScore}}<strong>Spam Score:</strong> {{metadata.turnstileScore}}<br>{{/if}}
               </p>
             </td>
           </tr>
-          
+
           <!-- Form Data -->
           <tr>
             <td style="padding: 0 30px 30px 30px;">
@@ -312,11 +577,36 @@ function generateEmailHTML(submission: FormSubmissionData): string {
                 Form Data
               </h2>
               <table width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #e0e0e0; border-radius: 4px;">
-                ${formDataRows}
+                {{#each fields}}
+                <tr>
+                  <td style="padding: 12px; border-bottom: 1px solid #e0e0e0; font-weight: 600; color: #333; vertical-align: top;">
+                    {{@key}}
+                  </td>
+                  <td style="padding: 12px; border-bottom: 1px solid #e0e0e0; color: #666; white-space: pre-wrap;">{{this}}</td>
+                </tr>
+                {{/each}}
               </table>
             </td>
           </tr>
-          
+          {{#if files}}
+          <!-- Files -->
+          <tr>
+            <td style="padding: 0 30px 30px 30px;">
+              <h2 style="margin: 0 0 16px 0; color: #333; font-size: 18px; font-weight: 600;">
+                Files
+              </h2>
+              <ul style="margin: 0; padding-left: 20px; color: #666; font-size: 14px;">
+                {{#each files}}
+                <li style="margin-bottom: 8px;">
+                  <a href="{{url}}" style="color: #667eea;">{{name}}</a>
+                  <span style="color: #999;">({{field}}, {{size}})</span>
+                </li>
+                {{/each}}
+              </ul>
+            </td>
+          </tr>
+          {{/if}}
+
           <!-- Footer -->
           <tr>
             <td style="padding: 20px 30px; background-color: #f9f9f9; border-radius: 0 0 8px 8px; text-align: center;">
@@ -330,20 +620,86 @@ function generateEmailHTML(submission: FormSubmissionData): string {
     </tr>
   </table>
 </body>
-</html>
-  `.trim();
+</html>`;
+
+/**
+ * Validate an email template supplied through the forms API
+ */
+export function parseEmailTemplate(
+  value: any,
+  name = 'emailTemplate'
+): { emailTemplate?: EmailTemplate; error?: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: `${name} must be an object` };
+  }
+
+  const emailTemplate: EmailTemplate = {};
+
+  for (const key of ['subject', 'html', 'text'] as const) {
+    if (value[key] === undefined || value[key] === null) continue;
+
+    const maxLength = key === 'subject' ? MAX_SUBJECT_LENGTH : MAX_TEMPLATE_LENGTH;
+    if (typeof value[key] !== 'string' || !value[key].trim() || value[key].length > maxLength) {
+      return { error: `${name}.${key} must be a string of at most ${maxLength} characters` };
+    }
+
+    const { error } = compileTemplate(value[key]);
+    if (error) {
+      return { error: `${name}.${key}: ${error}` };
+    }
+    emailTemplate[key] = value[key];
+  }
+
+  if (Object.keys(emailTemplate).length === 0) {
+    return { error: `${name} must set at least one of subject, html or text` };
+  }
+
+  return { emailTemplate };
+}
+
+/**
+ * Render the subject and bodies of a notification email.
+ * Placeholders are HTML-escaped in the HTML body and left as-is in the subject and text body.
+ */
+export function renderEmail(submission: FormSubmissionData, template: EmailTemplate = {}): EmailMessage {
+  const context = buildTemplateContext(submission);
+  const html = renderTemplate(template.html || DEFAULT_HTML, context, 'html');
+
+  let text: string;
+  if (template.text) {
+    text = renderTemplate(template.text, context, 'none');
+  } else if (template.html) {
+    text = htmlToText(html);
+  } else {
+    text = renderTemplate(DEFAULT_TEXT, context, 'none');
+  }
+
+  // Header values cannot contain line breaks
+  const subject = renderTemplate(template.subject || DEFAULT_SUBJECT, context, 'none')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { subject, html, text: text.trim() };
 }
 
 /**
- * Escape HTML to prevent XSS
+ * Values available to templates
  */
-function escapeHtml(text: string): string {
-  const map: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#039;',
+function buildTemplateContext(submission: FormSubmissionData): Record<string, any> {
+  return {
+    formId: submission.formId,
+    formName: submission.formName || submission.formId,
+    submissionId: submission.submissionId,
+    fields: submission.data,
+    metadata: submission.metadata,
+    date: new Date(submission.metadata.timestamp).toLocaleString(),
+    files: (submission.files || []).map(file => ({
+      field: file.field,
+      name: file.name,
+      url: file.url,
+      size: `${Math.ceil(file.size / 1024)} KB`,
+      type: file.type,
+    })),
+    confirmUrl: submission.confirmUrl,
   };
-  return text.replace(/[&<>"']/g, (m) => map[m]);
 }
@@ -0,0 +1,165 @@
+/**
+ * Streaming export of submissions as CSV, NDJSON or XLSX
+ */
+
+import {
+    iterateSubmissions,
+    getSubmissionFieldNames,
+    type DateRange,
+    type StoredSubmission,
+    type SubmissionFilter,
+} from './storage';
+import { isFileReference } from './files';
+import { xlsxStream, type CellValue } from './xlsx';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+    csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+    ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+    xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+export interface ExportOptions {
+    format: ExportFormat;
+    includeMetadata: boolean;
+    range: DateRange;
+}
+
+const METADATA_COLUMNS = ['ip', 'userAgent', 'timestamp', 'turnstileScore'];
+
+const encoder = new TextEncoder();
+
+export function isExportFormat(value: string): value is ExportFormat {
+    return value in EXPORT_FORMATS;
+}
+
+/**
+ * Stream every submission for a form in the requested format
+ */
+export function exportSubmissions(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    options: ExportOptions
+): ReadableStream<Uint8Array> {
+    const chunks = options.format === 'ndjson'
+        ? ndjsonChunks(kv, db, formId, options)
+        : tabularChunks(kv, db, formId, options);
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { value, done } = await chunks.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (error) {
+                console.error('Error exporting submissions:', error);
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await chunks.return(undefined);
+        },
+    });
+}
+
+async function* ndjsonChunks(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    options: ExportOptions
+): AsyncGenerator<Uint8Array> {
+    for await (const submission of iterateSubmissions(kv, db, formId, exportFilter(options))) {
+        const { metadata, ...rest } = submission;
+        const record = options.includeMetadata
+            ? submission
+            : { ...rest, submittedAt: metadata.timestamp };
+        yield encoder.encode(JSON.stringify(record) + '\n');
+    }
+}
+
+async function* tabularChunks(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    options: ExportOptions
+): AsyncGenerator<Uint8Array> {
+    // First pass: the union of all data keys becomes the column headers.
+    // It uses the same filter as the rows, so spam and unconfirmed opt-ins add no columns
+    const fieldNames = await getSubmissionFieldNames(kv, db, formId, exportFilter(options));
+    const header = [
+        'id',
+        'submittedAt',
+        ...fieldNames,
+        ...(options.includeMetadata ? METADATA_COLUMNS.map(name => `metadata.${name}`) : []),
+    ];
+
+    const rows = tableRows(kv, db, formId, options, header, fieldNames);
+
+    if (options.format === 'xlsx') {
+        yield* xlsxStream(formId, rows);
+        return;
+    }
+
+    // BOM so spreadsheet apps detect UTF-8
+    yield encoder.encode('\uFEFF');
+    for await (const row of rows) {
+        yield encoder.encode(row.map(csvCell).join(',') + '\r\n');
+    }
+}
+
+async function* tableRows(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    options: ExportOptions,
+    header: string[],
+    fieldNames: string[]
+): AsyncGenerator<CellValue[]> {
+    yield header;
+
+    for await (const submission of iterateSubmissions(kv, db, formId, exportFilter(options))) {
+        yield toRow(submission, fieldNames, options.includeMetadata);
+    }
+}
+
+// Quarantined spam and unconfirmed opt-ins are never exported
+function exportFilter(options: ExportOptions): SubmissionFilter {
+    return { range: options.range, quarantined: false, pending: false };
+}
+
+function toRow(submission: StoredSubmission, fieldNames: string[], includeMetadata: boolean): CellValue[] {
+    const metadata = submission.metadata as Record<string, any>;
+    return [
+        submission.id,
+        submission.metadata.timestamp,
+        ...fieldNames.map(name => formatCell(submission.data[name])),
+        ...(includeMetadata ? METADATA_COLUMNS.map(name => formatCell(metadata[name])) : []),
+    ];
+}
+
+function formatCell(value: any): CellValue {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return String(value);
+    if (isFileReference(value)) return value.name;
+    if (Array.isArray(value)) return value.map(item => formatCell(item) ?? '').join('; ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+function csvCell(value: CellValue): string {
+    if (value === null) return '';
+    let text = String(value);
+
+    // Prevent formula injection when the file is opened in a spreadsheet app
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,339 @@
+/**
+ * File uploads stored in R2
+ */
+
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+import type { EmailAttachment } from './email';
+
+export interface UploadConfig {
+    maxFiles: number;
+    maxFileSize: number; // bytes
+    allowedTypes: string[]; // MIME types, e.g. "application/pdf" or "image/*". Empty allows any type
+    attachToEmail: boolean; // attach files to the notification email as well as linking to them
+}
+
+export interface UploadedFile {
+    field: string;
+    file: File;
+}
+
+/**
+ * Reference to an uploaded file, stored in FormSubmission.data
+ */
+export interface FileReference {
+    key: string;
+    name: string;
+    size: number;
+    type: string;
+}
+
+export interface FileLink extends FileReference {
+    field: string;
+    url: string;
+}
+
+const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
+    maxFiles: 5,
+    maxFileSize: 10 * 1024 * 1024,
+    allowedTypes: [],
+    attachToEmail: false,
+};
+
+// Total size of files attached to one email. Larger files are only linked
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const DOWNLOAD_LINK_TTL = 7 * 24 * 60 * 60; // seconds
+
+/**
+ * Validate an upload configuration supplied through the forms API
+ */
+export function parseUploadConfig(value: any): { uploads?: UploadConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'uploads must be an object' };
+    }
+
+    const uploads: UploadConfig = { ...DEFAULT_UPLOAD_CONFIG };
+
+    for (const key of ['maxFiles', 'maxFileSize'] as const) {
+        if (value[key] !== undefined) {
+            if (!Number.isInteger(value[key]) || value[key] < 1) {
+                return { error: `uploads.${key} must be a positive integer` };
+            }
+            uploads[key] = value[key];
+        }
+    }
+
+    if (value.allowedTypes !== undefined) {
+        if (!Array.isArray(value.allowedTypes) || !value.allowedTypes.every((type: any) => typeof type === 'string')) {
+            return { error: 'uploads.allowedTypes must be an array of MIME types' };
+        }
+        uploads.allowedTypes = value.allowedTypes;
+    }
+
+    if (value.attachToEmail !== undefined) {
+        if (typeof value.attachToEmail !== 'boolean') {
+            return { error: 'uploads.attachToEmail must be a boolean' };
+        }
+        uploads.attachToEmail = value.attachToEmail;
+    }
+
+    return { uploads };
+}
+
+/**
+ * Check uploaded files against a form's limits.
+ * Returns errors keyed by field name, in the same shape as schema validation.
+ */
+export function validateUploads(config: UploadConfig, files: UploadedFile[]): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+    const addError = (field: string, message: string) => {
+        (errors[field] ||= []).push(message);
+    };
+
+    if (files.length > config.maxFiles) {
+        addError(files[config.maxFiles].field, `too many files (maximum ${config.maxFiles})`);
+    }
+
+    for (const { field, file } of files) {
+        if (file.size > config.maxFileSize) {
+            addError(field, `${file.name} exceeds the maximum size of ${formatBytes(config.maxFileSize)}`);
+        }
+        if (!isTypeAllowed(config.allowedTypes, file.type)) {
+            addError(field, `${file.name} has a file type that is not allowed`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Upload files to R2 and return the references to store with the submission,
+ * grouped by field. Fields with several files get an array of references.
+ * If an upload fails, the files already uploaded are deleted again.
+ */
+export async function storeUploads(
+    bucket: R2Bucket,
+    formId: string,
+    submissionId: string,
+    files: UploadedFile[]
+): Promise<Record<string, FileReference | FileReference[]>> {
+    const references: Record<string, FileReference | FileReference[]> = {};
+    const usedNames = new Set<string>();
+
+    for (const { field, file } of files) {
+        const name = uniqueName(sanitizeFileName(file.name), usedNames);
+        const key = `${formId}/${submissionId}/${name}`;
+        const type = file.type || 'application/octet-stream';
+
+        try {
+            await bucket.put(key, file, {
+                httpMetadata: { contentType: type },
+                customMetadata: { formId, submissionId, field, originalName: file.name },
+            });
+        } catch (error) {
+            await deleteUploads(bucket, formId, submissionId, references).catch((cleanupError) => {
+                console.error('Error deleting partial uploads:', cleanupError);
+            });
+            throw error;
+        }
+
+        const reference: FileReference = { key, name, size: file.size, type };
+        const existing = references[field];
+        if (existing === undefined) {
+            references[field] = reference;
+        } else {
+            references[field] = Array.isArray(existing) ? [...existing, reference] : [existing, reference];
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Find the file references stored in a submission's data. Only references
+ * to files stored under the submission's own key prefix count, so a visitor
+ * can't point a submission at another submission's files.
+ */
+export function getFileReferences(
+    formId: string,
+    submissionId: string,
+    data: Record<string, any>
+): { field: string; file: FileReference }[] {
+    const prefix = `${formId}/${submissionId}/`;
+    const found: { field: string; file: FileReference }[] = [];
+
+    for (const [field, value] of Object.entries(data)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (isFileReference(item) && item.key.startsWith(prefix)) {
+                found.push({ field, file: item });
+            }
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Remove values shaped like file references from submitted data, so only
+ * references written by storeUploads are ever stored
+ */
+export function stripFileReferences(data: Record<string, any>): Record<string, any> {
+    const stripped: Record<string, any> = {};
+
+    for (const [field, value] of Object.entries(data)) {
+        if (isFileReference(value)) continue;
+        stripped[field] = Array.isArray(value) ? value.filter(item => !isFileReference(item)) : value;
+    }
+
+    return stripped;
+}
+
+/**
+ * Read a submission's files from R2 to attach to an email. Files that would
+ * take the total over MAX_ATTACHMENT_BYTES are left out.
+ */
+export async function loadEmailAttachments(
+    bucket: R2Bucket,
+    formId: string,
+    submissionId: string,
+    data: Record<string, any>
+): Promise<EmailAttachment[]> {
+    const attachments: EmailAttachment[] = [];
+    let total = 0;
+
+    for (const { file } of getFileReferences(formId, submissionId, data)) {
+        if (total + file.size > MAX_ATTACHMENT_BYTES) continue;
+
+        const object = await bucket.get(file.key);
+        // The stored object decides, not the size recorded in the reference
+        if (!object || total + object.size > MAX_ATTACHMENT_BYTES) continue;
+
+        attachments.push({
+            filename: file.name,
+            contentType: file.type,
+            content: new Uint8Array(await object.arrayBuffer()),
+        });
+        total += object.size;
+    }
+
+    return attachments;
+}
+
+/**
+ * Delete the R2 objects referenced by a submission's data
+ */
+export async function deleteUploads(
+    bucket: R2Bucket,
+    formId: string,
+    submissionId: string,
+    data: Record<string, any>
+): Promise<void> {
+    const keys = getFileReferences(formId, submissionId, data).map(({ file }) => file.key);
+    if (keys.length > 0) {
+        await bucket.delete(keys);
+    }
+}
+
+export function isFileReference(value: any): value is FileReference {
+    return !!value
+        && typeof value === 'object'
+        && typeof value.key === 'string'
+        && typeof value.name === 'string'
+        && typeof value.size === 'number'
+        && typeof value.type === 'string';
+}
+
+/**
+ * Build download links for a submission's files.
+ * Links are signed and expire when a signing secret is configured,
+ * otherwise they require the API key.
+ */
+export async function buildFileLinks(
+    baseUrl: string,
+    formId: string,
+    submissionId: string,
+    data: Record<string, any>,
+    secret?: string
+): Promise<FileLink[]> {
+    const links: FileLink[] = [];
+
+    for (const { field, file } of getFileReferences(formId, submissionId, data)) {
+        const url = new URL(
+            `/submission/${encodeURIComponent(submissionId)}/files/${encodeURIComponent(file.name)}`,
+            baseUrl
+        );
+
+        if (secret) {
+            const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_LINK_TTL;
+            url.searchParams.set('expires', String(expires));
+            url.searchParams.set('signature', await signDownload(secret, submissionId, file.name, expires));
+        }
+
+        links.push({ ...file, field, url: url.toString() });
+    }
+
+    return links;
+}
+
+/**
+ * Verify a signed download link
+ */
+export async function verifyDownloadSignature(
+    secret: string,
+    submissionId: string,
+    name: string,
+    expires: string | undefined,
+    signature: string | undefined
+): Promise<boolean> {
+    const expiresAt = parseInt(expires || '');
+    if (!signature || !expiresAt || expiresAt < Math.floor(Date.now() / 1000)) {
+        return false;
+    }
+
+    const expected = await signDownload(secret, submissionId, name, expiresAt);
+    return timingSafeEqual(expected, signature);
+}
+
+async function signDownload(secret: string, submissionId: string, name: string, expires: number): Promise<string> {
+    return hmacSha256Hex(secret, `${submissionId}/${name}:${expires}`);
+}
+
+function isTypeAllowed(allowedTypes: string[], type: string): boolean {
+    if (allowedTypes.length === 0) return true;
+
+    return allowedTypes.some(allowed => allowed.endsWith('/*')
+        ? type.startsWith(allowed.slice(0, -1))
+        : type === allowed
+    );
+}
+
+function sanitizeFileName(name: string): string {
+    const cleaned = name
+        .replace(/^.*[\\/]/, '')
+        .replace(/[^\w.-]+/g, '_')
+        .replace(/^\.+/, '')
+        .slice(-100);
+    return cleaned || 'file';
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+    let candidate = name;
+    let counter = 1;
+
+    while (used.has(candidate)) {
+        const dot = name.lastIndexOf('.');
+        candidate = dot > 0
+            ? `${name.slice(0, dot)}-${counter}${name.slice(dot)}`
+            : `${name}-${counter}`;
+        counter++;
+    }
+
+    used.add(candidate);
+    return candidate;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB`;
+    if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${bytes} bytes`;
+}
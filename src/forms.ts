@@ -0,0 +1,415 @@
+/**
+ * Form registry
+ * Per-form configuration stored in D1 or KV
+ */
+
+import { parseFormSchema, isHttpUrl, type FormSchema } from './validation';
+import { parseUploadConfig, type UploadConfig } from './files';
+import { parseRetentionConfig, type RetentionConfig } from './retention';
+import { parseSpamConfig, type SpamConfig } from './spam';
+import { parseEmailTemplate, type EmailTemplate } from './email';
+import { parseAutoReplyConfig, type AutoReplyConfig } from './autoreply';
+import { parseDoubleOptInConfig, type DoubleOptInConfig } from './optin';
+import { parseDigestConfig, type DigestConfig } from './digest';
+import { parseChannelConfigs, redactChannel, type ChannelConfig } from './channels';
+import { parseRateLimitConfig, type RateLimitConfig } from './ratelimit';
+import { parseTurnstileConfig, redactTurnstile, type TurnstileConfig } from './turnstile';
+import { parseCaptchaConfig, redactCaptcha, type CaptchaConfig } from './captcha';
+import { parseIdempotencyConfig, type IdempotencyConfig } from './idempotency';
+
+export interface FormConfig {
+    id: string;
+    name?: string;
+    enabled: boolean;
+    emailTo: string[];
+    webhookUrl?: string;
+    webhookSecret?: string; // signs webhook payloads, falls back to WEBHOOK_SIGNING_SECRET
+    allowedOrigins: string[];
+    turnstileSecretKey?: string;
+    turnstile?: TurnstileConfig; // tokens are only checked against allowedOrigins unless set
+    captcha?: CaptchaConfig; // Turnstile is used unless set
+    schema?: FormSchema;
+    successUrl?: string;
+    errorUrl?: string;
+    redirectAllowlist: string[];
+    uploads?: UploadConfig; // file uploads are rejected unless set
+    rateLimit?: RateLimitConfig; // only the worker-wide per-IP limit applies unless set
+    idempotency?: IdempotencyConfig; // idempotency keys are kept for 24 hours unless set
+    retention?: RetentionConfig; // submissions are kept forever unless set
+    spam?: SpamConfig; // content-based spam scoring runs only when set
+    emailTemplate?: EmailTemplate; // the default notification email is used unless set
+    digest?: DigestConfig; // one email per submission unless set
+    channels?: ChannelConfig[]; // Slack, Discord, Teams and Telegram notifications
+    autoReply?: AutoReplyConfig; // no confirmation is sent to the visitor unless set
+    doubleOptIn?: DoubleOptInConfig; // submissions count without confirmation unless set
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type FormInput = Partial<Omit<FormConfig, 'id' | 'createdAt' | 'updatedAt'>>;
+
+const FORM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Defaults for fields added after a form record may have been stored
+const FORM_DEFAULTS = {
+    enabled: true,
+    emailTo: [],
+    allowedOrigins: [],
+    redirectAllowlist: [],
+};
+
+/**
+ * Check that a form ID is safe to use as a key
+ */
+export function isValidFormId(formId: string): boolean {
+    return FORM_ID_PATTERN.test(formId);
+}
+
+/**
+ * Validate and normalise a form create/update payload
+ */
+export function parseFormInput(body: any): { input?: FormInput; error?: string } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { error: 'Form configuration must be an object' };
+    }
+
+    const input: FormInput = {};
+
+    if (body.name !== undefined) {
+        if (typeof body.name !== 'string') return { error: 'name must be a string' };
+        input.name = body.name;
+    }
+
+    if (body.enabled !== undefined) {
+        if (typeof body.enabled !== 'boolean') return { error: 'enabled must be a boolean' };
+        input.enabled = body.enabled;
+    }
+
+    if (body.emailTo !== undefined) {
+        const emailTo = toStringList(body.emailTo);
+        if (!emailTo) return { error: 'emailTo must be a string or an array of strings' };
+        input.emailTo = emailTo;
+    }
+
+    if (body.webhookUrl !== undefined) {
+        if (body.webhookUrl !== null && (typeof body.webhookUrl !== 'string' || !isHttpUrl(body.webhookUrl))) {
+            return { error: 'webhookUrl must be an http(s) URL' };
+        }
+        input.webhookUrl = body.webhookUrl || undefined;
+    }
+
+    if (body.allowedOrigins !== undefined) {
+        const allowedOrigins = toStringList(body.allowedOrigins);
+        if (!allowedOrigins) return { error: 'allowedOrigins must be a string or an array of strings' };
+        input.allowedOrigins = allowedOrigins;
+    }
+
+    for (const key of ['turnstileSecretKey', 'webhookSecret'] as const) {
+        if (body[key] !== undefined) {
+            if (body[key] !== null && typeof body[key] !== 'string') {
+                return { error: `${key} must be a string` };
+            }
+            input[key] = body[key] || undefined;
+        }
+    }
+
+    for (const key of ['successUrl', 'errorUrl'] as const) {
+        if (body[key] !== undefined) {
+            if (body[key] !== null && (typeof body[key] !== 'string' || !isHttpUrl(body[key]))) {
+                return { error: `${key} must be an http(s) URL` };
+            }
+            input[key] = body[key] || undefined;
+        }
+    }
+
+    if (body.redirectAllowlist !== undefined) {
+        const redirectAllowlist = toStringList(body.redirectAllowlist);
+        if (!redirectAllowlist || !redirectAllowlist.every(isHttpUrl)) {
+            return { error: 'redirectAllowlist must be a list of http(s) URLs' };
+        }
+        input.redirectAllowlist = redirectAllowlist;
+    }
+
+    if (body.uploads !== undefined) {
+        if (body.uploads === null) {
+            input.uploads = undefined;
+        } else {
+            const { uploads, error } = parseUploadConfig(body.uploads);
+            if (!uploads) return { error };
+            input.uploads = uploads;
+        }
+    }
+
+    if (body.turnstile !== undefined) {
+        if (body.turnstile === null) {
+            input.turnstile = undefined;
+        } else {
+            const { turnstile, error } = parseTurnstileConfig(body.turnstile);
+            if (!turnstile) return { error };
+            input.turnstile = turnstile;
+        }
+    }
+
+    if (body.captcha !== undefined) {
+        if (body.captcha === null) {
+            input.captcha = undefined;
+        } else {
+            const { captcha, error } = parseCaptchaConfig(body.captcha);
+            if (!captcha) return { error };
+            input.captcha = captcha;
+        }
+    }
+
+    if (body.rateLimit !== undefined) {
+        if (body.rateLimit === null) {
+            input.rateLimit = undefined;
+        } else {
+            const { rateLimit, error } = parseRateLimitConfig(body.rateLimit);
+            if (!rateLimit) return { error };
+            input.rateLimit = rateLimit;
+        }
+    }
+
+    if (body.idempotency !== undefined) {
+        if (body.idempotency === null) {
+            input.idempotency = undefined;
+        } else {
+            const { idempotency, error } = parseIdempotencyConfig(body.idempotency);
+            if (!idempotency) return { error };
+            input.idempotency = idempotency;
+        }
+    }
+
+    if (body.spam !== undefined) {
+        if (body.spam === null) {
+            input.spam = undefined;
+        } else {
+            const { spam, error } = parseSpamConfig(body.spam);
+            if (!spam) return { error };
+            input.spam = spam;
+        }
+    }
+
+    if (body.emailTemplate !== undefined) {
+        if (body.emailTemplate === null) {
+            input.emailTemplate = undefined;
+        } else {
+            const { emailTemplate, error } = parseEmailTemplate(body.emailTemplate);
+            if (!emailTemplate) return { error };
+            input.emailTemplate = emailTemplate;
+        }
+    }
+
+    if (body.digest !== undefined) {
+        if (body.digest === null) {
+            input.digest = undefined;
+        } else {
+            const { digest, error } = parseDigestConfig(body.digest);
+            if (!digest) return { error };
+            input.digest = digest;
+        }
+    }
+
+    if (body.channels !== undefined) {
+        if (body.channels === null) {
+            input.channels = undefined;
+        } else {
+            const { channels, error } = parseChannelConfigs(body.channels);
+            if (!channels) return { error };
+            input.channels = channels;
+        }
+    }
+
+    if (body.autoReply !== undefined) {
+        if (body.autoReply === null) {
+            input.autoReply = undefined;
+        } else {
+            const { autoReply, error } = parseAutoReplyConfig(body.autoReply);
+            if (!autoReply) return { error };
+            input.autoReply = autoReply;
+        }
+    }
+
+    if (body.doubleOptIn !== undefined) {
+        if (body.doubleOptIn === null) {
+            input.doubleOptIn = undefined;
+        } else {
+            const { doubleOptIn, error } = parseDoubleOptInConfig(body.doubleOptIn);
+            if (!doubleOptIn) return { error };
+            input.doubleOptIn = doubleOptIn;
+        }
+    }
+
+    if (body.retention !== undefined) {
+        if (body.retention === null) {
+            input.retention = undefined;
+        } else {
+            const { retention, error } = parseRetentionConfig(body.retention);
+            if (!retention) return { error };
+            input.retention = retention;
+        }
+    }
+
+    if (body.schema !== undefined) {
+        if (body.schema === null) {
+            input.schema = undefined;
+        } else {
+            const { schema, error } = parseFormSchema(body.schema);
+            if (!schema) return { error };
+            input.schema = schema;
+        }
+    }
+
+    return { input };
+}
+
+/**
+ * Build a new form record from a validated payload
+ */
+export function createFormConfig(formId: string, input: FormInput): FormConfig {
+    const now = new Date().toISOString();
+    return {
+        id: formId,
+        ...FORM_DEFAULTS,
+        ...input,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Strip secrets before returning a form over the API
+ */
+export function redactForm(form: FormConfig) {
+    const { turnstileSecretKey, webhookSecret, channels, turnstile, captcha, ...rest } = form;
+    return {
+        ...rest,
+        channels: channels?.map(redactChannel),
+        turnstile: turnstile && redactTurnstile(turnstile),
+        captcha: captcha && redactCaptcha(captcha),
+        hasTurnstileSecretKey: !!turnstileSecretKey,
+        hasWebhookSecret: !!webhookSecret,
+    };
+}
+
+/**
+ * Check whether a request origin is allowed to submit to a form.
+ * An empty list allows every origin (CORS still applies globally).
+ */
+export function isOriginAllowed(form: FormConfig, origin: string | undefined): boolean {
+    if (form.allowedOrigins.length === 0 || form.allowedOrigins.includes('*')) {
+        return true;
+    }
+    return !!origin && form.allowedOrigins.includes(origin);
+}
+
+/**
+ * Get a form by ID
+ */
+export async function getForm(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string
+): Promise<FormConfig | null> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT config FROM forms WHERE id = ?')
+            .bind(formId)
+            .first();
+
+        if (!result) return null;
+        return withDefaults(JSON.parse(result.config as string));
+    } else if (kv) {
+        const form = await kv.get(`form:${formId}`, 'json') as FormConfig | null;
+        return form ? withDefaults(form) : null;
+    }
+
+    return null;
+}
+
+/**
+ * List all registered forms
+ */
+export async function listForms(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined
+): Promise<FormConfig[]> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT config FROM forms ORDER BY id')
+            .all();
+
+        return result.results.map((row: any) => withDefaults(JSON.parse(row.config)));
+    } else if (kv) {
+        const forms: FormConfig[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list({ prefix: 'form:', cursor });
+            for (const key of list.keys) {
+                const form = await kv.get(key.name, 'json') as FormConfig | null;
+                if (form) forms.push(withDefaults(form));
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
+
+        return forms;
+    }
+
+    return [];
+}
+
+/**
+ * Create or replace a form record
+ */
+export async function saveForm(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    form: FormConfig
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO forms (id, config, created_at, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET config = excluded.config, updated_at = excluded.updated_at`
+            )
+            .bind(form.id, JSON.stringify(form), form.createdAt, form.updatedAt)
+            .run();
+    } else if (kv) {
+        await kv.put(`form:${form.id}`, JSON.stringify(form));
+    } else {
+        throw new Error('No storage backend configured');
+    }
+}
+
+/**
+ * Delete a form record. Stored submissions are left untouched.
+ */
+export async function deleteForm(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string
+): Promise<void> {
+    if (db) {
+        await db.prepare('DELETE FROM forms WHERE id = ?').bind(formId).run();
+    } else if (kv) {
+        await kv.delete(`form:${formId}`);
+    } else {
+        throw new Error('No storage backend configured');
+    }
+}
+
+function withDefaults(form: FormConfig): FormConfig {
+    return { ...FORM_DEFAULTS, ...form };
+}
+
+function toStringList(value: unknown): string[] | null {
+    if (typeof value === 'string') {
+        return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        return value.map(item => item.trim()).filter(Boolean);
+    }
+    return null;
+}
@@ -0,0 +1,261 @@
+/**
+ * Idempotent submissions. A repeated request with the same idempotency key,
+ * or optionally the same data from the same IP within a few seconds, gets
+ * the original response back instead of creating another submission.
+ */
+
+import { sha256Hex } from './crypto';
+import type { FormConfig } from './forms';
+import type { UploadedFile } from './files';
+
+export interface IdempotencyConfig {
+    windowSeconds?: number; // how long responses are kept for replay, default 24 hours
+    duplicateWindowSeconds?: number; // treat the same data from the same IP as a repeat within this window; off unless set
+}
+
+/**
+ * A key this request holds while it is processed
+ */
+export interface IdempotencyClaim {
+    key: string;
+    fingerprint: string;
+    windowSeconds: number;
+}
+
+export type IdempotencyOutcome =
+    | { claim: IdempotencyClaim } // first request: process it, then complete or release the claim
+    | { replay: Record<string, any> } // the response of the original request
+    | { conflict: 'in-progress' | 'mismatch' };
+
+interface IdempotencyRecord {
+    fingerprint: string;
+    response?: Record<string, any>; // unset while the original request is processed
+    expiresAt: number; // seconds since epoch
+}
+
+const DEFAULT_WINDOW_SECONDS = 86400;
+const MAX_WINDOW_SECONDS = 7 * 86400;
+const MAX_DUPLICATE_WINDOW_SECONDS = 60;
+
+// A claim not completed in this time is assumed abandoned and can be taken over
+const PENDING_TTL_SECONDS = 120;
+
+// How long a repeat waits for the original request to finish before giving up
+const WAIT_FOR_ORIGINAL_MS = 5000;
+const POLL_INTERVAL_MS = 250;
+
+/**
+ * Validate an idempotency configuration supplied through the forms API
+ */
+export function parseIdempotencyConfig(value: any): { idempotency?: IdempotencyConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'idempotency must be an object' };
+    }
+
+    const idempotency: IdempotencyConfig = {};
+
+    if (value.windowSeconds !== undefined && value.windowSeconds !== null) {
+        if (!Number.isInteger(value.windowSeconds) || value.windowSeconds < 60 || value.windowSeconds > MAX_WINDOW_SECONDS) {
+            return { error: `idempotency.windowSeconds must be an integer from 60 to ${MAX_WINDOW_SECONDS}` };
+        }
+        idempotency.windowSeconds = value.windowSeconds;
+    }
+
+    if (value.duplicateWindowSeconds !== undefined && value.duplicateWindowSeconds !== null) {
+        if (
+            !Number.isInteger(value.duplicateWindowSeconds) ||
+            value.duplicateWindowSeconds < 1 ||
+            value.duplicateWindowSeconds > MAX_DUPLICATE_WINDOW_SECONDS
+        ) {
+            return { error: `idempotency.duplicateWindowSeconds must be an integer from 1 to ${MAX_DUPLICATE_WINDOW_SECONDS}` };
+        }
+        idempotency.duplicateWindowSeconds = value.duplicateWindowSeconds;
+    }
+
+    return { idempotency };
+}
+
+/**
+ * Idempotency keys are 1-255 visible ASCII characters, such as a UUID
+ */
+export function isValidIdempotencyKey(value: string): boolean {
+    return /^[\x21-\x7e]{1,255}$/.test(value);
+}
+
+/**
+ * Claim the request's idempotency key, or find the response to replay.
+ * Without a key, forms with duplicateWindowSeconds use the IP and data as one.
+ * Returns null when neither applies.
+ *
+ * A repeat that arrives while the original is still processed waits a few
+ * seconds for it, so a double-click gets the same response rather than an error.
+ */
+export async function beginIdempotentRequest(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    form: FormConfig,
+    request: { idempotencyKey?: string; ip: string; data: any; files: UploadedFile[] }
+): Promise<IdempotencyOutcome | null> {
+    const fingerprint = await submissionFingerprint(request.data, request.files);
+
+    let claim: IdempotencyClaim;
+    if (request.idempotencyKey) {
+        claim = {
+            key: `${form.id}:key:${request.idempotencyKey}`,
+            fingerprint,
+            windowSeconds: form.idempotency?.windowSeconds ?? DEFAULT_WINDOW_SECONDS,
+        };
+    } else if (form.idempotency?.duplicateWindowSeconds) {
+        claim = {
+            key: `${form.id}:ip:${await sha256Hex(`${request.ip}:${fingerprint}`)}`,
+            fingerprint,
+            windowSeconds: form.idempotency.duplicateWindowSeconds,
+        };
+    } else {
+        return null;
+    }
+
+    const deadline = Date.now() + WAIT_FOR_ORIGINAL_MS;
+
+    for (;;) {
+        const record = await claimKey(kv, db, claim);
+        if (!record) return { claim };
+
+        // The same key sent with other data is a client bug, not a retry
+        if (record.fingerprint !== fingerprint) return { conflict: 'mismatch' };
+        if (record.response) return { replay: record.response };
+
+        if (Date.now() + POLL_INTERVAL_MS > deadline) return { conflict: 'in-progress' };
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+}
+
+/**
+ * Keep the response to a claimed request, for repeats to replay
+ */
+export async function completeIdempotentRequest(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    claim: IdempotencyClaim,
+    response: Record<string, any>
+): Promise<void> {
+    const expiresAt = Math.floor(Date.now() / 1000) + claim.windowSeconds;
+
+    if (db) {
+        await db
+            .prepare('UPDATE idempotency_keys SET response = ?, expires_at = ? WHERE key = ?')
+            .bind(JSON.stringify(response), expiresAt, claim.key)
+            .run();
+    } else if (kv) {
+        await putRecord(kv, claim.key, { fingerprint: claim.fingerprint, response, expiresAt });
+    }
+}
+
+/**
+ * Give up a claim when the request failed, so the client can try again with the same key
+ */
+export async function releaseIdempotentRequest(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    claim: IdempotencyClaim
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare('DELETE FROM idempotency_keys WHERE key = ? AND response IS NULL')
+            .bind(claim.key)
+            .run();
+    } else if (kv) {
+        const record = await kv.get(`idempotency:${claim.key}`, 'json') as IdempotencyRecord | null;
+        if (record && !record.response) await kv.delete(`idempotency:${claim.key}`);
+    }
+}
+
+/**
+ * Delete responses past their replay window (KV keys expire on their own)
+ */
+export async function deleteExpiredIdempotencyKeys(db: D1Database | undefined): Promise<number> {
+    if (!db) return 0;
+
+    const result = await db
+        .prepare('DELETE FROM idempotency_keys WHERE expires_at < ?')
+        .bind(Math.floor(Date.now() / 1000))
+        .run();
+    return result.meta.changes;
+}
+
+/**
+ * Claim a key for this request. Returns the existing record if another
+ * request holds it, or null if this request now does.
+ */
+async function claimKey(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    claim: IdempotencyClaim
+): Promise<IdempotencyRecord | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = now + PENDING_TTL_SECONDS;
+
+    if (db) {
+        // Expired records, including abandoned claims, are taken over
+        const result = await db
+            .prepare(
+                `INSERT INTO idempotency_keys (key, fingerprint, response, expires_at) VALUES (?, ?, NULL, ?)
+         ON CONFLICT(key) DO UPDATE SET fingerprint = excluded.fingerprint, response = NULL, expires_at = excluded.expires_at
+         WHERE idempotency_keys.expires_at < ?`
+            )
+            .bind(claim.key, claim.fingerprint, expiresAt, now)
+            .run();
+        if (result.meta.changes > 0) return null;
+
+        const row = await db
+            .prepare('SELECT fingerprint, response, expires_at FROM idempotency_keys WHERE key = ?')
+            .bind(claim.key)
+            .first<{ fingerprint: string; response: string | null; expires_at: number }>();
+
+        // Released or expired since the insert; try again
+        if (!row) return claimKey(kv, db, claim);
+
+        return {
+            fingerprint: row.fingerprint,
+            response: row.response ? JSON.parse(row.response) : undefined,
+            expiresAt: row.expires_at,
+        };
+    } else if (kv) {
+        // Approximate: two requests arriving at the same moment can both claim the key
+        const existing = await kv.get(`idempotency:${claim.key}`, 'json') as IdempotencyRecord | null;
+        if (existing && existing.expiresAt >= now) return existing;
+
+        await putRecord(kv, claim.key, { fingerprint: claim.fingerprint, expiresAt });
+    }
+
+    return null;
+}
+
+async function putRecord(kv: KVNamespace, key: string, record: IdempotencyRecord): Promise<void> {
+    // KV expiry is at least 60 seconds, so shorter windows are checked against expiresAt
+    await kv.put(`idempotency:${key}`, JSON.stringify(record), {
+        expirationTtl: Math.max(60, record.expiresAt - Math.floor(Date.now() / 1000)),
+    });
+}
+
+/**
+ * Hash of a submission's data and files. Keys are sorted and whitespace in
+ * values is collapsed, so near-identical payloads hash the same.
+ */
+async function submissionFingerprint(data: any, files: UploadedFile[]): Promise<string> {
+    return sha256Hex(JSON.stringify({
+        data: canonicalize(data),
+        files: files.map(({ field, file }) => [field, file.name, file.size]),
+    }));
+}
+
+function canonicalize(value: any): any {
+    if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ');
+    if (Array.isArray(value)) return value.map(canonicalize);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value).sort().map(key => [key, canonicalize(value[key])])
+        );
+    }
+    return value;
+}
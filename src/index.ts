@@ -1,30 +1,165 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { verifyTurnstile } from './turnstile';
-import { storeSubmission, getSubmissions, getSubmission } from './storage';
-import { checkRateLimit } from './ratelimit';
+import { createMiddleware } from 'hono/factory';
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { nanoid } from 'nanoid';
+import {
+    captchaVerifier,
+    createAltchaChallenge,
+    altchaKey,
+    deleteExpiredCaptchaReplays,
+} from './captcha';
+import {
+    storeSubmission,
+    updateSubmission,
+    getSubmissions,
+    getSubmission,
+    parseDateRange,
+    parseSubmissionFilter,
+    isValidCursor,
+    listSubmissionFormIds,
+    type StoredSubmission,
+} from './storage';
+import { exportSubmissions, isExportFormat, EXPORT_FORMATS } from './export';
+import {
+    limitRequest,
+    rateLimitDefaults,
+    rateLimitHeaders,
+    recordRateLimitOutcome,
+    getRateLimitCounters,
+    GLOBAL_COUNTERS,
+    type RateLimitFailMode,
+    type RateLimitPolicy,
+    type RateLimitScope,
+} from './ratelimit';
+import {
+    getForm,
+    listForms,
+    saveForm,
+    deleteForm,
+    parseFormInput,
+    createFormConfig,
+    redactForm,
+    isValidFormId,
+    isOriginAllowed,
+    type FormConfig,
+} from './forms';
+import {
+    parseAccessRuleInput,
+    checkAccess,
+    createAccessRule,
+    listAccessRules,
+    deleteAccessRule,
+    deleteExpiredAccessRules,
+    accessCounterKey,
+    recordAccessBlock,
+    getAccessCounters,
+    type Visitor,
+} from './accessrules';
+import {
+    beginIdempotentRequest,
+    completeIdempotentRequest,
+    releaseIdempotentRequest,
+    deleteExpiredIdempotencyKeys,
+    isValidIdempotencyKey,
+    type IdempotencyClaim,
+} from './idempotency';
+import { recordStats, getFormStats, parseStatsRange, GLOBAL_STATS, type StatsEvent } from './stats';
+import { parseSubmitRequest, resolveRedirectUrl, withOutcomeParams, requestHostname } from './request';
+import { validateSubmissionData } from './validation';
+import {
+    attemptWebhookDelivery,
+    retryDueWebhookDeliveries,
+    getWebhookDeliveries,
+    getWebhookDelivery,
+} from './webhooks';
+import {
+    validateUploads,
+    storeUploads,
+    deleteUploads,
+    getFileReferences,
+    stripFileReferences,
+    verifyDownloadSignature,
+    buildFileLinks,
+} from './files';
+import { eraseSubmission, eraseMatchingSubmissions, enforceRetention } from './retention';
+import {
+    authenticate,
+    canAccessForm,
+    createApiKey,
+    rotateApiKey,
+    revokeApiKey,
+    getApiKey,
+    listApiKeys,
+    parseApiKeyInput,
+    redactApiKey,
+    type ApiKeyScope,
+    type Principal,
+} from './apikeys';
 
-import { sendEmailNotification, type EmailConfig } from './email';
+import { sendEmailNotification, renderEmail, parseEmailTemplate, type EmailConfig } from './email';
+import { dispatchNotifications, sendOwnerNotification, emailConfigFromEnv } from './notifications';
+import { getNotificationLog } from './notificationlog';
+import { isDigestEnabled, resetDigestWatermark, sendDueDigests } from './digest';
+import { parseChannelConfig, sendChannelMessage, channelLabel, type ChannelConfig } from './channels';
+import {
+    getOptInEmail,
+    pendingOptIn,
+    sendConfirmationEmail,
+    verifyConfirmationToken,
+    expirePendingSubmissions,
+    confirmationPage,
+} from './optin';
+import { extractHoneypot, scoreSubmission } from './spam';
+import { defaultWorkflow, parseWorkflowUpdate, applyWorkflowUpdate } from './workflow';
 
 type Bindings = {
     FORM_SUBMISSIONS?: KVNamespace;
     DB?: D1Database;
+    UPLOADS?: R2Bucket;
+    DOWNLOAD_URL_SECRET?: string;
     TURNSTILE_SECRET_KEY: string;
+    TURNSTILE_SECRET_KEYS?: string;
+    HCAPTCHA_SECRET_KEY?: string;
+    RECAPTCHA_SECRET_KEY?: string;
+    FRIENDLY_CAPTCHA_API_KEY?: string;
+    ALTCHA_HMAC_KEY?: string;
     ALLOWED_ORIGINS: string;
     RATE_LIMIT_ENABLED: string;
     RATE_LIMIT_REQUESTS: string;
     RATE_LIMIT_WINDOW: string;
+    RATE_LIMIT_ALGORITHM?: string;
+    RATE_LIMIT_FAIL_MODE?: string;
+    RATE_LIMITER?: DurableObjectNamespace;
     EMAIL_PROVIDER: string;
     EMAIL_API_KEY: string;
+    RESEND_API_KEY?: string;
+    SENDGRID_API_KEY?: string;
+    MAILGUN_API_KEY?: string;
+    MAILTRAP_API_KEY?: string;
+    MAILCHANNELS_API_KEY?: string;
+    SEND_EMAIL?: SendEmail;
     EMAIL_FROM: string;
     EMAIL_TO: string;
     MAILGUN_DOMAIN?: string;
     MAILTRAP_INBOX_ID?: string;
     API_KEY?: string;
-    WEBHOOK_URL?: string;
+    WEBHOOK_SIGNING_SECRET?: string;
+    CONFIRMATION_SECRET?: string;
+    PUBLIC_URL?: string;
+    TELEGRAM_BOT_TOKEN?: string;
 };
 
-const app = new Hono<{ Bindings: Bindings }>();
+const MAX_PAGE_SIZE = 500;
+const MAX_BULK_UPDATE = 500;
+
+type AppEnv = {
+    Bindings: Bindings;
+    Variables: { principal?: Principal; rateLimitRemaining?: number };
+};
+
+const app = new Hono<AppEnv>();
 
 // CORS middleware
 app.use('/*', async (c, next) => {
@@ -33,14 +168,50 @@ app.use('/*', async (c, next) => {
 
     const corsMiddleware = cors({
         origin: allowedOrigins.includes('*') ? '*' : allowedOrigins,
-        allowMethods: ['GET', 'POST', 'OPTIONS'],
-        allowHeaders: ['Content-Type', 'Authorization'],
+        allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+        allowHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+        exposeHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After', 'Idempotent-Replayed'],
         maxAge: 86400,
     });
 
     return corsMiddleware(c, next);
 });
 
+/**
+ * API key authentication. Checks the key has the scope and, on routes with
+ * a :formId parameter, that the key may access that form.
+ * Routes that look up a form from a stored record check canAccessForm themselves.
+ */
+const requireAuth = (scope: ApiKeyScope | 'admin') =>
+    createMiddleware<AppEnv>(async (c, next) => {
+        const authHeader = c.req.header('authorization') || '';
+        const token = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : '';
+
+        const principal = token
+            ? await authenticate(c.env.FORM_SUBMISSIONS, c.env.DB, c.env.API_KEY, token)
+            : null;
+
+        if (!principal) {
+            return c.json({ success: false, error: 'Unauthorized' }, 401);
+        }
+
+        const allowed = scope === 'admin' ? principal.admin : principal.scopes.includes(scope);
+        if (!allowed) {
+            return c.json(
+                { success: false, error: scope === 'admin' ? 'Admin key required' : `API key lacks the ${scope} scope` },
+                403
+            );
+        }
+
+        const formId = c.req.param('formId');
+        if (formId && !canAccessForm(principal, formId)) {
+            return c.json({ success: false, error: 'API key is not allowed to access this form' }, 403);
+        }
+
+        c.set('principal', principal);
+        await next();
+    });
+
 // Health check endpoint
 app.get('/', (c) => {
     return c.json({
@@ -53,146 +224,590 @@ app.get('/', (c) => {
 
 
 
+/**
+ * Count a submission against one rate limit. Returns the error to reply with
+ * when the limit is exceeded, or when the check failed and the limit fails closed.
+ * The response carries the RateLimit-* headers of the tightest limit checked.
+ */
+async function enforceRateLimit(
+    c: Context<AppEnv>,
+    formId: string,
+    scope: RateLimitScope,
+    key: string,
+    policy: RateLimitPolicy,
+    failMode: RateLimitFailMode
+): Promise<{ body: Record<string, any>; status: ContentfulStatusCode } | null> {
+    const { result } = await limitRequest(c.env, key, policy);
+
+    if (!result) {
+        c.executionCtx.waitUntil(
+            recordRateLimitOutcome(c.env, formId, scope, 'errors').catch((err) => {
+                console.error('Error recording rate limit outcome:', err);
+            })
+        );
+        return failMode === 'closed'
+            ? { body: { success: false, error: 'Rate limit check failed' }, status: 503 }
+            : null;
+    }
+
+    const tightest = c.get('rateLimitRemaining');
+    if (!result.allowed || tightest === undefined || result.remaining < tightest) {
+        c.set('rateLimitRemaining', result.remaining);
+        for (const [name, value] of Object.entries(rateLimitHeaders(result, policy))) {
+            c.header(name, value);
+        }
+    }
+
+    if (result.allowed) return null;
+
+    c.executionCtx.waitUntil(
+        recordRateLimitOutcome(c.env, formId, scope, 'blocked').catch((err) => {
+            console.error('Error recording rate limit outcome:', err);
+        })
+    );
+
+    return {
+        body: { success: false, error: 'Rate limit exceeded', retryAfter: result.retryAfter },
+        status: 429,
+    };
+}
+
+/**
+ * Count a submission blocked by access rules, without delaying the response
+ */
+function countAccessBlock(c: Context<AppEnv>, key: string) {
+    c.executionCtx.waitUntil(
+        recordAccessBlock(c.env.FORM_SUBMISSIONS, c.env.DB, key).catch((error) => {
+            console.error('Error recording access block:', error);
+        })
+    );
+}
+
+/**
+ * Release an idempotency claim after a failed submission, without delaying the response
+ */
+function releaseIdempotency(c: Context<AppEnv>, claim: IdempotencyClaim) {
+    c.executionCtx.waitUntil(
+        releaseIdempotentRequest(c.env.FORM_SUBMISSIONS, c.env.DB, claim).catch((error) => {
+            console.error('Error releasing idempotency key:', error);
+        })
+    );
+}
+
+/**
+ * Count an outcome of /submit in the form's stats, without delaying the response
+ */
+function countStats(c: Context<AppEnv>, formId: string, event: StatsEvent) {
+    c.executionCtx.waitUntil(
+        recordStats(c.env.FORM_SUBMISSIONS, c.env.DB, formId, event).catch((error) => {
+            console.error('Error recording stats:', error);
+        })
+    );
+}
+
 // Submit form endpoint
-app.post('/submit', async (c) => {
+app.post('/submit/:formId?', async (c) => {
+    let idempotency: IdempotencyClaim | undefined;
+    let unstoredUploads: { formId: string; submissionId: string; references: Record<string, any> } | undefined;
+
     try {
         const clientIP = c.req.header('cf-connecting-ip') || 'unknown';
+        const rateLimitDefault = rateLimitDefaults(c.env);
 
-        // Rate limiting (if enabled)
+        // Global access rules are checked before any other work
+        const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+        const visitor: Visitor = { ip: c.req.header('cf-connecting-ip'), asn: cf?.asn, country: cf?.country };
+        const accessRules = await listAccessRules(c.env.FORM_SUBMISSIONS, c.env.DB);
+        const globalAccess = checkAccess(accessRules, undefined, visitor);
+        if (!globalAccess.allowed) {
+            countAccessBlock(c, accessCounterKey(globalAccess, undefined));
+            countStats(c, GLOBAL_STATS, { rejected: 'blocked' });
+            return c.json({ success: false, error: 'Access denied' }, 403);
+        }
+
+        // Worker-wide rate limiting per IP (if enabled)
         const rateLimitEnabled = c.env.RATE_LIMIT_ENABLED?.toLowerCase() === 'true';
         if (rateLimitEnabled) {
-            const rateLimitResult = await checkRateLimit(
-                c.env.FORM_SUBMISSIONS,
-                c.env.DB,
-                clientIP,
-                parseInt(c.env.RATE_LIMIT_REQUESTS || '10'),
-                parseInt(c.env.RATE_LIMIT_WINDOW || '60')
-            );
+            const limited = await enforceRateLimit(c, GLOBAL_COUNTERS, 'ip', `ip:${clientIP}`, {
+                limit: parseInt(c.env.RATE_LIMIT_REQUESTS || '10'),
+                windowSeconds: parseInt(c.env.RATE_LIMIT_WINDOW || '60'),
+                algorithm: rateLimitDefault.algorithm,
+            }, rateLimitDefault.failMode);
 
-            if (!rateLimitResult.allowed) {
-                return c.json(
-                    {
-                        success: false,
-                        error: 'Rate limit exceeded',
-                        retryAfter: rateLimitResult.retryAfter,
-                    },
-                    429
-                );
+            if (limited) {
+                if (limited.status === 429) countStats(c, GLOBAL_STATS, { rejected: 'rate-limited' });
+                return c.json(limited.body, limited.status);
             }
         }
 
-        const body = await c.req.json();
-        const { turnstileToken, formId, data } = body;
+        const request = await parseSubmitRequest(c.req);
+        const { captchaToken, formId, data } = request;
+        let form: FormConfig | null = null;
+
+        // Reply with JSON, or with a 303 redirect for native HTML form posts
+        const reply = (body: Record<string, any>, status: ContentfulStatusCode = 200) => {
+            // Failed submissions aren't replayed, so the visitor can fix the problem and retry with the same key
+            if (idempotency && !body.success) {
+                releaseIdempotency(c, idempotency);
+                idempotency = undefined;
+            }
+            if (request.native && form) {
+                const redirectUrl = resolveRedirectUrl(form, body.success, request.redirect);
+                if (redirectUrl) {
+                    return c.redirect(withOutcomeParams(redirectUrl, body), 303);
+                }
+            }
+            return c.json(body, status);
+        };
 
         // Validate required fields
-        if (!turnstileToken) {
+        if (!formId) {
             return c.json(
-                { success: false, error: 'Turnstile token is required' },
+                { success: false, error: 'Form ID is required' },
                 400
             );
         }
 
-        if (!formId) {
+        // Resolve form configuration
+        form = typeof formId === 'string'
+            ? await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, formId)
+            : null;
+
+        if (!form) {
             return c.json(
-                { success: false, error: 'Form ID is required' },
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        const formAccess = checkAccess(accessRules, form.id, visitor);
+        if (!formAccess.allowed) {
+            countAccessBlock(c, accessCounterKey(formAccess, form.id));
+            countStats(c, form.id, { rejected: 'blocked' });
+            return reply({ success: false, error: 'Access denied' }, 403);
+        }
+
+        if (!form.enabled) {
+            return reply(
+                { success: false, error: 'Form is disabled' },
+                403
+            );
+        }
+
+        if (!isOriginAllowed(form, c.req.header('origin'))) {
+            countStats(c, form.id, { rejected: 'origin' });
+            return reply(
+                { success: false, error: 'Origin not allowed for this form' },
+                403
+            );
+        }
+
+        // Repeats of a submission get the original response, before rate limits and CAPTCHA
+        // checks that a retry would fail, and without sending notifications again
+        if (request.idempotencyKey !== undefined && !isValidIdempotencyKey(request.idempotencyKey)) {
+            return reply(
+                { success: false, error: 'Idempotency-Key must be 1-255 visible ASCII characters' },
                 400
             );
         }
 
+        const idempotent = await beginIdempotentRequest(c.env.FORM_SUBMISSIONS, c.env.DB, form, {
+            idempotencyKey: request.idempotencyKey,
+            ip: clientIP,
+            data,
+            files: request.files,
+        });
+
+        if (idempotent && 'replay' in idempotent) {
+            c.header('Idempotent-Replayed', 'true');
+            return reply(idempotent.replay);
+        }
+        if (idempotent && 'conflict' in idempotent) {
+            return idempotent.conflict === 'mismatch'
+                ? reply({ success: false, error: 'Idempotency-Key was already used for a different submission' }, 422)
+                : reply({ success: false, error: 'A submission with this Idempotency-Key is still being processed' }, 409);
+        }
+        idempotency = idempotent?.claim;
+
+        // Per-form rate limits, checked per IP first so one visitor can't use up the whole form's budget
+        if (form.rateLimit) {
+            const algorithm = form.rateLimit.algorithm ?? rateLimitDefault.algorithm;
+            const failMode = form.rateLimit.failMode ?? rateLimitDefault.failMode;
+            const limits: [RateLimitScope, string, { requests: number; windowSeconds: number } | undefined][] = [
+                ['form-ip', `form-ip:${form.id}:${clientIP}`, form.rateLimit.perIp],
+                ['form', `form:${form.id}`, form.rateLimit.perForm],
+            ];
+
+            for (const [scope, key, limit] of limits) {
+                if (!limit) continue;
+
+                const limited = await enforceRateLimit(c, form.id, scope, key, {
+                    limit: limit.requests,
+                    windowSeconds: limit.windowSeconds,
+                    algorithm,
+                }, failMode);
+
+                if (limited) {
+                    if (limited.status === 429) countStats(c, form.id, { rejected: 'rate-limited' });
+                    return reply(limited.body, limited.status);
+                }
+            }
+        }
+
         if (!data || typeof data !== 'object') {
-            return c.json(
+            countStats(c, form.id, { rejected: 'validation' });
+            return reply(
                 { success: false, error: 'Form data is required' },
                 400
             );
         }
 
-        // Verify Turnstile token
-        const turnstileResult = await verifyTurnstile(
-            turnstileToken,
-            c.env.TURNSTILE_SECRET_KEY,
-            clientIP
-        );
+        const verifier = captchaVerifier(form);
+        if (!captchaToken) {
+            countStats(c, form.id, { rejected: 'captcha' });
+            return reply(
+                { success: false, error: `${verifier.label} token is required` },
+                400
+            );
+        }
 
-        if (!turnstileResult.success) {
-            return c.json(
+        // File references are only ever added by storeUploads, never taken from the visitor
+        let fields = stripFileReferences(data);
+
+        // The honeypot is a spam signal, not a form field
+        let honeypot: string | undefined;
+        if (form.spam) {
+            ({ data: fields, honeypot } = extractHoneypot(form.spam, fields));
+        }
+
+        // Validate fields against the form schema before spending the CAPTCHA token
+        if (form.schema) {
+            const validation = validateSubmissionData(form.schema, fields);
+            if (!validation.valid) {
+                countStats(c, form.id, { rejected: 'validation' });
+                return reply(
+                    {
+                        success: false,
+                        error: 'Validation failed',
+                        fieldErrors: validation.errors,
+                    },
+                    422
+                );
+            }
+            fields = validation.data;
+        }
+
+        // Check uploaded files against the form's limits
+        if (request.files.length > 0) {
+            if (!form.uploads) {
+                countStats(c, form.id, { rejected: 'validation' });
+                return reply(
+                    { success: false, error: 'File uploads are not enabled for this form' },
+                    400
+                );
+            }
+
+            if (!c.env.UPLOADS) {
+                return reply(
+                    { success: false, error: 'File storage not configured' },
+                    500
+                );
+            }
+
+            const uploadErrors = validateUploads(form.uploads, request.files);
+            if (Object.keys(uploadErrors).length > 0) {
+                countStats(c, form.id, { rejected: 'validation' });
+                return reply(
+                    {
+                        success: false,
+                        error: 'Validation failed',
+                        fieldErrors: uploadErrors,
+                    },
+                    422
+                );
+            }
+        }
+
+        // Double opt-in needs an address to send the confirmation link to
+        if (form.doubleOptIn) {
+            if (!getOptInEmail(form.doubleOptIn, fields)) {
+                countStats(c, form.id, { rejected: 'validation' });
+                return reply(
+                    {
+                        success: false,
+                        error: 'Validation failed',
+                        fieldErrors: { [form.doubleOptIn.emailField]: ['A valid email address is required'] },
+                    },
+                    422
+                );
+            }
+
+            if (!c.env.CONFIRMATION_SECRET) {
+                return reply(
+                    { success: false, error: 'Double opt-in is not configured' },
+                    500
+                );
+            }
+        }
+
+        // Verify the CAPTCHA token with the form's provider
+        const captchaResult = await verifier.verify(captchaToken, {
+            form,
+            remoteIP: clientIP,
+            hostname: requestHostname(c.req.header('origin') || c.req.header('referer')),
+            env: c.env,
+        });
+
+        // The provider being unreachable isn't the visitor's fault, so let them retry
+        if (captchaResult.unavailable) {
+            return reply(
+                { success: false, error: `${verifier.label} verification unavailable, please try again` },
+                503
+            );
+        }
+
+        if (!captchaResult.success) {
+            countStats(c, form.id, { rejected: 'captcha' });
+            return reply(
                 {
                     success: false,
-                    error: 'Turnstile verification failed',
-                    details: turnstileResult.errors,
+                    error: `${verifier.label} verification failed`,
+                    details: captchaResult.errors,
                 },
                 403
             );
         }
 
+        // Other providers' scores mean different things, so only Turnstile's feed spam scoring and stats
+        const turnstileScore = captchaResult.details?.provider === 'turnstile' ? captchaResult.score : undefined;
+
+        // Score content after the CAPTCHA. Spam is stored but quarantined, and the
+        // visitor gets the normal success response either way.
+        const spam = form.spam
+            ? scoreSubmission(form.spam, fields, {
+                honeypot,
+                startedAt: request.startedAt,
+                turnstileScore,
+            })
+            : undefined;
+
+        // Upload files to R2
+        const submissionId = nanoid();
+        if (request.files.length > 0 && c.env.UPLOADS) {
+            const references = await storeUploads(c.env.UPLOADS, formId, submissionId, request.files);
+            fields = { ...fields, ...references };
+            unstoredUploads = { formId, submissionId, references };
+        }
+
         // Prepare submission data
-        const submissionData = {
+        const submission: StoredSubmission = {
+            id: submissionId,
             formId,
-            data,
+            data: fields,
             metadata: {
                 ip: clientIP,
                 userAgent: c.req.header('user-agent') || 'unknown',
                 timestamp: new Date().toISOString(),
-                turnstileScore: turnstileResult.score,
+                turnstileScore,
+                captcha: captchaResult.details,
+                spam,
+                optIn: form.doubleOptIn && pendingOptIn(form.doubleOptIn),
+            },
+            workflow: {
+                ...defaultWorkflow(),
+                status: spam?.quarantined ? 'spam' : 'new',
             },
         };
 
         // Store submission
-        const submissionId = await storeSubmission(
-            submissionData,
+        await storeSubmission(
+            submission,
             c.env.FORM_SUBMISSIONS,
             c.env.DB,
+            submissionId,
         );
+        unstoredUploads = undefined;
 
-        // Send email notification (if configured)
-        const emailConfig: EmailConfig = {
-            provider: (c.env.EMAIL_PROVIDER?.toLowerCase() as any) || 'none',
-            apiKey: c.env.EMAIL_API_KEY || '',
-            from: c.env.EMAIL_FROM || '',
-            to: c.env.EMAIL_TO || '',
-            mailgunDomain: c.env.MAILGUN_DOMAIN,
-            mailtrapInboxId: c.env.MAILTRAP_INBOX_ID,
+        // From here on, repeats replay this response rather than submitting again
+        const outcome = {
+            success: true,
+            submissionId,
+            message: form.doubleOptIn && c.env.CONFIRMATION_SECRET
+                ? 'Please check your email to confirm your submission'
+                : 'Form submitted successfully',
         };
+        if (idempotency) {
+            await completeIdempotentRequest(c.env.FORM_SUBMISSIONS, c.env.DB, idempotency, outcome);
+            idempotency = undefined;
+        }
 
-        if (emailConfig.provider !== 'none') {
-            const emailPromise = sendEmailNotification(emailConfig, {
-                ...submissionData,
-                submissionId,
-            }).catch((error) => {
-                console.error('Email notification failed:', error);
-            });
-            c.executionCtx.waitUntil(emailPromise);
+        countStats(c, form.id, spam?.quarantined
+            ? { rejected: 'spam', turnstileScore }
+            : { referrer: c.req.header('referer'), country: cf?.country, turnstileScore });
+
+        // Quarantined submissions are only announced once marked as not spam,
+        // and double opt-in submissions once the visitor confirms
+        if (form.doubleOptIn && c.env.CONFIRMATION_SECRET) {
+            if (!spam?.quarantined) {
+                const confirmationPromise = sendConfirmationEmail(
+                    c.env,
+                    c.env.CONFIRMATION_SECRET,
+                    form,
+                    submission,
+                    new URL(c.req.url).origin
+                ).then((result) => {
+                    if (!result.success) console.error('Confirmation email failed:', result.error);
+                }).catch((error) => {
+                    console.error('Confirmation email failed:', error);
+                });
+                c.executionCtx.waitUntil(confirmationPromise);
+            }
+
+            return reply(outcome);
         }
 
-        // Send webhook (if configured)
-        if (c.env.WEBHOOK_URL) {
-            const webhookPromise = fetch(c.env.WEBHOOK_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-FormFlare-Event': 'submission',
-                    'X-FormFlare-Signature': c.env.API_KEY || '' // Simple auth if key exists
-                },
-                body: JSON.stringify({
-                    id: submissionId,
-                    ...submissionData,
-                    timestamp: new Date().toISOString()
+        if (!spam?.quarantined) {
+            await dispatchNotifications(
+                c.env,
+                form,
+                submission,
+                new URL(c.req.url).origin,
+                (promise) => c.executionCtx.waitUntil(promise)
+            );
+        }
+
+        return reply(outcome);
+    } catch (error) {
+        console.error('Error processing form submission:', error);
+        if (idempotency) releaseIdempotency(c, idempotency);
+
+        // Files uploaded for a submission that was never stored would be left with nothing pointing to them
+        if (unstoredUploads && c.env.UPLOADS) {
+            c.executionCtx.waitUntil(
+                deleteUploads(
+                    c.env.UPLOADS,
+                    unstoredUploads.formId,
+                    unstoredUploads.submissionId,
+                    unstoredUploads.references
+                ).catch((cleanupError) => {
+                    console.error('Error deleting uploads of unstored submission:', cleanupError);
                 })
-            }).then(res => {
-                if (!res.ok) console.error(`Webhook failed: ${res.status} ${res.statusText}`);
-            }).catch(err => {
-                console.error('Webhook error:', err);
-            });
+            );
+        }
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Confirm a double opt-in submission from the link in the confirmation email
+app.get('/confirm/:token', async (c) => {
+    try {
+        const secret = c.env.CONFIRMATION_SECRET;
+        const token = secret && await verifyConfirmationToken(secret, c.req.param('token'));
+        if (!token) {
+            return c.html(confirmationPage('Invalid link', 'This confirmation link is not valid.'), 404);
+        }
+
+        const submission = await getSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, token.submissionId);
+        const form = submission && await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, submission.formId);
+        const optIn = submission?.metadata.optIn;
 
-            c.executionCtx.waitUntil(webhookPromise);
+        if (!submission || !form || !optIn || (optIn.status === 'pending' && token.expired)) {
+            if (form?.doubleOptIn?.expiredUrl) {
+                return c.redirect(form.doubleOptIn.expiredUrl, 303);
+            }
+            return c.html(confirmationPage('Link expired', 'This confirmation link has expired. Please submit the form again.'), 410);
+        }
+
+        // Following the link again is harmless; notifications are only sent the first time
+        if (optIn.status === 'pending') {
+            const confirmed: StoredSubmission = {
+                ...submission,
+                metadata: {
+                    ...submission.metadata,
+                    optIn: {
+                        ...optIn,
+                        status: 'confirmed',
+                        confirmedAt: new Date().toISOString(),
+                        confirmedIp: c.req.header('cf-connecting-ip') || 'unknown',
+                    },
+                },
+            };
+            await updateSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, confirmed);
+
+            if (!confirmed.metadata.spam?.quarantined) {
+                await dispatchNotifications(
+                    c.env,
+                    form,
+                    confirmed,
+                    new URL(c.req.url).origin,
+                    (promise) => c.executionCtx.waitUntil(promise)
+                );
+            }
+        }
+
+        if (form.doubleOptIn?.confirmedUrl) {
+            return c.redirect(form.doubleOptIn.confirmedUrl, 303);
+        }
+        return c.html(confirmationPage('Thank you', 'Your submission has been confirmed.'));
+    } catch (error) {
+        console.error('Error confirming submission:', error);
+        return c.html(confirmationPage('Something went wrong', 'Please try again later.'), 500);
+    }
+});
+
+// Issue an ALTCHA challenge for the widget on a form to solve
+app.get('/altcha/challenge/:formId', async (c) => {
+    try {
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, c.req.param('formId'));
+        if (!form || !form.enabled) {
+            return c.json({ success: false, error: 'Form not found' }, 404);
+        }
+        if (form.captcha?.provider !== 'altcha') {
+            return c.json({ success: false, error: 'Form does not use ALTCHA' }, 400);
+        }
+
+        const hmacKey = altchaKey(form, c.env);
+        if (!hmacKey) {
+            console.error('ALTCHA challenge requested but ALTCHA_HMAC_KEY is not set');
+            return c.json({ success: false, error: 'ALTCHA is not configured' }, 503);
+        }
+
+        // Every challenge is different, so none may be cached
+        c.header('Cache-Control', 'no-store');
+        return c.json(await createAltchaChallenge(form, hmacKey));
+    } catch (error) {
+        console.error('Error creating ALTCHA challenge:', error);
+        return c.json({ success: false, error: 'Internal server error' }, 500);
+    }
+});
+
+// Submission and rejection counts for every form (requires authentication)
+app.get('/stats', requireAuth('submissions:read'), async (c) => {
+    try {
+        const principal = c.get('principal')!;
+        const { range, error } = parseStatsRange(c.req.query('from'), c.req.query('to'));
+        if (!range) {
+            return c.json({ success: false, error }, 400);
         }
 
+        const forms = (await listForms(c.env.FORM_SUBMISSIONS, c.env.DB))
+            .filter(form => canAccessForm(principal, form.id));
+
         return c.json({
             success: true,
-            submissionId,
-            message: 'Form submitted successfully',
+            range,
+            // Rejections before a form is known span every form, so they are only shown to unrestricted keys
+            global: principal.formIds ? undefined : await getFormStats(c.env.FORM_SUBMISSIONS, c.env.DB, GLOBAL_STATS, range),
+            forms: await Promise.all(forms.map(form => getFormStats(c.env.FORM_SUBMISSIONS, c.env.DB, form.id, range))),
         });
     } catch (error) {
-        console.error('Error processing form submission:', error);
+        console.error('Error getting stats:', error);
         return c.json(
             {
                 success: false,
@@ -203,39 +818,83 @@ app.post('/submit', async (c) => {
     }
 });
 
-// Get all submissions for a form (requires authentication)
-app.get('/submissions/:formId', async (c) => {
+// Submission and rejection counts for a form (requires authentication)
+app.get('/stats/:formId', requireAuth('submissions:read'), async (c) => {
     try {
-        // Authentication
-        const apiKey = c.env.API_KEY;
-        if (!apiKey) {
-            return c.json({ success: false, error: 'API key not configured' }, 500);
+        const formId = c.req.param('formId');
+        const { range, error } = parseStatsRange(c.req.query('from'), c.req.query('to'));
+        if (!range) {
+            return c.json({ success: false, error }, 400);
         }
 
-        const authHeader = c.req.header('authorization');
-        if (!authHeader || !authHeader.startsWith('Bearer ') || authHeader.split(' ')[1] !== apiKey) {
-            return c.json({ success: false, error: 'Unauthorized' }, 401);
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, formId);
+        if (!form) {
+            return c.json({ success: false, error: 'Form not found' }, 404);
         }
 
+        return c.json({
+            success: true,
+            range,
+            stats: await getFormStats(c.env.FORM_SUBMISSIONS, c.env.DB, form.id, range),
+        });
+    } catch (error) {
+        console.error('Error getting stats:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Get all submissions for a form (requires authentication)
+app.get('/submissions/:formId', requireAuth('submissions:read'), async (c) => {
+    try {
         const formId = c.req.param('formId');
-        const limit = parseInt(c.req.query('limit') || '100');
-        const offset = parseInt(c.req.query('offset') || '0');
+        const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '100') || 100, 1), MAX_PAGE_SIZE);
+        const cursor = c.req.query('cursor');
 
-        const submissions = await getSubmissions(
-            c.env.FORM_SUBMISSIONS,
-            c.env.DB,
-            formId,
+        if (cursor && !isValidCursor(cursor, c.env.DB)) {
+            return c.json({ success: false, error: 'Invalid cursor' }, 400);
+        }
+
+        const { filter, error } = parseSubmissionFilter(c.req.query());
+        if (!filter) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        // Quarantined spam and unconfirmed opt-ins are only listed when asked for
+        if (c.req.query('quarantined') === undefined) {
+            filter.quarantined = false;
+        }
+        if (c.req.query('pending') === undefined) {
+            filter.pending = false;
+        }
+
+        const page = await getSubmissions(c.env.FORM_SUBMISSIONS, c.env.DB, formId, {
             limit,
-            offset
-        );
+            cursor,
+            filter,
+        });
+
+        let next: string | null = null;
+        if (page.nextCursor) {
+            const url = new URL(c.req.url);
+            url.searchParams.set('cursor', page.nextCursor);
+            next = url.toString();
+        }
 
         return c.json({
             success: true,
             formId,
-            submissions,
+            submissions: page.submissions,
             pagination: {
                 limit,
-                offset,
+                total: page.total,
+                nextCursor: page.nextCursor,
+                next,
             },
         });
     } catch (error) {
@@ -250,40 +909,60 @@ app.get('/submissions/:formId', async (c) => {
     }
 });
 
-// Get a specific submission (requires authentication)
-app.get('/submission/:id', async (c) => {
+// Apply the same workflow update to several submissions of a form (requires authentication)
+app.patch('/submissions/:formId', requireAuth('submissions:write'), async (c) => {
     try {
-        // Authentication
-        const apiKey = c.env.API_KEY;
-        if (!apiKey) {
-            return c.json({ success: false, error: 'API key not configured' }, 500);
+        const body = await c.req.json();
+        const ids = body?.ids;
+
+        if (
+            !Array.isArray(ids) ||
+            ids.length === 0 ||
+            ids.length > MAX_BULK_UPDATE ||
+            !ids.every((id: any) => typeof id === 'string')
+        ) {
+            return c.json(
+                { success: false, error: `ids must be a list of 1-${MAX_BULK_UPDATE} submission IDs` },
+                400
+            );
         }
 
-        const authHeader = c.req.header('authorization');
-        if (!authHeader || !authHeader.startsWith('Bearer ') || authHeader.split(' ')[1] !== apiKey) {
-            return c.json({ success: false, error: 'Unauthorized' }, 401);
+        const { update, error } = parseWorkflowUpdate(body);
+        if (!update) {
+            return c.json({ success: false, error }, 400);
         }
 
-        const submissionId = c.req.param('id');
-        const submission = await getSubmission(
-            c.env.FORM_SUBMISSIONS,
-            c.env.DB,
-            submissionId
-        );
+        const formId = c.req.param('formId');
+        const author = c.get('principal')!.label;
+        const updated: string[] = [];
+        const notFound: string[] = [];
+        const errors: Record<string, string> = {};
 
-        if (!submission) {
-            return c.json(
-                { success: false, error: 'Submission not found' },
-                404
-            );
+        for (const id of new Set<string>(ids)) {
+            const submission = await getSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, id);
+            if (!submission || submission.formId !== formId) {
+                notFound.push(id);
+                continue;
+            }
+
+            const { workflow, error: updateError } = applyWorkflowUpdate(submission.workflow, update, author);
+            if (!workflow) {
+                errors[id] = updateError!;
+                continue;
+            }
+
+            await updateSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, { ...submission, workflow });
+            updated.push(id);
         }
 
         return c.json({
             success: true,
-            submission,
+            updated,
+            notFound,
+            errors,
         });
     } catch (error) {
-        console.error('Error fetching submission:', error);
+        console.error('Error updating submissions:', error);
         return c.json(
             {
                 success: false,
@@ -294,74 +973,1218 @@ app.get('/submission/:id', async (c) => {
     }
 });
 
-// Test email configuration (requires authentication)
-app.post('/email-test', async (c) => {
+// Erase submissions matching field filters, for one form or every form (requires authentication)
+app.delete('/submissions/:formId?', requireAuth('submissions:delete'), async (c) => {
     try {
-        // Authentication
-        const apiKey = c.env.API_KEY;
-        if (!apiKey) {
-            return c.json({ success: false, error: 'API key not configured' }, 500);
+        const { filter, error } = parseSubmissionFilter(c.req.query());
+        if (!filter) {
+            return c.json({ success: false, error }, 400);
         }
 
-        const authHeader = c.req.header('authorization');
-        if (!authHeader || !authHeader.startsWith('Bearer ') || authHeader.split(' ')[1] !== apiKey) {
-            return c.json({ success: false, error: 'Unauthorized' }, 401);
+        // Never wipe a whole form by accident
+        if (!filter.equals && !filter.contains) {
+            return c.json(
+                { success: false, error: 'At least one field[name] or contains[name] filter is required' },
+                400
+            );
         }
 
-        // Create dummy submission data
-        const submissionData = {
-            formId: 'test-email-form',
-            submissionId: 'test-' + Date.now(),
-            data: {
+        // Without a form, deleted forms whose submissions were kept are erased too
+        const formId = c.req.param('formId');
+        const formIds = formId
+            ? [formId]
+            : [...new Set([
+                ...(await listForms(c.env.FORM_SUBMISSIONS, c.env.DB)).map(form => form.id),
+                ...await listSubmissionFormIds(c.env.FORM_SUBMISSIONS, c.env.DB),
+            ])].filter(id => canAccessForm(c.get('principal')!, id));
+
+        let deleted = 0;
+        for (const id of formIds) {
+            deleted += await eraseMatchingSubmissions(c.env.FORM_SUBMISSIONS, c.env.DB, c.env.UPLOADS, id, filter);
+        }
+
+        return c.json({
+            success: true,
+            deleted,
+        });
+    } catch (error) {
+        console.error('Error erasing submissions:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Export all submissions for a form as CSV, NDJSON or XLSX (requires authentication)
+app.get('/submissions/:formId/export', requireAuth('submissions:export'), async (c) => {
+    try {
+        const formId = c.req.param('formId');
+        const format = (c.req.query('format') || 'csv').toLowerCase();
+
+        if (!isExportFormat(format)) {
+            return c.json(
+                { success: false, error: 'Format must be one of csv, ndjson, xlsx' },
+                400
+            );
+        }
+
+        const { range, error } = parseDateRange(c.req.query('from'), c.req.query('to'));
+        if (!range) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        const stream = exportSubmissions(c.env.FORM_SUBMISSIONS, c.env.DB, formId, {
+            format,
+            includeMetadata: c.req.query('metadata') === 'true',
+            range,
+        });
+
+        const { contentType, extension } = EXPORT_FORMATS[format];
+        return new Response(stream, {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Disposition': `attachment; filename="${formId}-submissions.${extension}"`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting submissions:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Get a specific submission (requires authentication)
+app.get('/submission/:id', requireAuth('submissions:read'), async (c) => {
+    try {
+        const submissionId = c.req.param('id');
+        const submission = await getSubmission(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            submissionId
+        );
+
+        if (!submission || !canAccessForm(c.get('principal')!, submission.formId)) {
+            return c.json(
+                { success: false, error: 'Submission not found' },
+                404
+            );
+        }
+
+        return c.json({
+            success: true,
+            submission,
+        });
+    } catch (error) {
+        console.error('Error fetching submission:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Permanently delete a submission with its files, webhook and notification logs (requires authentication)
+app.delete('/submission/:id', requireAuth('submissions:delete'), async (c) => {
+    try {
+        const submission = await getSubmission(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            c.req.param('id')
+        );
+
+        if (!submission || !canAccessForm(c.get('principal')!, submission.formId)) {
+            return c.json(
+                { success: false, error: 'Submission not found' },
+                404
+            );
+        }
+
+        await eraseSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, c.env.UPLOADS, submission);
+
+        return c.json({
+            success: true,
+            message: 'Submission deleted',
+        });
+    } catch (error) {
+        console.error('Error deleting submission:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Update a submission's workflow state: status, starred, read, tags and notes (requires authentication)
+app.patch('/submission/:id', requireAuth('submissions:write'), async (c) => {
+    try {
+        const { update, error } = parseWorkflowUpdate(await c.req.json());
+        if (!update) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        const principal = c.get('principal')!;
+        const submission = await getSubmission(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            c.req.param('id')
+        );
+
+        if (!submission || !canAccessForm(principal, submission.formId)) {
+            return c.json(
+                { success: false, error: 'Submission not found' },
+                404
+            );
+        }
+
+        const { workflow, error: updateError } = applyWorkflowUpdate(submission.workflow, update, principal.label);
+        if (!workflow) {
+            return c.json({ success: false, error: updateError }, 400);
+        }
+
+        const updated: StoredSubmission = { ...submission, workflow };
+        await updateSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, updated);
+
+        return c.json({
+            success: true,
+            submission: updated,
+        });
+    } catch (error) {
+        console.error('Error updating submission:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Release a quarantined submission and send the notifications it skipped,
+// or the confirmation email when it still awaits double opt-in (requires authentication)
+app.post('/submission/:id/not-spam', requireAuth('submissions:write'), async (c) => {
+    try {
+        const submission = await getSubmission(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            c.req.param('id')
+        );
+
+        if (!submission || !canAccessForm(c.get('principal')!, submission.formId)) {
+            return c.json(
+                { success: false, error: 'Submission not found' },
+                404
+            );
+        }
+
+        const spam = submission.metadata.spam;
+        if (!spam?.quarantined) {
+            return c.json(
+                { success: false, error: 'Submission is not quarantined' },
+                409
+            );
+        }
+
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, submission.formId);
+        const optIn = submission.metadata.optIn;
+        const awaitingOptIn = optIn?.status === 'pending' && !!form?.doubleOptIn;
+
+        const released: StoredSubmission = {
+            ...submission,
+            metadata: {
+                ...submission.metadata,
+                spam: { ...spam, quarantined: false, reviewedAt: new Date().toISOString() },
+                // The confirmation link is valid from the time it is sent
+                optIn: awaitingOptIn ? pendingOptIn(form!.doubleOptIn!) : optIn,
+            },
+            workflow: {
+                ...submission.workflow,
+                status: submission.workflow.status === 'spam' ? 'new' : submission.workflow.status,
+            },
+        };
+        await updateSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, released);
+
+        if (form && awaitingOptIn) {
+            if (c.env.CONFIRMATION_SECRET) {
+                const result = await sendConfirmationEmail(
+                    c.env,
+                    c.env.CONFIRMATION_SECRET,
+                    form,
+                    released,
+                    new URL(c.req.url).origin
+                );
+                if (!result.success) console.error('Confirmation email failed:', result.error);
+            }
+        } else if (form) {
+            await dispatchNotifications(
+                c.env,
+                form,
+                released,
+                new URL(c.req.url).origin,
+                (promise) => c.executionCtx.waitUntil(promise)
+            );
+        }
+
+        return c.json({
+            success: true,
+            submission: released,
+        });
+    } catch (error) {
+        console.error('Error releasing submission:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Download an uploaded file (requires authentication or a signed link)
+app.get('/submission/:id/files/:name', async (c, next) => {
+    if (c.req.query('signature') !== undefined) {
+        const secret = c.env.DOWNLOAD_URL_SECRET;
+        const valid = !!secret && await verifyDownloadSignature(
+            secret,
+            c.req.param('id'),
+            c.req.param('name'),
+            c.req.query('expires'),
+            c.req.query('signature')
+        );
+
+        if (!valid) {
+            return c.json({ success: false, error: 'Invalid or expired download link' }, 403);
+        }
+        return next();
+    }
+
+    return requireAuth('submissions:read')(c, next);
+}, async (c) => {
+    try {
+        if (!c.env.UPLOADS) {
+            return c.json({ success: false, error: 'File storage not configured' }, 500);
+        }
+
+        const submission = await getSubmission(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            c.req.param('id')
+        );
+
+        // Signed links carry no principal, the signature already names the submission
+        const principal = c.get('principal');
+        const visible = submission && (!principal || canAccessForm(principal, submission.formId));
+
+        const name = c.req.param('name');
+        const reference = visible
+            ? getFileReferences(submission.formId, submission.id, submission.data).find(({ file }) => file.name === name)
+            : undefined;
+
+        if (!reference) {
+            return c.json(
+                { success: false, error: 'File not found' },
+                404
+            );
+        }
+
+        const object = await c.env.UPLOADS.get(reference.file.key);
+        if (!object) {
+            return c.json(
+                { success: false, error: 'File not found' },
+                404
+            );
+        }
+
+        return new Response(object.body, {
+            headers: {
+                'Content-Type': reference.file.type,
+                'Content-Length': String(object.size),
+                'Content-Disposition': `attachment; filename="${reference.file.name}"`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error downloading file:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Get the webhook delivery log for a submission (requires authentication)
+app.get('/submission/:id/webhooks', requireAuth('submissions:read'), async (c) => {
+    try {
+        const submissionId = c.req.param('id');
+        const deliveries = await getWebhookDeliveries(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            submissionId
+        );
+
+        return c.json({
+            success: true,
+            submissionId,
+            deliveries: deliveries.filter(delivery => canAccessForm(c.get('principal')!, delivery.formId)),
+        });
+    } catch (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Manually redeliver a webhook (requires authentication)
+app.post('/submission/:id/webhooks/:deliveryId/redeliver', requireAuth('forms:manage'), async (c) => {
+    try {
+        const delivery = await getWebhookDelivery(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            c.req.param('deliveryId')
+        );
+
+        if (
+            !delivery ||
+            delivery.submissionId !== c.req.param('id') ||
+            !canAccessForm(c.get('principal')!, delivery.formId)
+        ) {
+            return c.json(
+                { success: false, error: 'Webhook delivery not found' },
+                404
+            );
+        }
+
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, delivery.formId);
+        const updated = await attemptWebhookDelivery(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            delivery,
+            form?.webhookSecret || c.env.WEBHOOK_SIGNING_SECRET
+        );
+
+        return c.json({
+            success: updated.status === 'succeeded',
+            delivery: updated,
+        });
+    } catch (error) {
+        console.error('Error redelivering webhook:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Get the email notification log for a submission (requires authentication)
+app.get('/submission/:id/notifications', requireAuth('submissions:read'), async (c) => {
+    try {
+        const submissionId = c.req.param('id');
+        const notifications = await getNotificationLog(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            submissionId
+        );
+
+        return c.json({
+            success: true,
+            submissionId,
+            notifications: notifications.filter(notification => canAccessForm(c.get('principal')!, notification.formId)),
+        });
+    } catch (error) {
+        console.error('Error fetching notification log:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Send a submission's email notification again (requires authentication)
+app.post('/submission/:id/notifications/resend', requireAuth('forms:manage'), async (c) => {
+    try {
+        const submission = await getSubmission(
+            c.env.FORM_SUBMISSIONS,
+            c.env.DB,
+            c.req.param('id')
+        );
+
+        if (!submission || !canAccessForm(c.get('principal')!, submission.formId)) {
+            return c.json(
+                { success: false, error: 'Submission not found' },
+                404
+            );
+        }
+
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, submission.formId);
+        if (!form) {
+            return c.json(
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        if (emailConfigFromEnv(c.env).provider === 'none' || form.emailTo.length === 0) {
+            return c.json(
+                { success: false, error: 'Email notifications are not configured for this form' },
+                400
+            );
+        }
+
+        const files = await buildFileLinks(
+            new URL(c.req.url).origin,
+            submission.formId,
+            submission.id,
+            submission.data,
+            c.env.DOWNLOAD_URL_SECRET
+        );
+        const notification = await sendOwnerNotification(c.env, form, submission, files);
+
+        return c.json({
+            success: notification?.status === 'sent',
+            notification,
+        });
+    } catch (error) {
+        console.error('Error resending notification:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Test email configuration (requires authentication)
+app.post('/email-test', requireAuth('email:test'), async (c) => {
+    try {
+        // Create dummy submission data
+        const submissionData = {
+            formId: 'test-email-form',
+            submissionId: 'test-' + Date.now(),
+            data: {
                 message: 'This is a test email from FormFlare.',
                 timestamp: new Date().toISOString(),
                 test: true
             },
-            metadata: {
-                ip: c.req.header('cf-connecting-ip') || 'unknown',
-                userAgent: c.req.header('user-agent') || 'unknown',
-                timestamp: new Date().toISOString(),
+            metadata: {
+                ip: c.req.header('cf-connecting-ip') || 'unknown',
+                userAgent: c.req.header('user-agent') || 'unknown',
+                timestamp: new Date().toISOString(),
+            },
+        };
+
+        // Configure email
+        const emailConfig: EmailConfig = {
+            ...emailConfigFromEnv(c.env),
+            to: c.env.EMAIL_TO || '',
+        };
+
+        // Send email
+        const result = await sendEmailNotification(emailConfig, submissionData);
+
+        if (result.success) {
+            return c.json({
+                success: true,
+                message: 'Test email sent successfully',
+                provider: emailConfig.provider,
+                attempts: result.attempts
+            });
+        } else {
+            return c.json({
+                success: false,
+                error: 'Failed to send test email',
+                details: result.error,
+                attempts: result.attempts
+            }, 500);
+        }
+
+    } catch (error) {
+        console.error('Error sending test email:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                details: error instanceof Error ? error.message : String(error)
+            },
+            500
+        );
+    }
+});
+
+// Test a form's chat channels, or a channel given in the body (requires authentication)
+app.post('/forms/:formId/channel-test', requireAuth('forms:manage'), async (c) => {
+    try {
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, c.req.param('formId'));
+        if (!form) {
+            return c.json(
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        const body = await c.req.json().catch(() => ({}));
+        let channels: ChannelConfig[] = form.channels ?? [];
+        if (body?.channel !== undefined) {
+            const { channel, error } = parseChannelConfig(body.channel);
+            if (!channel) {
+                return c.json({ success: false, error }, 400);
+            }
+            channels = [channel];
+        }
+
+        if (channels.length === 0) {
+            return c.json(
+                { success: false, error: 'Form has no channels configured' },
+                400
+            );
+        }
+
+        const message = {
+            title: `Test message: ${form.name || form.id}`,
+            fields: [
+                ['message', 'This is a test message from FormFlare.'],
+                ['timestamp', new Date().toISOString()],
+            ] as [string, any][],
+            files: [],
+            footer: `test-${Date.now()}`,
+        };
+
+        const results = await Promise.all(channels.map(async (channel) => {
+            const { success, error } = await sendChannelMessage(channel, message, c.env.TELEGRAM_BOT_TOKEN);
+            return { channel: channelLabel(channel), success, error };
+        }));
+
+        if (results.every(result => result.success)) {
+            return c.json({
+                success: true,
+                message: 'Test message sent successfully',
+                results,
+            });
+        } else {
+            return c.json({
+                success: false,
+                error: 'Failed to send test message',
+                results,
+            }, 500);
+        }
+    } catch (error) {
+        console.error('Error sending test message:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// List registered forms (requires authentication)
+app.get('/forms', requireAuth('forms:manage'), async (c) => {
+    try {
+        const forms = await listForms(c.env.FORM_SUBMISSIONS, c.env.DB);
+
+        return c.json({
+            success: true,
+            forms: forms
+                .filter(form => canAccessForm(c.get('principal')!, form.id))
+                .map(redactForm),
+        });
+    } catch (error) {
+        console.error('Error listing forms:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Rate limit configuration and blocked/error counters for monitoring (requires authentication)
+app.get('/rate-limits', requireAuth('forms:manage'), async (c) => {
+    try {
+        const principal = c.get('principal')!;
+        const defaults = rateLimitDefaults(c.env);
+        const forms = (await listForms(c.env.FORM_SUBMISSIONS, c.env.DB))
+            .filter(form => canAccessForm(principal, form.id));
+
+        return c.json({
+            success: true,
+            // Worker-wide counters span every form, so they are only shown to unrestricted keys
+            global: principal.formIds ? undefined : {
+                enabled: c.env.RATE_LIMIT_ENABLED?.toLowerCase() === 'true',
+                requests: parseInt(c.env.RATE_LIMIT_REQUESTS || '10'),
+                windowSeconds: parseInt(c.env.RATE_LIMIT_WINDOW || '60'),
+                algorithm: defaults.algorithm,
+                failMode: defaults.failMode,
+                counters: await getRateLimitCounters(c.env, GLOBAL_COUNTERS),
+            },
+            forms: await Promise.all(forms.map(async form => ({
+                formId: form.id,
+                rateLimit: form.rateLimit ?? null,
+                counters: await getRateLimitCounters(c.env, form.id),
+            }))),
+        });
+    } catch (error) {
+        console.error('Error getting rate limits:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// List access rules with how many submissions each blocked (requires authentication)
+app.get('/access-rules', requireAuth('forms:manage'), async (c) => {
+    try {
+        const principal = c.get('principal')!;
+        // Keys restricted to some forms only see those forms' rules, not global ones
+        const visible = (formId: string | undefined) => formId ? canAccessForm(principal, formId) : !principal.formIds;
+
+        const rules = await listAccessRules(c.env.FORM_SUBMISSIONS, c.env.DB);
+        const counters = await getAccessCounters(c.env.FORM_SUBMISSIONS, c.env.DB);
+
+        return c.json({
+            success: true,
+            rules: rules
+                .filter(rule => visible(rule.formId))
+                .map(rule => ({
+                    ...rule,
+                    blocked: counters[rule.id]?.blocked ?? 0,
+                    lastBlockedAt: counters[rule.id]?.lastBlockedAt ?? null,
+                })),
+            // Visitors blocked for matching none of a layer's allow rules
+            allowlistBlocked: Object.entries(counters)
+                .filter(([key]) => key.startsWith('allowlist:'))
+                .map(([key, counter]) => ({
+                    formId: key === 'allowlist:*' ? null : key.slice('allowlist:'.length),
+                    blocked: counter.blocked,
+                    lastBlockedAt: counter.lastBlockedAt ?? null,
+                }))
+                .filter(entry => visible(entry.formId ?? undefined)),
+        });
+    } catch (error) {
+        console.error('Error listing access rules:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Add an access rule (requires authentication)
+app.post('/access-rules', requireAuth('forms:manage'), async (c) => {
+    try {
+        const principal = c.get('principal')!;
+        const { input, error } = parseAccessRuleInput(await c.req.json());
+        if (!input) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        if (input.formId ? !canAccessForm(principal, input.formId) : principal.formIds) {
+            return c.json(
+                {
+                    success: false,
+                    error: input.formId
+                        ? 'API key is not allowed to access this form'
+                        : 'API key is not allowed to manage global access rules',
+                },
+                403
+            );
+        }
+
+        const rule = await createAccessRule(c.env.FORM_SUBMISSIONS, c.env.DB, input);
+
+        return c.json({ success: true, rule }, 201);
+    } catch (error) {
+        console.error('Error creating access rule:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Remove an access rule (requires authentication)
+app.delete('/access-rules/:id', requireAuth('forms:manage'), async (c) => {
+    try {
+        const principal = c.get('principal')!;
+        const rule = (await listAccessRules(c.env.FORM_SUBMISSIONS, c.env.DB))
+            .find(rule => rule.id === c.req.param('id'));
+
+        if (!rule || (rule.formId ? !canAccessForm(principal, rule.formId) : principal.formIds)) {
+            return c.json({ success: false, error: 'Access rule not found' }, 404);
+        }
+
+        await deleteAccessRule(c.env.FORM_SUBMISSIONS, c.env.DB, rule.id);
+
+        return c.json({ success: true, message: 'Access rule deleted' });
+    } catch (error) {
+        console.error('Error deleting access rule:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Register a new form (requires authentication)
+app.post('/forms', requireAuth('forms:manage'), async (c) => {
+    try {
+        const body = await c.req.json();
+        const formId = body?.id;
+
+        if (typeof formId !== 'string' || !isValidFormId(formId)) {
+            return c.json(
+                { success: false, error: 'Form ID must be 1-64 letters, digits, dashes or underscores' },
+                400
+            );
+        }
+
+        if (!canAccessForm(c.get('principal')!, formId)) {
+            return c.json({ success: false, error: 'API key is not allowed to access this form' }, 403);
+        }
+
+        const { input, error } = parseFormInput(body);
+        if (!input) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        const existing = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, formId);
+        if (existing) {
+            return c.json(
+                { success: false, error: 'Form already exists' },
+                409
+            );
+        }
+
+        const form = createFormConfig(formId, input);
+        await saveForm(c.env.FORM_SUBMISSIONS, c.env.DB, form);
+        if (isDigestEnabled(form)) {
+            await resetDigestWatermark(c.env.FORM_SUBMISSIONS, c.env.DB, form.id);
+        }
+
+        return c.json({
+            success: true,
+            form: redactForm(form),
+        }, 201);
+    } catch (error) {
+        console.error('Error creating form:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Get a form configuration (requires authentication)
+app.get('/forms/:formId', requireAuth('forms:manage'), async (c) => {
+    try {
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, c.req.param('formId'));
+
+        if (!form) {
+            return c.json(
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        return c.json({
+            success: true,
+            form: redactForm(form),
+        });
+    } catch (error) {
+        console.error('Error fetching form:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
             },
-        };
+            500
+        );
+    }
+});
 
-        // Configure email
-        const emailConfig: EmailConfig = {
-            provider: (c.env.EMAIL_PROVIDER?.toLowerCase() as any) || 'none',
-            apiKey: c.env.EMAIL_API_KEY || '',
-            from: c.env.EMAIL_FROM || '',
-            to: c.env.EMAIL_TO || '',
-            mailgunDomain: c.env.MAILGUN_DOMAIN,
-            mailtrapInboxId: c.env.MAILTRAP_INBOX_ID,
+// Update a form configuration (requires authentication)
+app.put('/forms/:formId', requireAuth('forms:manage'), async (c) => {
+    try {
+        const existing = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, c.req.param('formId'));
+
+        if (!existing) {
+            return c.json(
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        const { input, error } = parseFormInput(await c.req.json());
+        if (!input) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        const form = {
+            ...existing,
+            ...input,
+            updatedAt: new Date().toISOString(),
         };
+        await saveForm(c.env.FORM_SUBMISSIONS, c.env.DB, form);
 
-        // Send email
-        const result = await sendEmailNotification(emailConfig, submissionData);
+        // Digests start from when they are turned on
+        if (isDigestEnabled(form) && !isDigestEnabled(existing)) {
+            await resetDigestWatermark(c.env.FORM_SUBMISSIONS, c.env.DB, form.id);
+        }
 
-        if (result.success) {
-            return c.json({
-                success: true,
-                message: 'Test email sent successfully',
-                provider: emailConfig.provider
-            });
-        } else {
-            return c.json({
+        return c.json({
+            success: true,
+            form: redactForm(form),
+        });
+    } catch (error) {
+        console.error('Error updating form:', error);
+        return c.json(
+            {
                 success: false,
-                error: 'Failed to send test email',
-                details: result.error
-            }, 500);
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Render a form's email template, or a draft of it, against a stored submission (requires authentication)
+app.post('/forms/:formId/email-preview', requireAuth('forms:manage'), async (c) => {
+    try {
+        // The preview shows submitted data, so the key must also be able to read it
+        if (!c.get('principal')!.scopes.includes('submissions:read')) {
+            return c.json({ success: false, error: 'API key lacks the submissions:read scope' }, 403);
         }
 
+        const body = await c.req.json();
+        if (typeof body?.submissionId !== 'string') {
+            return c.json({ success: false, error: 'submissionId is required' }, 400);
+        }
+
+        const formId = c.req.param('formId');
+        const form = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, formId);
+        if (!form) {
+            return c.json(
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        let template = form.emailTemplate;
+        if (body.emailTemplate !== undefined && body.emailTemplate !== null) {
+            const { emailTemplate, error } = parseEmailTemplate(body.emailTemplate);
+            if (!emailTemplate) {
+                return c.json({ success: false, error }, 400);
+            }
+            template = emailTemplate;
+        }
+
+        const submission = await getSubmission(c.env.FORM_SUBMISSIONS, c.env.DB, body.submissionId);
+        if (!submission || submission.formId !== formId) {
+            return c.json(
+                { success: false, error: 'Submission not found' },
+                404
+            );
+        }
+
+        const { id: submissionId, ...submissionData } = submission;
+        const files = await buildFileLinks(
+            new URL(c.req.url).origin,
+            submission.formId,
+            submissionId,
+            submission.data,
+            c.env.DOWNLOAD_URL_SECRET
+        );
+
+        return c.json({
+            success: true,
+            ...renderEmail({ ...submissionData, formName: form.name, submissionId, files }, template),
+        });
     } catch (error) {
-        console.error('Error sending test email:', error);
+        console.error('Error previewing email template:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Delete a form configuration (requires authentication)
+app.delete('/forms/:formId', requireAuth('forms:manage'), async (c) => {
+    try {
+        const formId = c.req.param('formId');
+        const existing = await getForm(c.env.FORM_SUBMISSIONS, c.env.DB, formId);
+
+        if (!existing) {
+            return c.json(
+                { success: false, error: 'Form not found' },
+                404
+            );
+        }
+
+        await deleteForm(c.env.FORM_SUBMISSIONS, c.env.DB, formId);
+
+        return c.json({
+            success: true,
+            message: 'Form deleted',
+        });
+    } catch (error) {
+        console.error('Error deleting form:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// List API keys (requires the admin key)
+app.get('/keys', requireAuth('admin'), async (c) => {
+    try {
+        const keys = await listApiKeys(c.env.FORM_SUBMISSIONS, c.env.DB);
+
+        return c.json({
+            success: true,
+            keys: keys.map(redactApiKey),
+        });
+    } catch (error) {
+        console.error('Error listing API keys:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Create an API key (requires the admin key). The key is only shown in this response.
+app.post('/keys', requireAuth('admin'), async (c) => {
+    try {
+        const { input, error } = parseApiKeyInput(await c.req.json());
+        if (!input) {
+            return c.json({ success: false, error }, 400);
+        }
+
+        const { key, record } = await createApiKey(c.env.FORM_SUBMISSIONS, c.env.DB, input);
+
+        return c.json({
+            success: true,
+            key,
+            apiKey: redactApiKey(record),
+        }, 201);
+    } catch (error) {
+        console.error('Error creating API key:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Rotate an API key: issue a new key with the same settings and revoke the old one (requires the admin key)
+app.post('/keys/:keyId/rotate', requireAuth('admin'), async (c) => {
+    try {
+        const existing = await getApiKey(c.env.FORM_SUBMISSIONS, c.env.DB, c.req.param('keyId'));
+        if (!existing) {
+            return c.json(
+                { success: false, error: 'API key not found' },
+                404
+            );
+        }
+
+        if (existing.revokedAt) {
+            return c.json(
+                { success: false, error: 'API key is revoked' },
+                409
+            );
+        }
+
+        const { key, record } = await rotateApiKey(c.env.FORM_SUBMISSIONS, c.env.DB, existing);
+
+        return c.json({
+            success: true,
+            key,
+            apiKey: redactApiKey(record),
+        }, 201);
+    } catch (error) {
+        console.error('Error rotating API key:', error);
+        return c.json(
+            {
+                success: false,
+                error: 'Internal server error',
+            },
+            500
+        );
+    }
+});
+
+// Revoke an API key (requires the admin key)
+app.delete('/keys/:keyId', requireAuth('admin'), async (c) => {
+    try {
+        const existing = await getApiKey(c.env.FORM_SUBMISSIONS, c.env.DB, c.req.param('keyId'));
+        if (!existing) {
+            return c.json(
+                { success: false, error: 'API key not found' },
+                404
+            );
+        }
+
+        const revoked = await revokeApiKey(c.env.FORM_SUBMISSIONS, c.env.DB, existing);
+
+        return c.json({
+            success: true,
+            apiKey: redactApiKey(revoked),
+        });
+    } catch (error) {
+        console.error('Error revoking API key:', error);
         return c.json(
             {
                 success: false,
                 error: 'Internal server error',
-                details: error instanceof Error ? error.message : String(error)
             },
             500
         );
     }
 });
 
-export default app;
+/**
+ * Cron trigger: background jobs that run on a schedule
+ */
+async function scheduled(controller: ScheduledController, env: Bindings): Promise<void> {
+    try {
+        const retried = await retryDueWebhookDeliveries(
+            env.FORM_SUBMISSIONS,
+            env.DB,
+            async (formId) => {
+                const form = await getForm(env.FORM_SUBMISSIONS, env.DB, formId);
+                return form?.webhookSecret || env.WEBHOOK_SIGNING_SECRET;
+            }
+        );
+        if (retried > 0) console.log(`Retried ${retried} webhook deliveries`);
+    } catch (error) {
+        console.error('Webhook retry job failed:', error);
+    }
+
+    try {
+        const forms = await listForms(env.FORM_SUBMISSIONS, env.DB);
+        const { deleted, anonymized, metadataAnonymized } = await enforceRetention(
+            env.FORM_SUBMISSIONS,
+            env.DB,
+            env.UPLOADS,
+            forms
+        );
+        if (deleted + anonymized + metadataAnonymized > 0) {
+            console.log(`Retention: deleted ${deleted}, anonymised ${anonymized}, anonymised metadata of ${metadataAnonymized} submissions`);
+        }
+    } catch (error) {
+        console.error('Retention job failed:', error);
+    }
+
+    try {
+        const forms = await listForms(env.FORM_SUBMISSIONS, env.DB);
+        const sent = await sendDueDigests(env, forms);
+        if (sent > 0) console.log(`Sent ${sent} digest emails`);
+    } catch (error) {
+        console.error('Digest job failed:', error);
+    }
+
+    try {
+        const expired = await deleteExpiredAccessRules(env.FORM_SUBMISSIONS, env.DB);
+        if (expired > 0) console.log(`Deleted ${expired} expired access rules`);
+    } catch (error) {
+        console.error('Access rule expiry job failed:', error);
+    }
+
+    try {
+        const expired = await deleteExpiredIdempotencyKeys(env.DB);
+        if (expired > 0) console.log(`Deleted ${expired} expired idempotency keys`);
+    } catch (error) {
+        console.error('Idempotency key cleanup failed:', error);
+    }
+
+    try {
+        const expired = await deleteExpiredCaptchaReplays(env.DB);
+        if (expired > 0) console.log(`Deleted ${expired} used ALTCHA challenges`);
+    } catch (error) {
+        console.error('ALTCHA replay cleanup failed:', error);
+    }
+
+    try {
+        const forms = await listForms(env.FORM_SUBMISSIONS, env.DB);
+        const expired = await expirePendingSubmissions(env.FORM_SUBMISSIONS, env.DB, env.UPLOADS, forms);
+        if (expired > 0) console.log(`Deleted ${expired} unconfirmed opt-in submissions`);
+    } catch (error) {
+        console.error('Opt-in expiry job failed:', error);
+    }
+}
+
+// Durable Object classes must be exported from the worker's entry point
+export { RateLimiter } from './ratelimit';
+
+export default {
+    fetch: app.fetch,
+    scheduled: (controller: ScheduledController, env: Bindings, ctx: ExecutionContext) => {
+        ctx.waitUntil(scheduled(controller, env));
+    },
+} satisfies ExportedHandler<Bindings>;
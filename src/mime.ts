@@ -0,0 +1,153 @@
+/**
+ * Raw MIME messages, for providers that take a complete email rather than
+ * JSON fields, such as the Cloudflare Email Routing `send_email` binding
+ */
+
+import { nanoid } from 'nanoid';
+import type { EmailAttachment } from './email';
+
+export interface MimeMessage {
+    from: string;
+    to: string[];
+    replyTo?: string;
+    subject: string;
+    text: string;
+    html: string;
+    attachments?: EmailAttachment[];
+}
+
+const CRLF = '\r\n';
+
+// Longest base64 payload of one RFC 2047 encoded word, keeping each word within 75 characters
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Build a multipart/alternative message with text and HTML bodies, wrapped
+ * in multipart/mixed when there are attachments. Bodies are base64 encoded
+ * UTF-8 and headers with non-ASCII text use RFC 2047 encoded words.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+    const domain = parseAddress(message.from).address.split('@')[1] || 'localhost';
+
+    const headers = [
+        `From: ${formatAddress(message.from)}`,
+        `To: ${message.to.map(formatAddress).join(', ')}`,
+        ...(message.replyTo ? [`Reply-To: ${formatAddress(message.replyTo)}`] : []),
+        `Subject: ${encodeHeaderValue(message.subject)}`,
+        `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+        `Message-ID: <${nanoid()}@${domain}>`,
+        'MIME-Version: 1.0',
+    ];
+
+    const alternative = multipart('alternative', [
+        bodyPart('text/plain; charset=utf-8', new TextEncoder().encode(message.text)),
+        bodyPart('text/html; charset=utf-8', new TextEncoder().encode(message.html)),
+    ]);
+
+    const body = message.attachments?.length
+        ? multipart('mixed', [alternative, ...message.attachments.map(attachmentPart)])
+        : alternative;
+
+    return headers.join(CRLF) + CRLF + body + CRLF;
+}
+
+/**
+ * Split `Name <address>` into its parts. A bare address has no name.
+ */
+export function parseAddress(value: string): { name?: string; address: string } {
+    const clean = stripLineBreaks(value).trim();
+    const match = clean.match(/^(.*?)\s*<([^<>]+)>$/);
+    if (!match) return { address: clean };
+
+    const name = match[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1');
+    return { name: name || undefined, address: match[2].trim() };
+}
+
+/**
+ * Encode a header value, using encoded words when it is not printable ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+    const clean = stripLineBreaks(value);
+    if (/^[\x20-\x7e]*$/.test(clean) && clean.length <= 900) return clean;
+
+    // Split on character boundaries so no UTF-8 sequence spans two words
+    const words: string[] = [];
+    let chunk: number[] = [];
+    for (const char of clean) {
+        const bytes = new TextEncoder().encode(char);
+        if (chunk.length + bytes.length > ENCODED_WORD_BYTES) {
+            words.push(encodedWord(chunk));
+            chunk = [];
+        }
+        chunk.push(...bytes);
+    }
+    if (chunk.length > 0) words.push(encodedWord(chunk));
+
+    return words.join(`${CRLF} `);
+}
+
+function formatAddress(value: string): string {
+    const { name, address } = parseAddress(value);
+    if (!name) return address;
+
+    if (!/^[\x20-\x7e]*$/.test(name)) return `${encodeHeaderValue(name)} <${address}>`;
+    if (/[()<>[\]:;@\\,."]/.test(name)) return `"${name.replace(/["\\]/g, '\\$&')}" <${address}>`;
+    return `${name} <${address}>`;
+}
+
+function encodedWord(bytes: number[]): string {
+    return `=?UTF-8?B?${toBase64(new Uint8Array(bytes))}?=`;
+}
+
+function multipart(subtype: 'alternative' | 'mixed', parts: string[]): string {
+    const boundary = `=_${nanoid(24)}`;
+    return [
+        `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+        '',
+        ...parts.map(part => `--${boundary}${CRLF}${part}`),
+        `--${boundary}--`,
+    ].join(CRLF);
+}
+
+function bodyPart(contentType: string, content: Uint8Array, extraHeaders: string[] = []): string {
+    return [
+        `Content-Type: ${contentType}`,
+        ...extraHeaders,
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrap(toBase64(content)),
+    ].join(CRLF);
+}
+
+function attachmentPart(attachment: EmailAttachment): string {
+    const filename = stripLineBreaks(attachment.filename);
+    const type = stripLineBreaks(attachment.contentType) || 'application/octet-stream';
+
+    // Plain names are quoted, others use RFC 2231 so clients show the original name
+    const plain = /^[\x20-\x7e]*$/.test(filename) && !/["\\]/.test(filename);
+    const encoded = `UTF-8''${encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+    const name = plain ? `name="${filename}"` : `name*=${encoded}`;
+    const disposition = plain ? `filename="${filename}"` : `filename*=${encoded}`;
+
+    return bodyPart(`${type}; ${name}`, attachment.content, [`Content-Disposition: attachment; ${disposition}`]);
+}
+
+/**
+ * Base64 encode bytes, as used for attachments by JSON email APIs too
+ */
+export function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function wrap(text: string): string {
+    return text.match(/.{1,76}/g)?.join(CRLF) ?? '';
+}
+
+// Line breaks in header values would start new headers
+function stripLineBreaks(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
@@ -0,0 +1,143 @@
+/**
+ * Notification log: every email and chat channel post sent for a submission, with each attempt
+ */
+
+import { nanoid } from 'nanoid';
+import type { EmailAttempt, EmailResult } from './email';
+import type { ChannelAttempt, ChannelResult } from './channels';
+
+export type NotificationType = 'notification' | 'auto-reply' | 'confirmation' | 'channel';
+
+export interface NotificationRecord {
+    id: string;
+    submissionId: string;
+    formId: string;
+    type: NotificationType;
+    to: string; // email address, or the channel label for channel posts
+    status: 'sent' | 'failed';
+    error?: string;
+    attempts: (EmailAttempt | ChannelAttempt)[];
+    createdAt: string;
+}
+
+/**
+ * Record the outcome of sending an email or posting to a channel for a submission.
+ * Emails that were never attempted, such as when no provider is configured, are not recorded.
+ */
+export async function recordNotification(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    notification: Pick<NotificationRecord, 'submissionId' | 'formId' | 'type' | 'to'>,
+    result: EmailResult | ChannelResult
+): Promise<NotificationRecord | null> {
+    if (result.attempts.length === 0 && result.success) return null;
+
+    const record: NotificationRecord = {
+        id: nanoid(),
+        ...notification,
+        status: result.success ? 'sent' : 'failed',
+        error: result.success ? undefined : result.error,
+        attempts: result.attempts,
+        createdAt: new Date().toISOString(),
+    };
+
+    if (!result.success) {
+        const what = notification.type === 'channel' ? `${notification.to} post` : `${notification.type} email`;
+        console.error(`${what} for submission ${notification.submissionId} failed: ${result.error}`);
+    }
+
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO notification_log
+           (id, submission_id, form_id, type, recipient, status, error, attempts, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(
+                record.id,
+                record.submissionId,
+                record.formId,
+                record.type,
+                record.to,
+                record.status,
+                record.error ?? null,
+                JSON.stringify(record.attempts),
+                record.createdAt
+            )
+            .run();
+    } else if (kv) {
+        // One key per record, so emails sent in parallel don't overwrite each other
+        await kv.put(`notification:${record.submissionId}:${record.id}`, JSON.stringify(record));
+    }
+
+    return record;
+}
+
+/**
+ * Get the notification log for a submission, oldest first
+ */
+export async function getNotificationLog(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    submissionId: string
+): Promise<NotificationRecord[]> {
+    if (db) {
+        const result = await db
+            .prepare(
+                `SELECT * FROM notification_log
+         WHERE submission_id = ?
+         ORDER BY created_at`
+            )
+            .bind(submissionId)
+            .all();
+
+        return result.results.map(rowToRecord);
+    } else if (kv) {
+        const list = await kv.list({ prefix: `notification:${submissionId}:` });
+        const records: NotificationRecord[] = [];
+
+        for (const key of list.keys) {
+            const record = await kv.get(key.name, 'json') as NotificationRecord | null;
+            if (record) records.push(record);
+        }
+
+        return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    return [];
+}
+
+/**
+ * Delete the notification log for a submission
+ */
+export async function deleteNotificationLog(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    submissionId: string
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare('DELETE FROM notification_log WHERE submission_id = ?')
+            .bind(submissionId)
+            .run();
+    } else if (kv) {
+        const list = await kv.list({ prefix: `notification:${submissionId}:` });
+        for (const key of list.keys) {
+            await kv.delete(key.name);
+        }
+    }
+}
+
+function rowToRecord(row: any): NotificationRecord {
+    return {
+        id: row.id,
+        submissionId: row.submission_id,
+        formId: row.form_id,
+        type: row.type,
+        to: row.recipient,
+        status: row.status,
+        error: row.error ?? undefined,
+        attempts: JSON.parse(row.attempts),
+        createdAt: row.created_at,
+    };
+}
@@ -0,0 +1,232 @@
+/**
+ * Notifications sent for an accepted submission: owner email, auto-reply, webhook and chat channels
+ */
+
+import type { FormConfig } from './forms';
+import type { StoredSubmission } from './storage';
+import { buildFileLinks, loadEmailAttachments, type FileLink } from './files';
+import { sendEmailNotification, type EmailConfig, type EmailProvider } from './email';
+import { recordNotification, type NotificationRecord } from './notificationlog';
+import { createWebhookDelivery, attemptWebhookDelivery } from './webhooks';
+import { getSubmitterEmail, autoReplyTemplate, takeAutoReplySlot } from './autoreply';
+import { isEmailedImmediately } from './digest';
+import { submissionMessage, sendChannelMessage, channelLabel } from './channels';
+
+export interface NotificationEnv {
+    FORM_SUBMISSIONS?: KVNamespace;
+    DB?: D1Database;
+    UPLOADS?: R2Bucket;
+    EMAIL_PROVIDER: string; // one provider, or several separated by commas to fail over in order
+    EMAIL_API_KEY: string;
+    RESEND_API_KEY?: string;
+    SENDGRID_API_KEY?: string;
+    MAILGUN_API_KEY?: string;
+    MAILTRAP_API_KEY?: string;
+    MAILCHANNELS_API_KEY?: string;
+    SEND_EMAIL?: SendEmail; // Cloudflare Email Routing binding
+    EMAIL_FROM: string;
+    MAILGUN_DOMAIN?: string;
+    MAILTRAP_INBOX_ID?: string;
+    DOWNLOAD_URL_SECRET?: string;
+    WEBHOOK_SIGNING_SECRET?: string;
+    TELEGRAM_BOT_TOKEN?: string;
+    PUBLIC_URL?: string; // the worker's URL, for links to the admin dashboard
+}
+
+/**
+ * The worker's email provider settings, without recipients. Each provider
+ * uses its own API key variable when set, such as `MAILGUN_API_KEY`, and
+ * `EMAIL_API_KEY` otherwise.
+ */
+export function emailConfigFromEnv(env: NotificationEnv): Omit<EmailConfig, 'to'> {
+    const names = (env.EMAIL_PROVIDER || '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name && name !== 'none');
+
+    const providers = names.map(name => ({
+        provider: name as EmailProvider,
+        apiKey: providerApiKey(env, name as EmailProvider) || env.EMAIL_API_KEY || '',
+    }));
+
+    return {
+        provider: providers[0]?.provider || 'none',
+        apiKey: providers[0]?.apiKey || '',
+        fallbacks: providers.slice(1),
+        from: env.EMAIL_FROM || '',
+        mailgunDomain: env.MAILGUN_DOMAIN,
+        mailtrapInboxId: env.MAILTRAP_INBOX_ID,
+        emailBinding: env.SEND_EMAIL,
+    };
+}
+
+function providerApiKey(env: NotificationEnv, provider: EmailProvider): string | undefined {
+    switch (provider) {
+        case 'resend':
+            return env.RESEND_API_KEY;
+        case 'sendgrid':
+            return env.SENDGRID_API_KEY;
+        case 'mailgun':
+            return env.MAILGUN_API_KEY;
+        case 'mailtrap':
+            return env.MAILTRAP_API_KEY;
+        case 'mailchannels':
+            return env.MAILCHANNELS_API_KEY;
+        case 'cloudflare':
+            return undefined;
+    }
+}
+
+/**
+ * Email a submission to the form's recipients, replying to the visitor,
+ * and record the outcome in the notification log. Uploaded files are
+ * attached when the form asks for it.
+ * Returns null when no provider or recipients are configured.
+ */
+export async function sendOwnerNotification(
+    env: NotificationEnv,
+    form: FormConfig,
+    submission: StoredSubmission,
+    files: FileLink[]
+): Promise<NotificationRecord | null> {
+    const { id: submissionId, ...submissionData } = submission;
+    const to = form.emailTo.join(',');
+
+    const result = await sendEmailNotification({
+        ...emailConfigFromEnv(env),
+        to,
+        template: form.emailTemplate,
+        replyTo: getSubmitterEmail(form, submission.data),
+        attachments: form.uploads?.attachToEmail && env.UPLOADS
+            ? await loadEmailAttachments(env.UPLOADS, submission.formId, submissionId, submission.data)
+            : undefined,
+    }, {
+        ...submissionData,
+        formName: form.name,
+        submissionId,
+        files,
+    });
+
+    return recordNotification(env.FORM_SUBMISSIONS, env.DB, {
+        submissionId,
+        formId: form.id,
+        type: 'notification',
+        to,
+    }, result);
+}
+
+/**
+ * Send a submission's email notification, auto-reply, webhook and chat messages.
+ * Forms with digests leave the email notification to the next digest.
+ * Everything happens in the background through `waitUntil`, each step on its
+ * own, so a failing step is logged without affecting the response or the
+ * other notifications. Failed webhooks are retried by the cron trigger.
+ */
+export async function dispatchNotifications(
+    env: NotificationEnv,
+    form: FormConfig,
+    submission: StoredSubmission,
+    baseUrl: string,
+    waitUntil: (promise: Promise<unknown>) => void
+): Promise<void> {
+    const { id: submissionId, ...submissionData } = submission;
+
+    const filesPromise = buildFileLinks(
+        baseUrl,
+        submission.formId,
+        submissionId,
+        submission.data,
+        env.DOWNLOAD_URL_SECRET
+    );
+    filesPromise.catch(() => {}); // reported by the steps that use the links
+
+    const submitterEmail = getSubmitterEmail(form, submission.data);
+    const emailConfig = emailConfigFromEnv(env);
+
+    // Send email notification (if configured)
+    if (emailConfig.provider !== 'none') {
+        const emailPromise = (async () => {
+            if (!await isEmailedImmediately(env.FORM_SUBMISSIONS, env.DB, form, submission)) return;
+            await sendOwnerNotification(env, form, submission, await filesPromise);
+        })().catch((error) => {
+            console.error('Email notification failed:', error);
+        });
+        waitUntil(emailPromise);
+    }
+
+    // Confirm receipt to the visitor (if configured)
+    const autoReply = form.autoReply;
+    if (autoReply && submitterEmail && emailConfig.provider !== 'none') {
+        const autoReplyPromise = (async () => {
+            if (!await takeAutoReplySlot(env.FORM_SUBMISSIONS, env.DB, autoReply, submitterEmail)) {
+                console.warn(`Auto-reply for submission ${submissionId} skipped: address throttled`);
+                return;
+            }
+
+            const result = await sendEmailNotification({
+                ...emailConfig,
+                from: autoReply.from || emailConfig.from,
+                to: submitterEmail,
+                template: autoReplyTemplate(autoReply),
+                replyTo: autoReply.replyTo,
+            }, { ...submissionData, formName: form.name, submissionId, files: await filesPromise });
+
+            await recordNotification(env.FORM_SUBMISSIONS, env.DB, {
+                submissionId,
+                formId: form.id,
+                type: 'auto-reply',
+                to: submitterEmail,
+            }, result);
+        })().catch((error) => {
+            console.error('Auto-reply failed:', error);
+        });
+        waitUntil(autoReplyPromise);
+    }
+
+    // Send webhook (if configured)
+    const webhookUrl = form.webhookUrl;
+    if (webhookUrl) {
+        const webhookPromise = (async () => {
+            const delivery = await createWebhookDelivery(env.FORM_SUBMISSIONS, env.DB, {
+                submissionId,
+                formId: form.id,
+                url: webhookUrl,
+                payload: JSON.stringify({
+                    id: submissionId,
+                    ...submissionData,
+                    files: await filesPromise,
+                    timestamp: new Date().toISOString()
+                }),
+            });
+
+            await attemptWebhookDelivery(
+                env.FORM_SUBMISSIONS,
+                env.DB,
+                delivery,
+                form.webhookSecret || env.WEBHOOK_SIGNING_SECRET
+            );
+        })().catch((error) => {
+            console.error('Webhook error:', error);
+        });
+
+        waitUntil(webhookPromise);
+    }
+
+    // Post to chat channels (if configured)
+    for (const channel of form.channels ?? []) {
+        const channelPromise = (async () => {
+            const message = submissionMessage(form, submission, await filesPromise, env.PUBLIC_URL);
+            const result = await sendChannelMessage(channel, message, env.TELEGRAM_BOT_TOKEN);
+
+            await recordNotification(env.FORM_SUBMISSIONS, env.DB, {
+                submissionId,
+                formId: form.id,
+                type: 'channel',
+                to: channelLabel(channel),
+            }, result);
+        })().catch((error) => {
+            console.error(`Channel ${channelLabel(channel)} failed:`, error);
+        });
+        waitUntil(channelPromise);
+    }
+}
@@ -0,0 +1,305 @@
+/**
+ * Double opt-in: submissions of opted-in forms are stored as pending and only
+ * count once the visitor follows a signed, expiring link sent to their address.
+ */
+
+import type { FormConfig } from './forms';
+import { getSubmissions, type StoredSubmission } from './storage';
+import { eraseSubmission } from './retention';
+import { parseEmailTemplate, sendEmailNotification, type EmailTemplate } from './email';
+import { emailConfigFromEnv, type NotificationEnv } from './notifications';
+import { recordNotification } from './notificationlog';
+import { checkRateLimit } from './ratelimit';
+import { hmacSha256Hex, sha256Hex, timingSafeEqual } from './crypto';
+import { escapeHtml } from './templates';
+import { isEmailAddress, isHttpUrl } from './validation';
+
+export interface DoubleOptInConfig {
+    emailField: string; // field holding the address to confirm
+    from?: string; // falls back to EMAIL_FROM
+    template?: EmailTemplate; // `{{confirmUrl}}` is the confirmation link
+    expiresInHours: number; // unconfirmed submissions are deleted after this
+    confirmedUrl?: string; // where visitors land after confirming
+    expiredUrl?: string; // where visitors land when the link has expired
+    maxPerAddress: number; // confirmation emails one address can receive per window
+    windowSeconds: number;
+}
+
+export interface OptInState {
+    status: 'pending' | 'confirmed';
+    expiresAt: string;
+    confirmedAt?: string;
+    confirmedIp?: string;
+}
+
+const DEFAULT_DOUBLE_OPT_IN: DoubleOptInConfig = {
+    emailField: 'email',
+    expiresInHours: 48,
+    maxPerAddress: 3,
+    windowSeconds: 24 * 60 * 60,
+};
+
+const MAX_EXPIRY_HOURS = 30 * 24;
+
+// Pending submissions deleted per form in one cron run
+const EXPIRY_BATCH_SIZE = 100;
+
+const HOUR = 60 * 60 * 1000;
+
+const DEFAULT_TEMPLATE: Required<EmailTemplate> = {
+    subject: 'Please confirm your subscription',
+    html: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Please confirm your subscription</title>
+</head>
+<body style="margin: 0; padding: 40px 20px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; background-color: #f5f5f5;">
+  <table width="600" cellpadding="0" cellspacing="0" align="center" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+    <tr>
+      <td style="padding: 30px; color: #333; font-size: 15px; line-height: 1.6;">
+        <p style="margin: 0 0 24px 0;">Please confirm that you want to subscribe with this email address.</p>
+        <p style="margin: 0 0 24px 0;">
+          <a href="{{confirmUrl}}" style="display: inline-block; padding: 12px 24px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #ffffff; border-radius: 8px; text-decoration: none; font-weight: 600;">Confirm subscription</a>
+        </p>
+        <p style="margin: 0; color: #999; font-size: 12px;">If you did not sign up, ignore this email and you will not be subscribed.</p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`,
+    text: `Please confirm that you want to subscribe with this email address:
+
+{{confirmUrl}}
+
+If you did not sign up, ignore this email and you will not be subscribed.`,
+};
+
+/**
+ * Validate a double opt-in configuration supplied through the forms API
+ */
+export function parseDoubleOptInConfig(value: any): { doubleOptIn?: DoubleOptInConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'doubleOptIn must be an object' };
+    }
+
+    const doubleOptIn: DoubleOptInConfig = { ...DEFAULT_DOUBLE_OPT_IN };
+
+    if (value.emailField !== undefined) {
+        if (typeof value.emailField !== 'string' || !value.emailField) {
+            return { error: 'doubleOptIn.emailField must be a field name' };
+        }
+        doubleOptIn.emailField = value.emailField;
+    }
+
+    if (value.from !== undefined && value.from !== null) {
+        if (typeof value.from !== 'string' || !isEmailAddress(value.from)) {
+            return { error: 'doubleOptIn.from must be an email address' };
+        }
+        doubleOptIn.from = value.from;
+    }
+
+    for (const key of ['confirmedUrl', 'expiredUrl'] as const) {
+        if (value[key] !== undefined && value[key] !== null) {
+            if (typeof value[key] !== 'string' || !isHttpUrl(value[key])) {
+                return { error: `doubleOptIn.${key} must be an http(s) URL` };
+            }
+            doubleOptIn[key] = value[key];
+        }
+    }
+
+    const template = { subject: value.subject, html: value.html, text: value.text };
+    if (Object.values(template).some(item => item !== undefined && item !== null)) {
+        const { emailTemplate, error } = parseEmailTemplate(template, 'doubleOptIn');
+        if (!emailTemplate) return { error };
+        doubleOptIn.template = emailTemplate;
+    }
+
+    if (value.expiresInHours !== undefined) {
+        if (!Number.isInteger(value.expiresInHours) || value.expiresInHours < 1 || value.expiresInHours > MAX_EXPIRY_HOURS) {
+            return { error: `doubleOptIn.expiresInHours must be an integer from 1 to ${MAX_EXPIRY_HOURS}` };
+        }
+        doubleOptIn.expiresInHours = value.expiresInHours;
+    }
+
+    if (value.maxPerAddress !== undefined) {
+        if (!Number.isInteger(value.maxPerAddress) || value.maxPerAddress < 1 || value.maxPerAddress > 100) {
+            return { error: 'doubleOptIn.maxPerAddress must be an integer from 1 to 100' };
+        }
+        doubleOptIn.maxPerAddress = value.maxPerAddress;
+    }
+
+    if (value.windowSeconds !== undefined) {
+        if (!Number.isInteger(value.windowSeconds) || value.windowSeconds < 60) {
+            return { error: 'doubleOptIn.windowSeconds must be an integer of at least 60' };
+        }
+        doubleOptIn.windowSeconds = value.windowSeconds;
+    }
+
+    return { doubleOptIn };
+}
+
+/**
+ * The address to confirm, when the submission has a valid one
+ */
+export function getOptInEmail(config: DoubleOptInConfig, data: Record<string, any>): string | undefined {
+    const value = data[config.emailField];
+    const address = typeof value === 'string' ? value.trim() : undefined;
+    return address && isEmailAddress(address) ? address : undefined;
+}
+
+/**
+ * The opt-in state of a new submission
+ */
+export function pendingOptIn(config: DoubleOptInConfig): OptInState {
+    return {
+        status: 'pending',
+        expiresAt: new Date(Date.now() + config.expiresInHours * HOUR).toISOString(),
+    };
+}
+
+/**
+ * Tokens look like <submissionId>.<expires>.<signature>, with the expiry in seconds
+ */
+export async function createConfirmationToken(secret: string, submissionId: string, expiresAt: string): Promise<string> {
+    const expires = Math.floor(new Date(expiresAt).getTime() / 1000);
+    return `${submissionId}.${expires}.${await signConfirmation(secret, submissionId, expires)}`;
+}
+
+/**
+ * Check a confirmation token's signature. Expired tokens still return
+ * their submission ID so the visitor can be sent to the form's expired page.
+ */
+export async function verifyConfirmationToken(
+    secret: string,
+    token: string
+): Promise<{ submissionId: string; expired: boolean } | null> {
+    const match = token.match(/^([A-Za-z0-9_-]+)\.(\d+)\.([0-9a-f]{64})$/);
+    if (!match) return null;
+
+    const [, submissionId, expiresText, signature] = match;
+    const expires = parseInt(expiresText);
+    const expected = await signConfirmation(secret, submissionId, expires);
+    if (!timingSafeEqual(expected, signature)) return null;
+
+    return { submissionId, expired: expires < Math.floor(Date.now() / 1000) };
+}
+
+/**
+ * Email the confirmation link. Like auto-replies, the number of confirmation
+ * emails per address is throttled so the form cannot flood third parties.
+ */
+export async function sendConfirmationEmail(
+    env: NotificationEnv,
+    secret: string,
+    form: FormConfig,
+    submission: StoredSubmission,
+    baseUrl: string
+): Promise<{ success: boolean; error?: string }> {
+    const config = form.doubleOptIn;
+    const address = config && getOptInEmail(config, submission.data);
+    if (!config || !address || !submission.metadata.optIn) {
+        return { success: false, error: 'Submission has no address to confirm' };
+    }
+
+    const { allowed } = await checkRateLimit(
+        env.FORM_SUBMISSIONS,
+        env.DB,
+        `optin:${await sha256Hex(address.toLowerCase())}`,
+        config.maxPerAddress,
+        config.windowSeconds
+    );
+    if (!allowed) {
+        return { success: false, error: 'Too many confirmation emails for this address' };
+    }
+
+    const token = await createConfirmationToken(secret, submission.id, submission.metadata.optIn.expiresAt);
+    const template = config.template ?? {};
+    const { id: submissionId, ...submissionData } = submission;
+
+    const result = await sendEmailNotification({
+        ...emailConfigFromEnv(env),
+        from: config.from || env.EMAIL_FROM || '',
+        to: address,
+        template: {
+            subject: template.subject ?? DEFAULT_TEMPLATE.subject,
+            html: template.html ?? DEFAULT_TEMPLATE.html,
+            text: template.text ?? (template.html ? undefined : DEFAULT_TEMPLATE.text),
+        },
+    }, {
+        ...submissionData,
+        formName: form.name,
+        submissionId,
+        confirmUrl: new URL(`/confirm/${token}`, baseUrl).toString(),
+    });
+
+    await recordNotification(env.FORM_SUBMISSIONS, env.DB, {
+        submissionId,
+        formId: form.id,
+        type: 'confirmation',
+        to: address,
+    }, result);
+
+    return result;
+}
+
+/**
+ * Delete pending submissions that were never confirmed. Quarantined ones are
+ * left for review. Called from the cron trigger.
+ */
+export async function expirePendingSubmissions(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    bucket: R2Bucket | undefined,
+    forms: FormConfig[]
+): Promise<number> {
+    let expired = 0;
+
+    for (const form of forms) {
+        if (!form.doubleOptIn) continue;
+
+        try {
+            const now = new Date().toISOString();
+            const cutoff = new Date(Date.now() - form.doubleOptIn.expiresInHours * HOUR).toISOString();
+            const { submissions } = await getSubmissions(kv, db, form.id, {
+                limit: EXPIRY_BATCH_SIZE,
+                filter: { pending: true, quarantined: false, range: { to: cutoff } },
+            });
+
+            // Released from quarantine later than submitted, so expiring later too
+            const unconfirmed = submissions.filter(submission => (submission.metadata.optIn?.expiresAt ?? '') <= now);
+            for (const submission of unconfirmed) {
+                await eraseSubmission(kv, db, bucket, submission);
+            }
+            expired += unconfirmed.length;
+        } catch (error) {
+            console.error(`Opt-in expiry failed for form ${form.id}:`, error);
+        }
+    }
+
+    return expired;
+}
+
+/**
+ * A minimal page for visitors following a confirmation link from their email
+ */
+export function confirmationPage(title: string, message: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 80px 20px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; background-color: #f5f5f5; text-align: center; color: #333;">
+  <h1 style="font-size: 24px;">${escapeHtml(title)}</h1>
+  <p style="color: #666;">${escapeHtml(message)}</p>
+</body>
+</html>`;
+}
+
+async function signConfirmation(secret: string, submissionId: string, expires: number): Promise<string> {
+    return hmacSha256Hex(secret, `confirm:${submissionId}:${expires}`);
+}
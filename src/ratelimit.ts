@@ -1,8 +1,151 @@
 /**
- * Simple rate limiting using KV
+ * Rate limiting. With the RATE_LIMITER Durable Object bound, every key is
+ * counted atomically in one place. Without it, limits fall back to a fixed
+ * window in D1 (atomic) or KV (approximate).
  */
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export type RateLimitFailMode = 'open' | 'closed';
+
+// Which limit a check counts against: the worker-wide per-IP limit, or a form's own limits
+export type RateLimitScope = 'ip' | 'form-ip' | 'form';
+
+export interface RateLimitPolicy {
+    limit: number;
+    windowSeconds: number;
+    algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    reset: number; // seconds until the limit is fully available again
+    retryAfter?: number; // seconds until the next request is allowed, when blocked
+}
+
+export interface RateLimitConfig {
+    perIp?: { requests: number; windowSeconds: number }; // each IP address on this form
+    perForm?: { requests: number; windowSeconds: number }; // the form as a whole
+    algorithm?: RateLimitAlgorithm; // falls back to RATE_LIMIT_ALGORITHM
+    failMode?: RateLimitFailMode; // falls back to RATE_LIMIT_FAIL_MODE
+}
+
+export interface RateLimitCounters {
+    blocked: number;
+    errors: number;
+}
+
+export interface RateLimitEnv {
+    FORM_SUBMISSIONS?: KVNamespace;
+    DB?: D1Database;
+    RATE_LIMITER?: DurableObjectNamespace;
+    RATE_LIMIT_ALGORITHM?: string;
+    RATE_LIMIT_FAIL_MODE?: string;
+}
+
+export const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-window', 'token-bucket'];
+
+const SCOPES: RateLimitScope[] = ['ip', 'form-ip', 'form'];
+
+// Counters of the worker-wide per-IP limit are kept under this form ID
+export const GLOBAL_COUNTERS = '*';
+
+/**
+ * Validate a rate limit configuration supplied through the forms API
+ */
+export function parseRateLimitConfig(value: any): { rateLimit?: RateLimitConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'rateLimit must be an object' };
+    }
+
+    const rateLimit: RateLimitConfig = {};
+
+    for (const key of ['perIp', 'perForm'] as const) {
+        const limit = value[key];
+        if (limit === undefined || limit === null) continue;
+
+        if (typeof limit !== 'object' || Array.isArray(limit)) {
+            return { error: `rateLimit.${key} must be an object` };
+        }
+        if (!Number.isInteger(limit.requests) || limit.requests < 1) {
+            return { error: `rateLimit.${key}.requests must be a positive integer` };
+        }
+        if (!Number.isInteger(limit.windowSeconds) || limit.windowSeconds < 1 || limit.windowSeconds > 86400) {
+            return { error: `rateLimit.${key}.windowSeconds must be an integer from 1 to 86400` };
+        }
+        rateLimit[key] = { requests: limit.requests, windowSeconds: limit.windowSeconds };
+    }
+
+    if (value.algorithm !== undefined && value.algorithm !== null) {
+        if (!RATE_LIMIT_ALGORITHMS.includes(value.algorithm)) {
+            return { error: `rateLimit.algorithm must be one of: ${RATE_LIMIT_ALGORITHMS.join(', ')}` };
+        }
+        rateLimit.algorithm = value.algorithm;
+    }
+
+    if (value.failMode !== undefined && value.failMode !== null) {
+        if (value.failMode !== 'open' && value.failMode !== 'closed') {
+            return { error: 'rateLimit.failMode must be "open" or "closed"' };
+        }
+        rateLimit.failMode = value.failMode;
+    }
+
+    if (!rateLimit.perIp && !rateLimit.perForm) {
+        return { error: 'rateLimit needs perIp or perForm' };
+    }
+
+    return { rateLimit };
+}
+
+/**
+ * The algorithm and fail mode used when a form doesn't choose its own.
+ * Sliding windows and token buckets need the Durable Object, so the
+ * default without it is the fixed window that D1 and KV implement.
+ */
+export function rateLimitDefaults(env: RateLimitEnv): { algorithm: RateLimitAlgorithm; failMode: RateLimitFailMode } {
+    const algorithm = env.RATE_LIMIT_ALGORITHM?.toLowerCase() as RateLimitAlgorithm;
+    return {
+        algorithm: RATE_LIMIT_ALGORITHMS.includes(algorithm)
+            ? algorithm
+            : env.RATE_LIMITER ? 'sliding-window' : 'fixed-window',
+        failMode: env.RATE_LIMIT_FAIL_MODE?.toLowerCase() === 'closed' ? 'closed' : 'open',
+    };
+}
+
+/**
+ * Count a request against a limit. Storage errors are returned rather than
+ * thrown, so the caller can fail open or closed.
+ */
+export async function limitRequest(
+    env: RateLimitEnv,
+    key: string,
+    policy: RateLimitPolicy
+): Promise<{ result?: RateLimitResult; error?: string }> {
+    try {
+        if (env.RATE_LIMITER) {
+            const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key));
+            const response = await stub.fetch('https://rate-limiter/consume', {
+                method: 'POST',
+                body: JSON.stringify(policy),
+            });
+            if (!response.ok) {
+                return { error: `Rate limiter returned ${response.status}` };
+            }
+            return { result: await response.json() as RateLimitResult };
+        }
+
+        return { result: await fixedWindow(env.FORM_SUBMISSIONS, env.DB, `ratelimit:${key}`, policy) };
+    } catch (error) {
+        console.error('Rate limit error:', error);
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
 /**
- * Rate limiting using KV or D1
+ * Simple fixed-window limit, used to throttle emails per address.
+ * Fails open when storage is unavailable.
  */
 export async function checkRateLimit(
     kv: KVNamespace | undefined,
@@ -11,94 +154,293 @@ export async function checkRateLimit(
     maxRequests: number,
     windowSeconds: number
 ): Promise<{ allowed: boolean; retryAfter?: number }> {
-    const key = `ratelimit:${identifier}`;
-    const now = Date.now();
-    const windowMs = windowSeconds * 1000;
-
-    // Prefer KV for rate limiting (faster), but fallback to D1 if only DB is available
-    if (kv) {
-        // Get existing rate limit data
-        const existing = await kv.get(key, 'json') as {
-            count: number;
-            resetAt: number;
-        } | null;
-
-        // If no existing data or window has expired, create new window
-        if (!existing || now >= existing.resetAt) {
-            await kv.put(
-                key,
-                JSON.stringify({
-                    count: 1,
-                    resetAt: now + windowMs,
-                }),
-                {
-                    expirationTtl: windowSeconds,
-                }
-            );
-            return { allowed: true };
-        }
-
-        // Check if limit exceeded
-        if (existing.count >= maxRequests) {
-            const retryAfter = Math.ceil((existing.resetAt - now) / 1000);
-            return { allowed: false, retryAfter };
-        }
-
-        // Increment counter
-        await kv.put(
-            key,
-            JSON.stringify({
-                count: existing.count + 1,
-                resetAt: existing.resetAt,
-            }),
-            {
-                expirationTtl: Math.ceil((existing.resetAt - now) / 1000),
-            }
-        );
-
+    try {
+        const { allowed, retryAfter } = await fixedWindow(kv, db, `ratelimit:${identifier}`, {
+            limit: maxRequests,
+            windowSeconds,
+            algorithm: 'fixed-window',
+        });
+        return { allowed, retryAfter };
+    } catch (error) {
+        console.error('Rate limit error:', error);
         return { allowed: true };
-    } else if (db) {
-        try {
-            // Get existing rate limit data from D1
-            const existing = await db
-                .prepare('SELECT count, reset_at FROM rate_limits WHERE key = ?')
-                .bind(key)
-                .first() as { count: number; reset_at: number } | null;
-
-            // If no existing data or window has expired, create new window
-            if (!existing || now >= existing.reset_at) {
-                // Remove potentially old entry first (if expired)
-                if (existing) {
-                    await db.prepare('DELETE FROM rate_limits WHERE key = ?').bind(key).run();
-                }
-
-                await db
-                    .prepare('INSERT INTO rate_limits (key, count, reset_at) VALUES (?, ?, ?)')
-                    .bind(key, 1, now + windowMs)
-                    .run();
-                return { allowed: true };
-            }
+    }
+}
+
+/**
+ * Standard rate limit headers for a response: RateLimit-Limit, RateLimit-Remaining,
+ * RateLimit-Reset and RateLimit-Policy, plus Retry-After when blocked
+ */
+export function rateLimitHeaders(result: RateLimitResult, policy: RateLimitPolicy): Record<string, string> {
+    const headers: Record<string, string> = {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(result.reset),
+        'RateLimit-Policy': `${policy.limit};w=${policy.windowSeconds}`,
+    };
+    if (!result.allowed && result.retryAfter !== undefined) {
+        headers['Retry-After'] = String(result.retryAfter);
+    }
+    return headers;
+}
+
+/**
+ * Count a blocked request or a failed check, for monitoring
+ */
+export async function recordRateLimitOutcome(
+    env: RateLimitEnv,
+    formId: string,
+    scope: RateLimitScope,
+    outcome: keyof RateLimitCounters
+): Promise<void> {
+    if (env.RATE_LIMITER) {
+        const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`counters:${formId}`));
+        await stub.fetch('https://rate-limiter/count', {
+            method: 'POST',
+            body: JSON.stringify({ scope, outcome }),
+        });
+    } else if (env.DB) {
+        await env.DB
+            .prepare(
+                `INSERT INTO rate_limit_counters (form_id, scope, blocked, errors, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(form_id, scope) DO UPDATE SET
+           blocked = blocked + excluded.blocked,
+           errors = errors + excluded.errors,
+           updated_at = excluded.updated_at`
+            )
+            .bind(formId, scope, outcome === 'blocked' ? 1 : 0, outcome === 'errors' ? 1 : 0, new Date().toISOString())
+            .run();
+    } else if (env.FORM_SUBMISSIONS) {
+        // Approximate under load: KV has no atomic increment
+        const key = `ratelimit-counter:${formId}:${scope}`;
+        const counters = await env.FORM_SUBMISSIONS.get(key, 'json') as RateLimitCounters | null ?? { blocked: 0, errors: 0 };
+        counters[outcome]++;
+        await env.FORM_SUBMISSIONS.put(key, JSON.stringify(counters));
+    }
+}
+
+/**
+ * Blocked requests and failed checks of a form, or of the worker-wide limit
+ * with GLOBAL_COUNTERS, by scope
+ */
+export async function getRateLimitCounters(
+    env: RateLimitEnv,
+    formId: string
+): Promise<Record<RateLimitScope, RateLimitCounters>> {
+    const counters = Object.fromEntries(
+        SCOPES.map(scope => [scope, { blocked: 0, errors: 0 }])
+    ) as Record<RateLimitScope, RateLimitCounters>;
+
+    if (env.RATE_LIMITER) {
+        const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`counters:${formId}`));
+        const response = await stub.fetch('https://rate-limiter/counters');
+        const stored = await response.json() as Partial<Record<RateLimitScope, RateLimitCounters>>;
+        for (const scope of SCOPES) {
+            if (stored[scope]) counters[scope] = stored[scope]!;
+        }
+    } else if (env.DB) {
+        const result = await env.DB
+            .prepare('SELECT scope, blocked, errors FROM rate_limit_counters WHERE form_id = ?')
+            .bind(formId)
+            .all<{ scope: RateLimitScope; blocked: number; errors: number }>();
+        for (const row of result.results) {
+            if (counters[row.scope]) counters[row.scope] = { blocked: row.blocked, errors: row.errors };
+        }
+    } else if (env.FORM_SUBMISSIONS) {
+        for (const scope of SCOPES) {
+            const stored = await env.FORM_SUBMISSIONS.get(`ratelimit-counter:${formId}:${scope}`, 'json') as RateLimitCounters | null;
+            if (stored) counters[scope] = stored;
+        }
+    }
+
+    return counters;
+}
+
+/**
+ * Durable Object holding the state of one rate limit key, or the counters
+ * of one form. Requests to an object run one at a time, so every check is atomic.
+ */
+export class RateLimiter {
+    constructor(private state: DurableObjectState) {}
+
+    async fetch(request: Request): Promise<Response> {
+        const { pathname } = new URL(request.url);
+
+        if (pathname === '/consume') {
+            const policy = await request.json() as RateLimitPolicy;
+            const result = await this.consume(policy);
+
+            // Forget the key once it has been idle for a full window
+            await this.state.storage.setAlarm(Date.now() + policy.windowSeconds * 2000);
+            return Response.json(result);
+        }
+
+        if (pathname === '/count') {
+            const { scope, outcome } = await request.json() as { scope: RateLimitScope; outcome: keyof RateLimitCounters };
+            const counters = await this.state.storage.get<RateLimitCounters>(scope) ?? { blocked: 0, errors: 0 };
+            counters[outcome]++;
+            await this.state.storage.put(scope, counters);
+            return Response.json(counters);
+        }
+
+        if (pathname === '/counters') {
+            return Response.json(Object.fromEntries(await this.state.storage.list<RateLimitCounters>()));
+        }
+
+        return new Response('Not found', { status: 404 });
+    }
+
+    async alarm(): Promise<void> {
+        await this.state.storage.deleteAll();
+    }
+
+    private async consume(policy: RateLimitPolicy): Promise<RateLimitResult> {
+        const now = Date.now();
+        const windowMs = policy.windowSeconds * 1000;
+
+        if (policy.algorithm === 'token-bucket') {
+            // Holds up to `limit` tokens, refilled evenly over the window
+            const rate = policy.limit / windowMs;
+            const bucket = await this.state.storage.get<{ tokens: number; updatedAt: number }>('bucket');
+            let tokens = bucket
+                ? Math.min(policy.limit, bucket.tokens + (now - bucket.updatedAt) * rate)
+                : policy.limit;
+
+            const allowed = tokens >= 1;
+            if (allowed) tokens -= 1;
+            await this.state.storage.put('bucket', { tokens, updatedAt: now });
+
+            return {
+                allowed,
+                limit: policy.limit,
+                remaining: Math.floor(tokens),
+                reset: Math.ceil((policy.limit - tokens) / rate / 1000),
+                retryAfter: allowed ? undefined : Math.ceil((1 - tokens) / rate / 1000),
+            };
+        }
+
+        const windowStart = Math.floor(now / windowMs) * windowMs;
+        const stored = await this.state.storage.get<{ windowStart: number; count: number; previous: number }>('window');
+        const window = !stored || stored.windowStart < windowStart - windowMs
+            ? { windowStart, count: 0, previous: 0 }
+            : stored.windowStart < windowStart
+                ? { windowStart, count: 0, previous: stored.count }
+                : stored;
+
+        const elapsed = now - windowStart;
+        const untilNextWindow = windowMs - elapsed;
 
-            // Check if limit exceeded
-            if (existing.count >= maxRequests) {
-                const retryAfter = Math.ceil((existing.reset_at - now) / 1000);
-                return { allowed: false, retryAfter };
+        if (policy.algorithm === 'sliding-window') {
+            // The previous window's count, weighted by how much of it the sliding window still covers
+            const weight = 1 - elapsed / windowMs;
+            const estimate = window.previous * weight + window.count;
+            const allowed = estimate + 1 <= policy.limit;
+            if (allowed) {
+                window.count++;
+                await this.state.storage.put('window', window);
             }
 
-            // Increment counter
-            await db
-                .prepare('UPDATE rate_limits SET count = count + 1 WHERE key = ?')
-                .bind(key)
-                .run();
+            return {
+                allowed,
+                limit: policy.limit,
+                remaining: Math.max(0, Math.floor(policy.limit - estimate - (allowed ? 1 : 0))),
+                reset: Math.ceil((untilNextWindow + (window.count > 0 ? windowMs : 0)) / 1000),
+                retryAfter: allowed ? undefined : Math.max(1, Math.ceil(slidingRetryAfter(window, policy.limit, elapsed, windowMs) / 1000)),
+            };
+        }
+
+        const allowed = window.count < policy.limit;
+        if (allowed) {
+            window.count++;
+            await this.state.storage.put('window', window);
+        }
+
+        return {
+            allowed,
+            limit: policy.limit,
+            remaining: Math.max(0, policy.limit - window.count),
+            reset: Math.ceil(untilNextWindow / 1000),
+            retryAfter: allowed ? undefined : Math.ceil(untilNextWindow / 1000),
+        };
+    }
+}
+
+/**
+ * Milliseconds until a sliding window has room for one more request
+ */
+function slidingRetryAfter(
+    window: { count: number; previous: number },
+    limit: number,
+    elapsed: number,
+    windowMs: number
+): number {
+    if (window.count + 1 <= limit) {
+        // Wait for the previous window's weight to drop far enough
+        return windowMs * (1 - (limit - 1 - window.count) / window.previous) - elapsed;
+    }
+
+    // This window is full on its own: wait for the next one, then for this one's weight to drop
+    return windowMs - elapsed + Math.max(0, windowMs * (1 - (limit - 1) / window.count));
+}
 
-            return { allowed: true };
-        } catch (error) {
-            console.error('Rate limit D1 error:', error);
-            // Fail open on database error to avoid blocking legitimate traffic due to infrastructure issues
-            return { allowed: true };
+/**
+ * Fixed-window counter in D1 or KV. D1 increments atomically in a single
+ * statement; KV reads then writes, so concurrent requests can slip through.
+ */
+async function fixedWindow(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    key: string,
+    policy: RateLimitPolicy
+): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowMs = policy.windowSeconds * 1000;
+    let count: number;
+    let resetAt: number;
+
+    if (db) {
+        const row = await db
+            .prepare(
+                `INSERT INTO rate_limits (key, count, reset_at) VALUES (?, 1, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           count = CASE WHEN rate_limits.reset_at <= ? THEN 1 ELSE rate_limits.count + 1 END,
+           reset_at = CASE WHEN rate_limits.reset_at <= ? THEN excluded.reset_at ELSE rate_limits.reset_at END
+         RETURNING count, reset_at`
+            )
+            .bind(key, now + windowMs, now, now)
+            .first<{ count: number; reset_at: number }>();
+
+        if (!row) throw new Error('Rate limit update returned no row');
+        count = row.count;
+        resetAt = row.reset_at;
+    } else if (kv) {
+        const existing = await kv.get(key, 'json') as { count: number; resetAt: number } | null;
+        const current = existing && now < existing.resetAt ? existing : { count: 0, resetAt: now + windowMs };
+
+        count = current.count + 1;
+        resetAt = current.resetAt;
+
+        // Blocked requests are not written, so a flood doesn't exhaust KV's write limits
+        if (count <= policy.limit) {
+            await kv.put(key, JSON.stringify({ count, resetAt }), {
+                // KV's minimum TTL is 60 seconds
+                expirationTtl: Math.max(60, Math.ceil((resetAt - now) / 1000)),
+            });
         }
+    } else {
+        // No storage configured, allow all requests
+        return { allowed: true, limit: policy.limit, remaining: policy.limit, reset: 0 };
     }
 
-    // If no storage configured, allow all requests
-    return { allowed: true };
+    const allowed = count <= policy.limit;
+    const reset = Math.max(0, Math.ceil((resetAt - now) / 1000));
+
+    return {
+        allowed,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - count),
+        reset,
+        retryAfter: allowed ? undefined : reset,
+    };
 }
@@ -0,0 +1,182 @@
+/**
+ * Submission request parsing
+ * Accepts JSON bodies from the client library and native HTML form posts
+ */
+
+import type { HonoRequest } from 'hono';
+import type { FormConfig } from './forms';
+import type { UploadedFile } from './files';
+import { CAPTCHA_FIELDS } from './captcha';
+
+export interface SubmitRequest {
+    formId?: string;
+    captchaToken?: string;
+    idempotencyKey?: string; // from the Idempotency-Key header, or a field for clients that can't set headers
+    data: any;
+    files: UploadedFile[];
+    redirect?: string;
+    startedAt?: number; // ms since epoch, sent by the client library for spam timing checks
+    native: boolean; // posted by a plain <form> rather than by a script expecting JSON
+}
+
+// Fields used by FormFlare itself rather than submitted as form data
+const RESERVED_FIELDS = ['formId', ...CAPTCHA_FIELDS, '_redirect', '_startedAt', '_idempotencyKey'];
+
+/**
+ * Parse a /submit request body.
+ * A form ID in the URL (POST /submit/:formId) takes precedence over the body.
+ */
+export async function parseSubmitRequest(req: HonoRequest): Promise<SubmitRequest> {
+    const contentType = req.header('content-type') || '';
+    const urlFormId = req.param('formId');
+
+    if (
+        contentType.startsWith('application/x-www-form-urlencoded') ||
+        contentType.startsWith('multipart/form-data')
+    ) {
+        const body = await req.parseBody({ all: true });
+        const data: Record<string, any> = {};
+        const files: UploadedFile[] = [];
+
+        for (const [key, value] of Object.entries(body)) {
+            if (RESERVED_FIELDS.includes(key)) continue;
+
+            const values = Array.isArray(value) ? value : [value];
+            for (const item of values) {
+                // Browsers send an empty file part for file inputs left blank
+                if (isFile(item) && item.size > 0) files.push({ field: key, file: item });
+            }
+
+            const text = values.filter(item => !isFile(item));
+            if (text.length > 0) {
+                data[key] = Array.isArray(value) ? text : text[0];
+            }
+        }
+
+        return {
+            formId: urlFormId || firstString(body.formId),
+            captchaToken: captchaField(body),
+            idempotencyKey: req.header('idempotency-key') || firstString(body._idempotencyKey),
+            data,
+            files,
+            redirect: firstString(body._redirect),
+            startedAt: parseTimestamp(firstString(body._startedAt)),
+            // Scripts posting FormData (e.g. the client library with file inputs) ask for JSON
+            native: !(req.header('accept') || '').includes('application/json'),
+        };
+    }
+
+    const body = await req.json();
+    let data = body?.data;
+    let captchaToken = body?.captchaToken ?? body?.turnstileToken;
+
+    // Scripts that serialise a whole form, widget fields included, send the token inside data
+    if (data && typeof data === 'object' && !Array.isArray(data) && CAPTCHA_FIELDS.some(field => field in data)) {
+        captchaToken ??= captchaField(data);
+        data = Object.fromEntries(Object.entries(data).filter(([key]) => !CAPTCHA_FIELDS.includes(key)));
+    }
+
+    return {
+        formId: urlFormId || body?.formId,
+        captchaToken,
+        idempotencyKey: req.header('idempotency-key') || firstString(body?.idempotencyKey),
+        data,
+        files: [],
+        redirect: body?._redirect,
+        startedAt: parseTimestamp(body?.startedAt),
+        native: false,
+    };
+}
+
+/**
+ * Pick where to send a native form post after it has been processed.
+ * A `_redirect` field wins if it matches the form's redirect allowlist,
+ * otherwise the form's configured success or error URL is used.
+ */
+export function resolveRedirectUrl(
+    form: FormConfig,
+    success: boolean,
+    requested?: string
+): string | undefined {
+    if (requested && isRedirectAllowed(form, requested)) {
+        return requested;
+    }
+    return success ? form.successUrl : form.errorUrl;
+}
+
+/**
+ * Append the submission outcome to a redirect URL as query parameters
+ */
+export function withOutcomeParams(target: string, outcome: Record<string, any>): string {
+    const url = new URL(target);
+    url.searchParams.set('status', outcome.success ? 'success' : 'error');
+    if (outcome.submissionId) url.searchParams.set('submissionId', outcome.submissionId);
+    if (outcome.error) url.searchParams.set('error', outcome.error);
+    return url.toString();
+}
+
+/**
+ * Hostname of the page a submission was sent from, taken from the Origin or Referer header
+ */
+export function requestHostname(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+
+    try {
+        return new URL(value).hostname || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function isRedirectAllowed(form: FormConfig, target: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        return false;
+    }
+
+    return form.redirectAllowlist.some(prefix => {
+        let allowed: URL;
+        try {
+            allowed = new URL(prefix);
+        } catch {
+            return false;
+        }
+
+        // A prefix only covers whole path segments: /thanks allows /thanks/page but not /thanks-evil
+        const path = allowed.pathname;
+        return url.origin === allowed.origin && (
+            url.pathname === path ||
+            url.pathname.startsWith(path.endsWith('/') ? path : `${path}/`)
+        );
+    });
+}
+
+function isFile(value: unknown): value is File {
+    return typeof value === 'object' && value !== null && 'arrayBuffer' in value;
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value !== 'string' || !value) return undefined;
+
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * The first CAPTCHA widget field with a value
+ */
+function captchaField(body: Record<string, unknown>): string | undefined {
+    for (const field of CAPTCHA_FIELDS) {
+        const value = firstString(body[field]);
+        if (value) return value;
+    }
+    return undefined;
+}
+
+function firstString(value: unknown): string | undefined {
+    const first = Array.isArray(value) ? value[0] : value;
+    return typeof first === 'string' ? first : undefined;
+}
@@ -0,0 +1,221 @@
+/**
+ * Erasure and retention policies
+ */
+
+import type { FormConfig } from './forms';
+import { deleteUploads } from './files';
+import { deleteWebhookDeliveries } from './webhooks';
+import { deleteNotificationLog } from './notificationlog';
+import {
+    deleteSubmission,
+    updateSubmission,
+    getSubmissionsBefore,
+    iterateSubmissions,
+    type StoredSubmission,
+    type SubmissionFilter,
+} from './storage';
+
+export interface RetentionConfig {
+    days?: number; // submissions older than this are purged or anonymised
+    action: 'delete' | 'anonymize';
+    metadataDays?: number; // IP and user agent are anonymised after this many days
+}
+
+export interface RetentionResult {
+    deleted: number;
+    anonymized: number;
+    metadataAnonymized: number;
+}
+
+// Submissions handled per form and per step in one cron run
+const RETENTION_BATCH_SIZE = 100;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a retention policy supplied through the forms API
+ */
+export function parseRetentionConfig(value: any): { retention?: RetentionConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'retention must be an object' };
+    }
+
+    const retention: RetentionConfig = { action: 'delete' };
+
+    for (const key of ['days', 'metadataDays'] as const) {
+        if (value[key] !== undefined && value[key] !== null) {
+            if (!Number.isInteger(value[key]) || value[key] < 1) {
+                return { error: `retention.${key} must be a positive integer` };
+            }
+            retention[key] = value[key];
+        }
+    }
+
+    if (value.action !== undefined) {
+        if (value.action !== 'delete' && value.action !== 'anonymize') {
+            return { error: 'retention.action must be "delete" or "anonymize"' };
+        }
+        retention.action = value.action;
+    }
+
+    if (retention.days === undefined && retention.metadataDays === undefined) {
+        return { error: 'retention needs days or metadataDays' };
+    }
+
+    if (retention.days !== undefined && retention.metadataDays !== undefined && retention.metadataDays >= retention.days) {
+        return { error: 'retention.metadataDays must be shorter than retention.days' };
+    }
+
+    return { retention };
+}
+
+/**
+ * Permanently delete a submission with its uploaded files, webhook and notification logs
+ */
+export async function eraseSubmission(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    bucket: R2Bucket | undefined,
+    submission: StoredSubmission
+): Promise<void> {
+    if (bucket) {
+        await deleteUploads(bucket, submission.formId, submission.id, submission.data);
+    }
+    await deleteWebhookDeliveries(kv, db, submission.id);
+    await deleteNotificationLog(kv, db, submission.id);
+    await deleteSubmission(kv, db, submission);
+}
+
+/**
+ * Erase every submission of a form matching a filter, e.g. all submissions
+ * where `email` equals an address named in an erasure request.
+ * Returns the number of submissions erased.
+ */
+export async function eraseMatchingSubmissions(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    bucket: R2Bucket | undefined,
+    formId: string,
+    filter: SubmissionFilter
+): Promise<number> {
+    // Collect first so deletions don't shift the pages being iterated
+    const matches: StoredSubmission[] = [];
+    for await (const submission of iterateSubmissions(kv, db, formId, filter)) {
+        matches.push(submission);
+    }
+
+    for (const submission of matches) {
+        await eraseSubmission(kv, db, bucket, submission);
+    }
+
+    return matches.length;
+}
+
+/**
+ * Apply every form's retention policy. Called from the cron trigger;
+ * large backlogs are worked through in batches over several runs.
+ */
+export async function enforceRetention(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    bucket: R2Bucket | undefined,
+    forms: FormConfig[]
+): Promise<RetentionResult> {
+    const result: RetentionResult = { deleted: 0, anonymized: 0, metadataAnonymized: 0 };
+
+    for (const form of forms) {
+        const retention = form.retention;
+        if (!retention) continue;
+
+        try {
+            if (retention.days) {
+                const cutoff = new Date(Date.now() - retention.days * DAY).toISOString();
+
+                if (retention.action === 'delete') {
+                    const expired = await getSubmissionsBefore(kv, db, form.id, cutoff, undefined, RETENTION_BATCH_SIZE);
+                    for (const submission of expired) {
+                        await eraseSubmission(kv, db, bucket, submission);
+                    }
+                    result.deleted += expired.length;
+                } else {
+                    const expired = await getSubmissionsBefore(kv, db, form.id, cutoff, 'anonymizedAt', RETENTION_BATCH_SIZE);
+                    for (const submission of expired) {
+                        await anonymizeSubmission(kv, db, bucket, submission);
+                    }
+                    result.anonymized += expired.length;
+                }
+            }
+
+            if (retention.metadataDays) {
+                const cutoff = new Date(Date.now() - retention.metadataDays * DAY).toISOString();
+                const expired = await getSubmissionsBefore(kv, db, form.id, cutoff, 'metadataAnonymizedAt', RETENTION_BATCH_SIZE);
+
+                for (const submission of expired) {
+                    await updateSubmission(kv, db, {
+                        ...submission,
+                        metadata: anonymizeMetadata(submission.metadata),
+                    });
+                }
+                result.metadataAnonymized += expired.length;
+            }
+        } catch (error) {
+            console.error(`Retention job failed for form ${form.id}:`, error);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Remove a submission's data but keep the record, so counts stay correct
+ */
+async function anonymizeSubmission(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    bucket: R2Bucket | undefined,
+    submission: StoredSubmission
+): Promise<void> {
+    if (bucket) {
+        await deleteUploads(bucket, submission.formId, submission.id, submission.data);
+    }
+    await deleteWebhookDeliveries(kv, db, submission.id);
+    await deleteNotificationLog(kv, db, submission.id);
+
+    const metadata = anonymizeMetadata(submission.metadata);
+    await updateSubmission(kv, db, {
+        ...submission,
+        data: {},
+        metadata: { ...metadata, anonymizedAt: new Date().toISOString() },
+        // Notes can quote the submission
+        workflow: { ...submission.workflow, notes: [] },
+    });
+}
+
+function anonymizeMetadata(metadata: StoredSubmission['metadata']): StoredSubmission['metadata'] {
+    return {
+        ...metadata,
+        ip: anonymizeIp(metadata.ip),
+        userAgent: '',
+        optIn: metadata.optIn?.confirmedIp
+            ? { ...metadata.optIn, confirmedIp: anonymizeIp(metadata.optIn.confirmedIp) }
+            : metadata.optIn,
+        metadataAnonymizedAt: metadata.metadataAnonymizedAt ?? new Date().toISOString(),
+    };
+}
+
+/**
+ * Truncate an IP address to its network: /24 for IPv4, /48 for IPv6
+ */
+function anonymizeIp(ip: string): string {
+    if (/^\d{1,3}(\.\d{1,3}){3}$/.test(ip)) {
+        return ip.replace(/\.\d{1,3}$/, '.0');
+    }
+
+    if (ip.includes(':')) {
+        const [head] = ip.split('::');
+        const groups = head.split(':').filter(Boolean).slice(0, 3);
+        return `${groups.join(':')}::`;
+    }
+
+    return '';
+}
@@ -0,0 +1,227 @@
+/**
+ * Content-based spam scoring, run after Turnstile.
+ * Submissions scoring at or above a form's threshold are quarantined:
+ * stored, but without notifications until someone marks them as not spam.
+ */
+
+export interface SpamConfig {
+    threshold: number; // 1-100
+    honeypotField?: string; // hidden field that people leave empty
+    minSubmitSeconds?: number; // needs the client to send `_startedAt`
+    maxLinks?: number;
+    blockedKeywords: string[];
+    blockedPatterns: string[]; // regular expressions, case-insensitive
+    blockDisposableEmails: boolean;
+    disposableDomains: string[]; // added to the built-in list
+}
+
+export interface SpamVerdict {
+    score: number;
+    reasons: string[];
+    quarantined: boolean;
+    reviewedAt?: string; // when it was marked as not spam
+}
+
+export interface SpamSignals {
+    honeypot?: string;
+    startedAt?: number; // ms since epoch, when the visitor started filling in the form
+    turnstileScore?: number;
+}
+
+const DEFAULT_SPAM_CONFIG: SpamConfig = {
+    threshold: 50,
+    blockedKeywords: [],
+    blockedPatterns: [],
+    blockDisposableEmails: false,
+    disposableDomains: [],
+};
+
+// Points added by each failed check. Scores are capped at 100.
+const POINTS = {
+    honeypot: 100,
+    tooFast: 60,
+    links: 40,
+    keyword: 50,
+    pattern: 50,
+    disposableEmail: 50,
+    lowTurnstileScore: 30,
+};
+
+const LOW_TURNSTILE_SCORE = 0.5;
+
+const MAX_PATTERN_LENGTH = 200;
+
+const DISPOSABLE_DOMAINS = [
+    '10minutemail.com',
+    'burnermail.io',
+    'discard.email',
+    'dispostable.com',
+    'emailondeck.com',
+    'fakeinbox.com',
+    'getnada.com',
+    'guerrillamail.com',
+    'guerrillamail.net',
+    'maildrop.cc',
+    'mailinator.com',
+    'mailnesia.com',
+    'mintemail.com',
+    'moakt.com',
+    'mohmal.com',
+    'mytemp.email',
+    'sharklasers.com',
+    'spamgourmet.com',
+    'temp-mail.org',
+    'tempmail.com',
+    'tempr.email',
+    'throwawaymail.com',
+    'trashmail.com',
+    'yopmail.com',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@([^\s@]+\.[^\s@]+)$/;
+const LINK_PATTERN = /https?:\/\/|www\./gi;
+
+/**
+ * Validate a spam configuration supplied through the forms API
+ */
+export function parseSpamConfig(value: any): { spam?: SpamConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'spam must be an object' };
+    }
+
+    const spam: SpamConfig = { ...DEFAULT_SPAM_CONFIG };
+
+    if (value.threshold !== undefined) {
+        if (!Number.isInteger(value.threshold) || value.threshold < 1 || value.threshold > 100) {
+            return { error: 'spam.threshold must be an integer from 1 to 100' };
+        }
+        spam.threshold = value.threshold;
+    }
+
+    if (value.honeypotField !== undefined && value.honeypotField !== null) {
+        if (typeof value.honeypotField !== 'string' || !value.honeypotField) {
+            return { error: 'spam.honeypotField must be a field name' };
+        }
+        spam.honeypotField = value.honeypotField;
+    }
+
+    for (const key of ['minSubmitSeconds', 'maxLinks'] as const) {
+        if (value[key] !== undefined && value[key] !== null) {
+            if (!Number.isInteger(value[key]) || value[key] < 0) {
+                return { error: `spam.${key} must be a non-negative integer` };
+            }
+            spam[key] = value[key];
+        }
+    }
+
+    for (const key of ['blockedKeywords', 'blockedPatterns', 'disposableDomains'] as const) {
+        if (value[key] !== undefined) {
+            if (!Array.isArray(value[key]) || !value[key].every((item: any) => typeof item === 'string' && item)) {
+                return { error: `spam.${key} must be an array of strings` };
+            }
+            spam[key] = value[key].map((item: string) => key === 'blockedPatterns' ? item : item.toLowerCase());
+        }
+    }
+
+    for (const pattern of spam.blockedPatterns) {
+        if (pattern.length > MAX_PATTERN_LENGTH) {
+            return { error: `spam.blockedPatterns entries must be at most ${MAX_PATTERN_LENGTH} characters` };
+        }
+        try {
+            new RegExp(pattern, 'i');
+        } catch {
+            return { error: `Invalid regular expression in spam.blockedPatterns: ${pattern}` };
+        }
+    }
+
+    if (value.blockDisposableEmails !== undefined) {
+        if (typeof value.blockDisposableEmails !== 'boolean') {
+            return { error: 'spam.blockDisposableEmails must be a boolean' };
+        }
+        spam.blockDisposableEmails = value.blockDisposableEmails;
+    }
+
+    return { spam };
+}
+
+/**
+ * Remove the honeypot field from submitted data, returning its value separately
+ * so it is never stored or validated as a regular field
+ */
+export function extractHoneypot(config: SpamConfig, data: Record<string, any>): { data: Record<string, any>; honeypot?: string } {
+    if (!config.honeypotField || !(config.honeypotField in data)) {
+        return { data };
+    }
+
+    const { [config.honeypotField]: value, ...rest } = data;
+    return { data: rest, honeypot: Array.isArray(value) ? value.join('') : String(value ?? '') };
+}
+
+/**
+ * Score a submission against a form's spam configuration
+ */
+export function scoreSubmission(config: SpamConfig, data: Record<string, any>, signals: SpamSignals): SpamVerdict {
+    const reasons: string[] = [];
+    let score = 0;
+    const flag = (points: number, reason: string) => {
+        score += points;
+        reasons.push(reason);
+    };
+
+    if (signals.honeypot && signals.honeypot.trim()) {
+        flag(POINTS.honeypot, 'honeypot field filled in');
+    }
+
+    if (config.minSubmitSeconds && signals.startedAt) {
+        const seconds = (Date.now() - signals.startedAt) / 1000;
+        if (seconds < config.minSubmitSeconds) {
+            flag(POINTS.tooFast, `submitted after ${Math.max(0, Math.round(seconds))}s`);
+        }
+    }
+
+    const values = stringValues(data);
+    const text = values.join('\n').toLowerCase();
+
+    if (config.maxLinks !== undefined) {
+        const links = (text.match(LINK_PATTERN) || []).length;
+        if (links > config.maxLinks) {
+            flag(POINTS.links, `${links} links`);
+        }
+    }
+
+    for (const keyword of config.blockedKeywords) {
+        if (text.includes(keyword)) {
+            flag(POINTS.keyword, `blocked keyword "${keyword}"`);
+        }
+    }
+
+    for (const pattern of config.blockedPatterns) {
+        if (new RegExp(pattern, 'i').test(text)) {
+            flag(POINTS.pattern, `blocked pattern /${pattern}/`);
+        }
+    }
+
+    if (config.blockDisposableEmails) {
+        const blocked = [...DISPOSABLE_DOMAINS, ...config.disposableDomains];
+        for (const value of values) {
+            const domain = value.trim().toLowerCase().match(EMAIL_PATTERN)?.[1];
+            if (domain && blocked.some(item => domain === item || domain.endsWith(`.${item}`))) {
+                flag(POINTS.disposableEmail, `disposable email domain ${domain}`);
+            }
+        }
+    }
+
+    if (signals.turnstileScore !== undefined && signals.turnstileScore < LOW_TURNSTILE_SCORE) {
+        flag(POINTS.lowTurnstileScore, `Turnstile score ${signals.turnstileScore}`);
+    }
+
+    score = Math.min(score, 100);
+    return { score, reasons, quarantined: score >= config.threshold };
+}
+
+function stringValues(value: any): string[] {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(stringValues);
+    if (value && typeof value === 'object') return Object.values(value).flatMap(stringValues);
+    return [];
+}
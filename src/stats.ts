@@ -0,0 +1,301 @@
+/**
+ * Submission statistics. /submit increments daily counters per form as it
+ * goes, so reports never read submissions; weeks and months are summed from days.
+ */
+
+export type RejectionReason = 'blocked' | 'rate-limited' | 'origin' | 'validation' | 'captcha' | 'spam';
+
+export const REJECTION_REASONS: RejectionReason[] = ['blocked', 'rate-limited', 'origin', 'validation', 'captcha', 'spam'];
+
+/**
+ * One outcome of /submit. Accepted submissions have no rejection reason.
+ */
+export interface StatsEvent {
+    rejected?: RejectionReason;
+    referrer?: string; // the Referer header
+    country?: string;
+    turnstileScore?: number;
+}
+
+export interface StatsPeriod {
+    period: string; // YYYY-MM-DD, YYYY-Www (ISO week) or YYYY-MM
+    submissions: number;
+    rejected: Record<RejectionReason, number>;
+}
+
+export interface FormStats {
+    formId: string;
+    totals: Omit<StatsPeriod, 'period'>;
+    days: StatsPeriod[];
+    weeks: StatsPeriod[];
+    months: StatsPeriod[];
+    topReferrers: { referrer: string; count: number }[];
+    topCountries: { country: string; count: number }[];
+    turnstileScores: Record<string, number>; // submissions per score bucket, "0.0" to "0.9"
+}
+
+export interface StatsRange {
+    from: string; // first day, YYYY-MM-DD
+    to: string; // last day, inclusive
+}
+
+// Rejections before the form is known, by the worker-wide rate limit and global access rules
+export const GLOBAL_STATS = '*';
+
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 90;
+const TOP_LIMIT = 10;
+
+// Caps the distinct referrers kept per form per day, so one KV value can't grow without bound
+const MAX_REFERRERS_PER_DAY = 100;
+const OTHER_REFERRERS = '(other)';
+
+/**
+ * Parse `from`/`to` query dates (YYYY-MM-DD, inclusive). Defaults to the last 90 days.
+ */
+export function parseStatsRange(from?: string, to?: string): { range?: StatsRange; error?: string } {
+    for (const [name, value] of [['from', from], ['to', to]]) {
+        if (value === undefined) continue;
+
+        // Round-tripping also rejects days that don't exist, such as 2024-02-30
+        const date = new Date(value);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+            return { error: `${name} must be a date (YYYY-MM-DD)` };
+        }
+    }
+
+    const end = to ?? new Date().toISOString().slice(0, 10);
+    const start = from ?? addDays(end, 1 - DEFAULT_RANGE_DAYS);
+
+    if (start > end) {
+        return { error: 'from must not be after to' };
+    }
+    if (daysBetween(start, end) >= MAX_RANGE_DAYS) {
+        return { error: `The range can cover at most ${MAX_RANGE_DAYS} days` };
+    }
+
+    return { range: { from: start, to: end } };
+}
+
+/**
+ * Increment today's counters for an outcome of /submit
+ */
+export async function recordStats(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    event: StatsEvent
+): Promise<void> {
+    const day = new Date().toISOString().slice(0, 10);
+    const metrics = eventMetrics(event);
+
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO form_stats (form_id, day, metric, count)
+         VALUES ${metrics.map(() => '(?, ?, ?, 1)').join(', ')}
+         ON CONFLICT(form_id, day, metric) DO UPDATE SET count = count + 1`
+            )
+            .bind(...metrics.flatMap(metric => [formId, day, metric]))
+            .run();
+    } else if (kv) {
+        // One key per form per day. Approximate under load: KV has no atomic increment.
+        const key = `stats:${formId}:${day}`;
+        const counts = await kv.get(key, 'json') as Record<string, number> | null ?? {};
+        const referrers = Object.keys(counts).filter(metric => metric.startsWith('referrer:')).length;
+
+        for (let metric of metrics) {
+            if (metric.startsWith('referrer:') && !(metric in counts) && referrers >= MAX_REFERRERS_PER_DAY) {
+                metric = `referrer:${OTHER_REFERRERS}`;
+            }
+            counts[metric] = (counts[metric] ?? 0) + 1;
+        }
+
+        await kv.put(key, JSON.stringify(counts));
+    }
+}
+
+/**
+ * The counter names an event increments
+ */
+function eventMetrics(event: StatsEvent): string[] {
+    const metrics: string[] = [];
+
+    if (event.rejected) {
+        metrics.push(`rejected:${event.rejected}`);
+    } else {
+        metrics.push('submissions');
+
+        const referrer = referrerLabel(event.referrer);
+        if (referrer) metrics.push(`referrer:${referrer}`);
+        if (event.country) metrics.push(`country:${event.country.toUpperCase()}`);
+    }
+
+    // Scores are recorded for every verified token, including submissions later quarantined as spam
+    if (typeof event.turnstileScore === 'number' && !isNaN(event.turnstileScore)) {
+        const bucket = Math.min(9, Math.max(0, Math.floor(event.turnstileScore * 10)));
+        metrics.push(`score:0.${bucket}`);
+    }
+
+    return metrics;
+}
+
+/**
+ * Host and path of the referring page. The query string and fragment are
+ * dropped, as they can hold personal data.
+ */
+function referrerLabel(referrer: string | undefined): string | undefined {
+    if (!referrer) return undefined;
+
+    try {
+        const url = new URL(referrer);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+        return `${url.host}${url.pathname}`.slice(0, 200);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Build a form's report for a range of days
+ */
+export async function getFormStats(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    range: StatsRange
+): Promise<FormStats> {
+    const daily = await loadDailyCounts(kv, db, formId, range);
+
+    const days = new Map<string, StatsPeriod>();
+    const weeks = new Map<string, StatsPeriod>();
+    const months = new Map<string, StatsPeriod>();
+    const totals = emptyPeriod('');
+    const referrers: Record<string, number> = {};
+    const countries: Record<string, number> = {};
+    const turnstileScores: Record<string, number> = {};
+
+    for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+        days.set(day, emptyPeriod(day));
+        const week = isoWeek(day);
+        if (!weeks.has(week)) weeks.set(week, emptyPeriod(week));
+        const month = day.slice(0, 7);
+        if (!months.has(month)) months.set(month, emptyPeriod(month));
+    }
+
+    for (const [day, counts] of daily) {
+        const periods = [days.get(day), weeks.get(isoWeek(day)), months.get(day.slice(0, 7)), totals];
+
+        for (const [metric, count] of Object.entries(counts)) {
+            const [kind, ...rest] = metric.split(':');
+            const name = rest.join(':');
+
+            if (kind === 'submissions') {
+                for (const period of periods) if (period) period.submissions += count;
+            } else if (kind === 'rejected' && REJECTION_REASONS.includes(name as RejectionReason)) {
+                for (const period of periods) if (period) period.rejected[name as RejectionReason] += count;
+            } else if (kind === 'referrer') {
+                referrers[name] = (referrers[name] ?? 0) + count;
+            } else if (kind === 'country') {
+                countries[name] = (countries[name] ?? 0) + count;
+            } else if (kind === 'score') {
+                turnstileScores[name] = (turnstileScores[name] ?? 0) + count;
+            }
+        }
+    }
+
+    return {
+        formId,
+        totals: { submissions: totals.submissions, rejected: totals.rejected },
+        days: [...days.values()],
+        weeks: [...weeks.values()],
+        months: [...months.values()],
+        topReferrers: top(referrers).map(([referrer, count]) => ({ referrer, count })),
+        topCountries: top(countries).map(([country, count]) => ({ country, count })),
+        turnstileScores: Object.fromEntries(
+            Array.from({ length: 10 }, (_, i) => [`0.${i}`, turnstileScores[`0.${i}`] ?? 0])
+        ),
+    };
+}
+
+async function loadDailyCounts(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    range: StatsRange
+): Promise<Map<string, Record<string, number>>> {
+    const daily = new Map<string, Record<string, number>>();
+
+    if (db) {
+        const result = await db
+            .prepare(
+                `SELECT day, metric, count FROM form_stats
+         WHERE form_id = ? AND day >= ? AND day <= ?`
+            )
+            .bind(formId, range.from, range.to)
+            .all<{ day: string; metric: string; count: number }>();
+
+        for (const row of result.results) {
+            const counts = daily.get(row.day) ?? {};
+            counts[row.metric] = row.count;
+            daily.set(row.day, counts);
+        }
+    } else if (kv) {
+        // Listing first skips the days without submissions
+        const prefix = `stats:${formId}:`;
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list({ prefix, cursor });
+            for (const key of list.keys) {
+                const day = key.name.slice(prefix.length);
+                if (day < range.from || day > range.to) continue;
+
+                const counts = await kv.get(key.name, 'json') as Record<string, number> | null;
+                if (counts) daily.set(day, counts);
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
+    }
+
+    return daily;
+}
+
+function emptyPeriod(period: string): StatsPeriod {
+    return {
+        period,
+        submissions: 0,
+        rejected: Object.fromEntries(REJECTION_REASONS.map(reason => [reason, 0])) as Record<RejectionReason, number>,
+    };
+}
+
+function top(counts: Record<string, number>): [string, number][] {
+    return Object.entries(counts)
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, TOP_LIMIT);
+}
+
+function addDays(day: string, days: number): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+}
+
+/**
+ * ISO 8601 week of a day, e.g. 2024-W09. Weeks start on Monday and belong
+ * to the year their Thursday falls in.
+ */
+function isoWeek(day: string): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    const weekday = date.getUTCDay() || 7;
+    date.setUTCDate(date.getUTCDate() + 4 - weekday);
+
+    const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+
+    return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
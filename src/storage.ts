@@ -1,4 +1,13 @@
 import { nanoid } from 'nanoid';
+import type { SpamVerdict } from './spam';
+import type { OptInState } from './optin';
+import type { CaptchaDetails } from './captcha';
+import {
+    defaultWorkflow,
+    isSubmissionStatus,
+    type SubmissionStatus,
+    type SubmissionWorkflow,
+} from './workflow';
 
 export interface FormSubmission {
     formId: string;
@@ -8,11 +17,157 @@ export interface FormSubmission {
         userAgent: string;
         timestamp: string;
         turnstileScore?: number;
+        captcha?: CaptchaDetails; // where and when the CAPTCHA was solved
+        metadataAnonymizedAt?: string; // IP and user agent anonymised
+        anonymizedAt?: string; // data removed by a retention policy
+        spam?: SpamVerdict; // set when the form has spam scoring configured
+        optIn?: OptInState; // set when the form uses double opt-in
     };
+    workflow?: SubmissionWorkflow; // defaults to a new, unread submission
 }
 
 export interface StoredSubmission extends FormSubmission {
     id: string;
+    workflow: SubmissionWorkflow;
+}
+
+/**
+ * Created-at range filter. `from` is inclusive, `to` is exclusive.
+ */
+export interface DateRange {
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Filter for listing submissions. Field filters match top-level data fields;
+ * array values match if any element matches.
+ */
+export interface SubmissionFilter {
+    range?: DateRange;
+    equals?: Record<string, string>;
+    contains?: Record<string, string>;
+    quarantined?: boolean; // omitted matches both
+    pending?: boolean; // awaiting double opt-in confirmation, omitted matches both
+    status?: SubmissionStatus[];
+    starred?: boolean;
+    read?: boolean;
+    tag?: string;
+}
+
+export interface ListOptions {
+    limit?: number;
+    cursor?: string;
+    filter?: SubmissionFilter;
+    withTotal?: boolean; // counting can mean a full scan on KV
+}
+
+export interface SubmissionPage {
+    submissions: StoredSubmission[];
+    total?: number;
+    nextCursor: string | null;
+}
+
+const FIELD_NAME_PATTERN = /^[\w.-]{1,100}$/;
+
+const SUBMISSION_COLUMNS = 'id, form_id, data, metadata, created_at, status, starred, is_read, tags, notes, updated_at';
+
+// Reverse timestamps make KV list index keys newest first
+const MAX_TIMESTAMP = 9999999999999;
+
+/**
+ * Parse `from`/`to` query values into an ISO date range.
+ * A date without a time as `to` includes that whole day.
+ */
+export function parseDateRange(from?: string, to?: string): { range?: DateRange; error?: string } {
+    const range: DateRange = {};
+
+    if (from) {
+        const date = new Date(from);
+        if (isNaN(date.getTime())) return { error: 'Invalid from date' };
+        range.from = date.toISOString();
+    }
+
+    if (to) {
+        const date = new Date(to);
+        if (isNaN(date.getTime())) return { error: 'Invalid to date' };
+        if (/^\d{4}-\d{2}-\d{2}$/.test(to)) date.setUTCDate(date.getUTCDate() + 1);
+        range.to = date.toISOString();
+    }
+
+    return { range };
+}
+
+/**
+ * Parse listing query parameters into a submission filter:
+ * `from`/`to`, `field[name]=value` for exact matches and
+ * `contains[name]=text` for case-insensitive substring matches,
+ * `quarantined=true|false|all`, `pending=true|false|all` and the workflow filters `status` (comma-separated),
+ * `starred`, `read` and `tag`.
+ */
+export function parseSubmissionFilter(query: Record<string, string>): { filter?: SubmissionFilter; error?: string } {
+    const { range, error } = parseDateRange(query.from, query.to);
+    if (error) return { error };
+
+    const filter: SubmissionFilter = { range };
+
+    for (const [param, value] of Object.entries(query)) {
+        const match = param.match(/^(field|contains)\[(.*)\]$/);
+        if (!match) continue;
+
+        const [, kind, name] = match;
+        if (!FIELD_NAME_PATTERN.test(name)) {
+            return { error: `Invalid field name: ${name}` };
+        }
+
+        const target = kind === 'field' ? (filter.equals ||= {}) : (filter.contains ||= {});
+        target[name] = value;
+    }
+
+    if (query.quarantined !== undefined) {
+        if (!['true', 'false', 'all'].includes(query.quarantined)) {
+            return { error: 'quarantined must be true, false or all' };
+        }
+        if (query.quarantined !== 'all') filter.quarantined = query.quarantined === 'true';
+    }
+
+    if (query.pending !== undefined) {
+        if (!['true', 'false', 'all'].includes(query.pending)) {
+            return { error: 'pending must be true, false or all' };
+        }
+        if (query.pending !== 'all') filter.pending = query.pending === 'true';
+    }
+
+    if (query.status !== undefined) {
+        const statuses = query.status.split(',').map(status => status.trim());
+        if (!statuses.every(isSubmissionStatus)) {
+            return { error: `Invalid status: ${query.status}` };
+        }
+        filter.status = statuses;
+    }
+
+    for (const key of ['starred', 'read'] as const) {
+        if (query[key] !== undefined) {
+            if (query[key] !== 'true' && query[key] !== 'false') {
+                return { error: `${key} must be true or false` };
+            }
+            filter[key] = query[key] === 'true';
+        }
+    }
+
+    if (query.tag) {
+        filter.tag = query.tag;
+    }
+
+    return { filter };
+}
+
+/**
+ * Check that a listing cursor was issued by getSubmissions for the storage
+ * backend in use (D1 when `db` is set, otherwise KV)
+ */
+export function isValidCursor(cursor: string, db?: D1Database): boolean {
+    return (db ? decodeSqlCursor(cursor) : decodeKvCursor(cursor)) !== undefined;
 }
 
 /**
@@ -23,26 +178,33 @@ export async function storeSubmission(
     submission: FormSubmission,
     kv?: KVNamespace,
     db?: D1Database,
+    submissionId: string = nanoid(),
 ): Promise<string> {
-    const submissionId = nanoid();
     const storedSubmission: StoredSubmission = {
         id: submissionId,
         ...submission,
+        workflow: submission.workflow ?? defaultWorkflow(),
     };
+    const { workflow } = storedSubmission;
 
     // Prefer D1 if available, fallback to KV
     if (db) {
         await db
             .prepare(
-                `INSERT INTO submissions (id, form_id, data, metadata, created_at)
-         VALUES (?, ?, ?, ?, ?)`
+                `INSERT INTO submissions (id, form_id, data, metadata, created_at, status, starred, is_read, tags, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
             )
             .bind(
                 submissionId,
                 submission.formId,
                 JSON.stringify(submission.data),
                 JSON.stringify(submission.metadata),
-                submission.metadata.timestamp
+                submission.metadata.timestamp,
+                workflow.status,
+                workflow.starred ? 1 : 0,
+                workflow.read ? 1 : 0,
+                JSON.stringify(workflow.tags),
+                JSON.stringify(workflow.notes)
             )
             .run();
     } else if (kv) {
@@ -55,14 +217,7 @@ export async function storeSubmission(
             },
         });
 
-        // Also maintain an index for the form
-        const indexKey = `index:${submission.formId}`;
-        const existingIndex = await kv.get(indexKey, 'json') as string[] || [];
-        existingIndex.unshift(submissionId); // Add to beginning
-
-        // Keep only last 1000 submissions in index
-        const trimmedIndex = existingIndex.slice(0, 1000);
-        await kv.put(indexKey, JSON.stringify(trimmedIndex));
+        await putKvIndexKey(kv, storedSubmission);
     } else {
         throw new Error('No storage backend configured');
     }
@@ -71,92 +226,642 @@ export async function storeSubmission(
 }
 
 /**
- * Get submissions for a specific form
+ * Get a page of submissions for a specific form, newest first.
+ * Pass the returned nextCursor back in to get the following page.
  */
 export async function getSubmissions(
-    kv?: KVNamespace,
-    db?: D1Database,
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
     formId: string,
-    limit: number = 100,
-    offset: number = 0
-): Promise<StoredSubmission[]> {
+    options: ListOptions = {}
+): Promise<SubmissionPage> {
+    const limit = options.limit ?? 100;
+    const filter = options.filter ?? {};
+    const withTotal = options.withTotal ?? true;
+
     if (db) {
+        const cursor = decodeSqlCursor(options.cursor);
+        const where = buildSqlFilter(formId, filter);
+
+        if (cursor) {
+            where.conditions.push('(created_at < ? OR (created_at = ? AND id < ?))');
+            where.params.push(cursor.t, cursor.t, cursor.id);
+        }
+
         const result = await db
             .prepare(
-                `SELECT id, form_id, data, metadata, created_at
+                `SELECT ${SUBMISSION_COLUMNS}
          FROM submissions
-         WHERE form_id = ?
-         ORDER BY created_at DESC
-         LIMIT ? OFFSET ?`
+         WHERE ${where.conditions.join(' AND ')}
+         ORDER BY created_at DESC, id DESC
+         LIMIT ?`
             )
-            .bind(formId, limit, offset)
+            .bind(...where.params, limit + 1)
             .all();
 
-        return result.results.map((row: any) => ({
-            id: row.id,
-            formId: row.form_id,
-            data: JSON.parse(row.data),
-            metadata: JSON.parse(row.metadata),
-        }));
+        const rows = result.results as any[];
+        const page = rows.slice(0, limit);
+        const last = page[page.length - 1];
+
+        let total: number | undefined;
+        if (withTotal) {
+            const countWhere = buildSqlFilter(formId, filter);
+            const count = await db
+                .prepare(`SELECT COUNT(*) AS total FROM submissions WHERE ${countWhere.conditions.join(' AND ')}`)
+                .bind(...countWhere.params)
+                .first();
+            total = count?.total as number;
+        }
+
+        return {
+            submissions: page.map(rowToSubmission),
+            total,
+            nextCursor: rows.length > limit ? encodeCursor({ t: last.created_at, id: last.id }) : null,
+        };
     } else if (kv) {
-        const indexKey = `index:${formId}`;
-        const index = await kv.get(indexKey, 'json') as string[] || [];
+        await migrateLegacyKvIndex(kv, formId);
 
-        const submissionIds = index.slice(offset, offset + limit);
+        const cursor = decodeKvCursor(options.cursor) ?? { o: 0 };
         const submissions: StoredSubmission[] = [];
+        let listCursor = cursor.c;
+        let position = cursor.o;
+        let nextCursor: string | null = null;
+
+        scan: while (true) {
+            const list = await kv.list<KvIndexMetadata>({ prefix: `idx:${formId}:`, cursor: listCursor });
+            const keys = list.keys;
 
-        for (const id of submissionIds) {
-            const key = `submission:${formId}:${id}`;
-            const submission = await kv.get(key, 'json') as StoredSubmission;
-            if (submission) {
-                submissions.push(submission);
+            while (position < keys.length) {
+                // Fetch values in chunks rather than one at a time
+                const chunk = keys.slice(position, position + Math.max(limit - submissions.length, 10));
+                const values = await Promise.all(chunk.map(key =>
+                    matchesIndex(key.metadata, filter)
+                        ? getKvSubmission(kv, formId, key.name.split(':').pop()!)
+                        : null
+                ));
+
+                for (let i = 0; i < chunk.length; i++) {
+                    position++;
+                    const submission = values[i];
+                    if (!submission || !matchesFilter(submission, filter)) continue;
+
+                    submissions.push(submission);
+                    if (submissions.length === limit) {
+                        if (position < keys.length) {
+                            nextCursor = encodeCursor({ c: listCursor, o: position });
+                        } else if (!list.list_complete) {
+                            nextCursor = encodeCursor({ c: list.cursor, o: 0 });
+                        }
+                        break scan;
+                    }
+                }
+
+                // Keys are sorted newest first, so nothing older can match
+                const oldest = chunk[chunk.length - 1].metadata?.timestamp;
+                if (filter.range?.from && oldest && oldest < filter.range.from) break scan;
             }
+
+            if (list.list_complete) break;
+            listCursor = list.cursor;
+            position = 0;
         }
 
-        return submissions;
+        return {
+            submissions,
+            total: withTotal ? await countKvSubmissions(kv, formId, filter) : undefined,
+            nextCursor,
+        };
     }
 
-    return [];
+    return { submissions: [], total: withTotal ? 0 : undefined, nextCursor: null };
 }
 
 /**
  * Get a specific submission by ID
  */
 export async function getSubmission(
-    kv?: KVNamespace,
-    db?: D1Database,
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
     submissionId: string
 ): Promise<StoredSubmission | null> {
     if (db) {
         const result = await db
             .prepare(
-                `SELECT id, form_id, data, metadata, created_at
+                `SELECT ${SUBMISSION_COLUMNS}
          FROM submissions
          WHERE id = ?`
             )
             .bind(submissionId)
             .first();
 
-        if (!result) return null;
-
-        return {
-            id: result.id as string,
-            formId: result.form_id as string,
-            data: JSON.parse(result.data as string),
-            metadata: JSON.parse(result.metadata as string),
-        };
+        return result ? rowToSubmission(result) : null;
     } else if (kv) {
         // We need to scan through form indexes to find the submission
         // This is inefficient with KV - D1 is recommended for this use case
-        const list = await kv.list({ prefix: 'submission:' });
+        let cursor: string | undefined;
 
-        for (const key of list.keys) {
-            if (key.name.endsWith(`:${submissionId}`)) {
-                const submission = await kv.get(key.name, 'json') as StoredSubmission;
-                return submission;
+        do {
+            const list = await kv.list({ prefix: 'submission:', cursor });
+
+            for (const key of list.keys) {
+                if (key.name.endsWith(`:${submissionId}`)) {
+                    const submission = await kv.get(key.name, 'json') as StoredSubmission | null;
+                    return submission && withWorkflowDefaults(submission);
+                }
             }
-        }
+
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
     }
 
     return null;
 }
+
+
+/**
+ * Overwrite a stored submission's data and metadata
+ */
+export async function updateSubmission(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    submission: StoredSubmission
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare(
+                `UPDATE submissions
+         SET data = ?, metadata = ?, status = ?, starred = ?, is_read = ?, tags = ?, notes = ?, updated_at = ?
+         WHERE id = ?`
+            )
+            .bind(
+                JSON.stringify(submission.data),
+                JSON.stringify(submission.metadata),
+                submission.workflow.status,
+                submission.workflow.starred ? 1 : 0,
+                submission.workflow.read ? 1 : 0,
+                JSON.stringify(submission.workflow.tags),
+                JSON.stringify(submission.workflow.notes),
+                submission.workflow.updatedAt ?? null,
+                submission.id
+            )
+            .run();
+    } else if (kv) {
+        await kv.put(`submission:${submission.formId}:${submission.id}`, JSON.stringify(submission), {
+            metadata: {
+                formId: submission.formId,
+                timestamp: submission.metadata.timestamp,
+            },
+        });
+        await putKvIndexKey(kv, submission);
+    } else {
+        throw new Error('No storage backend configured');
+    }
+}
+
+/**
+ * Delete a submission record and its index entry
+ */
+export async function deleteSubmission(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    submission: StoredSubmission
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare('DELETE FROM submissions WHERE id = ?')
+            .bind(submission.id)
+            .run();
+    } else if (kv) {
+        await kv.delete(`submission:${submission.formId}:${submission.id}`);
+        await kv.delete(kvIndexKey(submission.formId, submission.metadata.timestamp, submission.id));
+    } else {
+        throw new Error('No storage backend configured');
+    }
+}
+
+/**
+ * Find up to `limit` submissions created before a cutoff, oldest first.
+ * With `unless`, submissions that already have that metadata marker are skipped.
+ */
+export async function getSubmissionsBefore(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    before: string,
+    unless?: 'anonymizedAt' | 'metadataAnonymizedAt',
+    limit: number = 100
+): Promise<StoredSubmission[]> {
+    if (db) {
+        const marker = unless ? `AND json_extract(metadata, '$.${unless}') IS NULL` : '';
+        const result = await db
+            .prepare(
+                `SELECT ${SUBMISSION_COLUMNS}
+         FROM submissions
+         WHERE form_id = ? AND created_at < ? ${marker}
+         ORDER BY created_at
+         LIMIT ?`
+            )
+            .bind(formId, before, limit)
+            .all();
+
+        return result.results.map(rowToSubmission);
+    } else if (kv) {
+        await migrateLegacyKvIndex(kv, formId);
+
+        // Index keys carry the markers, so only matching submissions are read
+        const names: string[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list<KvIndexMetadata>({ prefix: `idx:${formId}:`, cursor });
+            for (const key of list.keys) {
+                const metadata = key.metadata;
+                if (metadata && metadata.timestamp < before && !(unless && metadata[unless])) {
+                    names.push(key.name);
+                }
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
+
+        const oldest = names.slice(-limit).reverse();
+        const values = await Promise.all(oldest.map(name => getKvSubmission(kv, formId, name.split(':').pop()!)));
+        return values.filter((submission): submission is StoredSubmission => !!submission);
+    }
+
+    return [];
+}
+
+/**
+ * Iterate over every submission for a form, newest first, in batches.
+ * Unlike a single getSubmissions call this walks every page.
+ */
+export async function* iterateSubmissions(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    filter: SubmissionFilter = {},
+    batchSize: number = 100
+): AsyncGenerator<StoredSubmission> {
+    let cursor: string | undefined;
+
+    do {
+        const page = await getSubmissions(kv, db, formId, {
+            limit: batchSize,
+            cursor,
+            filter,
+            withTotal: false,
+        });
+
+        yield* page.submissions;
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+}
+
+/**
+ * List the IDs of every form that has stored submissions, including forms
+ * that have since been deleted from the registry
+ */
+export async function listSubmissionFormIds(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined
+): Promise<string[]> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT DISTINCT form_id FROM submissions')
+            .all<{ form_id: string }>();
+
+        return result.results.map(row => row.form_id);
+    } else if (kv) {
+        const formIds = new Set<string>();
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list({ prefix: 'submission:', cursor });
+            for (const key of list.keys) {
+                // submission:<formId>:<submissionId>, where submission IDs never contain a colon
+                formIds.add(key.name.slice('submission:'.length, key.name.lastIndexOf(':')));
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor);
+
+        return [...formIds];
+    }
+
+    return [];
+}
+
+/**
+ * Get the union of all data field names used by the submissions of a form that match a filter
+ */
+export async function getSubmissionFieldNames(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    formId: string,
+    filter: SubmissionFilter = {}
+): Promise<string[]> {
+    if (db) {
+        const { conditions, params } = buildSqlFilter(formId, filter);
+
+        const result = await db
+            .prepare(
+                `SELECT fields.key AS name, MIN(submissions.created_at) AS first_seen
+         FROM submissions, json_each(submissions.data) AS fields
+         WHERE ${conditions.join(' AND ')}
+         GROUP BY fields.key
+         ORDER BY first_seen, fields.key`
+            )
+            .bind(...params)
+            .all();
+
+        return result.results.map((row: any) => row.name as string);
+    }
+
+    // KV has no way to query inside values, so scan every submission
+    const names = new Set<string>();
+    for await (const submission of iterateSubmissions(kv, db, formId, filter)) {
+        Object.keys(submission.data).forEach(name => names.add(name));
+    }
+    return [...names];
+}
+
+/**
+ * Build the WHERE clause for a filtered D1 listing
+ */
+function buildSqlFilter(formId: string, filter: SubmissionFilter): { conditions: string[]; params: any[] } {
+    const conditions = ['form_id = ?'];
+    const params: any[] = [formId];
+
+    if (filter.range?.from) {
+        conditions.push('created_at >= ?');
+        params.push(filter.range.from);
+    }
+    if (filter.range?.to) {
+        conditions.push('created_at < ?');
+        params.push(filter.range.to);
+    }
+
+    for (const [name, value] of Object.entries(filter.equals ?? {})) {
+        // json_each walks array elements, or yields the value itself for scalars
+        conditions.push(
+            `EXISTS (SELECT 1 FROM json_each(submissions.data, ?)
+             WHERE CASE WHEN type IN ('true', 'false') THEN type ELSE CAST(value AS TEXT) END = ?)`
+        );
+        params.push(jsonPath(name), value);
+    }
+
+    if (filter.quarantined !== undefined) {
+        conditions.push(`COALESCE(json_extract(submissions.metadata, '$.spam.quarantined'), 0) = ?`);
+        params.push(filter.quarantined ? 1 : 0);
+    }
+
+    if (filter.pending !== undefined) {
+        conditions.push(`COALESCE(json_extract(submissions.metadata, '$.optIn.status'), '') ${filter.pending ? '=' : '<>'} 'pending'`);
+    }
+
+    if (filter.status) {
+        conditions.push(`status IN (${filter.status.map(() => '?').join(', ')})`);
+        params.push(...filter.status);
+    }
+    if (filter.starred !== undefined) {
+        conditions.push('starred = ?');
+        params.push(filter.starred ? 1 : 0);
+    }
+    if (filter.read !== undefined) {
+        conditions.push('is_read = ?');
+        params.push(filter.read ? 1 : 0);
+    }
+    if (filter.tag) {
+        conditions.push('EXISTS (SELECT 1 FROM json_each(submissions.tags) WHERE value = ?)');
+        params.push(filter.tag);
+    }
+
+    for (const [name, value] of Object.entries(filter.contains ?? {})) {
+        conditions.push('instr(lower(CAST(json_extract(submissions.data, ?) AS TEXT)), lower(?)) > 0');
+        params.push(jsonPath(name), value);
+    }
+
+    return { conditions, params };
+}
+
+function jsonPath(name: string): string {
+    return `$."${name}"`;
+}
+
+function matchesRange(timestamp: string | undefined, range: DateRange = {}): boolean {
+    if (!timestamp) return true;
+    return (!range.from || timestamp >= range.from) && (!range.to || timestamp < range.to);
+}
+
+/**
+ * Check the parts of a filter that KV index key metadata can answer
+ */
+function matchesIndex(metadata: KvIndexMetadata | null | undefined, filter: SubmissionFilter): boolean {
+    if (!metadata) return true;
+    if (filter.quarantined !== undefined && !!metadata.quarantined !== filter.quarantined) return false;
+    if (filter.pending !== undefined && !!metadata.pending !== filter.pending) return false;
+    if (filter.status && !filter.status.includes(metadata.status ?? 'new')) return false;
+    if (filter.starred !== undefined && !!metadata.starred !== filter.starred) return false;
+    if (filter.read !== undefined && !!metadata.read !== filter.read) return false;
+    return matchesRange(metadata.timestamp, filter.range);
+}
+
+/**
+ * In-memory equivalent of buildSqlFilter, used for KV
+ */
+function matchesFilter(submission: StoredSubmission, filter: SubmissionFilter): boolean {
+    if (!matchesRange(submission.metadata.timestamp, filter.range)) return false;
+
+    if (filter.quarantined !== undefined && !!submission.metadata.spam?.quarantined !== filter.quarantined) {
+        return false;
+    }
+    if (filter.pending !== undefined && isPending(submission) !== filter.pending) return false;
+
+    const { workflow } = submission;
+    if (filter.status && !filter.status.includes(workflow.status)) return false;
+    if (filter.starred !== undefined && workflow.starred !== filter.starred) return false;
+    if (filter.read !== undefined && workflow.read !== filter.read) return false;
+    if (filter.tag && !workflow.tags.includes(filter.tag)) return false;
+
+    for (const [name, expected] of Object.entries(filter.equals ?? {})) {
+        const value = submission.data[name];
+        const items = Array.isArray(value) ? value : [value];
+        if (!items.some(item => item !== undefined && item !== null && typeof item !== 'object' && String(item) === expected)) {
+            return false;
+        }
+    }
+
+    for (const [name, expected] of Object.entries(filter.contains ?? {})) {
+        const value = submission.data[name];
+        if (value === undefined || value === null) return false;
+
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        if (!text.toLowerCase().includes(expected.toLowerCase())) return false;
+    }
+
+    return true;
+}
+
+function isPending(submission: StoredSubmission): boolean {
+    return submission.metadata.optIn?.status === 'pending';
+}
+
+// Filters that index key metadata can't answer
+function hasFieldFilters(filter: SubmissionFilter): boolean {
+    return Object.keys(filter.equals ?? {}).length > 0
+        || Object.keys(filter.contains ?? {}).length > 0
+        || !!filter.tag;
+}
+
+/**
+ * Count matching KV submissions. Date ranges, quarantine, opt-in and workflow flags are
+ * answered from index key metadata; field and tag filters have to read every submission.
+ */
+async function countKvSubmissions(kv: KVNamespace, formId: string, filter: SubmissionFilter): Promise<number> {
+    const readValues = hasFieldFilters(filter);
+    let total = 0;
+    let cursor: string | undefined;
+
+    do {
+        const list = await kv.list<KvIndexMetadata>({ prefix: `idx:${formId}:`, cursor });
+        const keys = list.keys.filter(key => matchesIndex(key.metadata, filter));
+
+        if (readValues) {
+            const values = await Promise.all(keys.map(key => getKvSubmission(kv, formId, key.name.split(':').pop()!)));
+            total += values.filter(submission => submission && matchesFilter(submission, filter)).length;
+        } else {
+            total += keys.length;
+        }
+
+        cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return total;
+}
+
+interface KvIndexMetadata {
+    timestamp: string;
+    anonymizedAt?: string;
+    metadataAnonymizedAt?: string;
+    quarantined?: boolean;
+    pending?: boolean;
+    status?: SubmissionStatus;
+    starred?: boolean;
+    read?: boolean;
+}
+
+// Index key sorts newest first when listed
+async function putKvIndexKey(kv: KVNamespace, submission: StoredSubmission): Promise<void> {
+    const { timestamp, anonymizedAt, metadataAnonymizedAt, spam } = submission.metadata;
+    const metadata: KvIndexMetadata = {
+        timestamp,
+        anonymizedAt,
+        metadataAnonymizedAt,
+        quarantined: spam?.quarantined || undefined,
+        pending: isPending(submission) || undefined,
+        status: submission.workflow.status,
+        starred: submission.workflow.starred || undefined,
+        read: submission.workflow.read || undefined,
+    };
+
+    await kv.put(kvIndexKey(submission.formId, timestamp, submission.id), '', { metadata });
+}
+
+async function getKvSubmission(kv: KVNamespace, formId: string, submissionId: string): Promise<StoredSubmission | null> {
+    const submission = await kv.get(`submission:${formId}:${submissionId}`, 'json') as StoredSubmission | null;
+    return submission && withWorkflowDefaults(submission);
+}
+
+// Submissions stored before workflow state existed
+function withWorkflowDefaults(submission: StoredSubmission): StoredSubmission {
+    return { ...submission, workflow: { ...defaultWorkflow(), ...submission.workflow } };
+}
+
+function kvIndexKey(formId: string, timestamp: string, submissionId: string): string {
+    const reversed = String(MAX_TIMESTAMP - Date.parse(timestamp)).padStart(13, '0');
+    return `idx:${formId}:${reversed}:${submissionId}`;
+}
+
+/**
+ * Older versions kept a single `index:<formId>` JSON array capped at 1000
+ * entries. Rebuild per-submission index keys from the stored submissions
+ * the first time such a form is listed.
+ */
+async function migrateLegacyKvIndex(kv: KVNamespace, formId: string): Promise<void> {
+    const legacyKey = `index:${formId}`;
+    if (await kv.get(legacyKey) === null) return;
+
+    let cursor: string | undefined;
+
+    do {
+        const list = await kv.list<{ timestamp: string }>({ prefix: `submission:${formId}:`, cursor });
+
+        await Promise.all(list.keys.map(async key => {
+            const submissionId = key.name.slice(`submission:${formId}:`.length);
+            let timestamp = key.metadata?.timestamp;
+
+            if (!timestamp) {
+                const submission = await kv.get(key.name, 'json') as StoredSubmission | null;
+                timestamp = submission?.metadata.timestamp;
+            }
+            if (!timestamp) return;
+
+            await kv.put(kvIndexKey(formId, timestamp, submissionId), '', { metadata: { timestamp } });
+        }));
+
+        cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    await kv.delete(legacyKey);
+}
+
+function encodeCursor(value: object): string {
+    return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string | undefined): Record<string, unknown> | undefined {
+    if (!cursor) return undefined;
+
+    try {
+        const value = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+        return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * D1 cursors hold the created_at and id of the last submission on the page
+ */
+function decodeSqlCursor(cursor: string | undefined): { t: string; id: string } | undefined {
+    const value = decodeCursor(cursor);
+    return typeof value?.t === 'string' && typeof value.id === 'string'
+        ? { t: value.t, id: value.id }
+        : undefined;
+}
+
+/**
+ * KV cursors hold the index list cursor and how far into that list page to continue
+ */
+function decodeKvCursor(cursor: string | undefined): { c?: string; o: number } | undefined {
+    const value = decodeCursor(cursor);
+    if (!value || !Number.isInteger(value.o) || (value.o as number) < 0) return undefined;
+    if (value.c !== undefined && typeof value.c !== 'string') return undefined;
+    return { c: value.c as string | undefined, o: value.o as number };
+}
+
+function rowToSubmission(row: any): StoredSubmission {
+    return {
+        id: row.id as string,
+        formId: row.form_id as string,
+        data: JSON.parse(row.data as string),
+        metadata: JSON.parse(row.metadata as string),
+        workflow: {
+            status: row.status ?? 'new',
+            starred: !!row.starred,
+            read: !!row.is_read,
+            tags: JSON.parse(row.tags ?? '[]'),
+            notes: JSON.parse(row.notes ?? '[]'),
+            updatedAt: row.updated_at ?? undefined,
+        },
+    };
+}
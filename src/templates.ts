@@ -0,0 +1,318 @@
+/**
+ * A small Handlebars-style template language for notification emails:
+ * `{{path}}` (escaped), `{{{path}}}` (raw), `{{#if path}}…{{else}}…{{/if}}`
+ * and `{{#each path}}…{{else}}…{{/each}}` with `this`, `@key`, `@index`, `@first` and `@last`.
+ */
+
+import { isFileReference } from './files';
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'value'; path: string[]; raw: boolean }
+    | { type: 'if'; path: string[]; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'each'; path: string[]; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export type CompiledTemplate = TemplateNode[];
+
+export type TemplateEscape = 'html' | 'none';
+
+interface Block {
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+    inElse: boolean;
+}
+
+// A loop frame: `this` plus the @-variables of the current iteration
+interface Scope {
+    value: any;
+    key?: string | number;
+    index?: number;
+    first?: boolean;
+    last?: boolean;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([^}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(@key|@index|@first|@last|this|(this\.)?[\w-]+(\.[\w-]+)*)$/;
+
+const MAX_NESTING = 10;
+
+/**
+ * Parse a template, reporting the first syntax error
+ */
+export function compileTemplate(source: string): { template?: CompiledTemplate; error?: string } {
+    const root: TemplateNode[] = [];
+    const stack: Block[] = [];
+    const current = () => {
+        const block = stack[stack.length - 1];
+        if (!block) return root;
+        if (block.inElse) return block.node.otherwise;
+        return block.node.type === 'if' ? block.node.then : block.node.body;
+    };
+
+    let position = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        const raw = match[1] !== undefined;
+        const tag = (raw ? match[1] : match[2]).trim();
+
+        // Block tags on a line of their own take the whole line with them
+        let start = match.index!;
+        let end = start + match[0].length;
+        if (!raw && /^([#/]|else$)/.test(tag)) {
+            const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+            const lineEnd = source.indexOf('\n', end);
+            const after = lineEnd === -1 ? source.length : lineEnd + 1;
+            if (
+                lineStart >= position &&
+                !source.slice(lineStart, start).trim() &&
+                !source.slice(end, after).trim()
+            ) {
+                start = lineStart;
+                end = after;
+            }
+        }
+
+        if (start > position) {
+            current().push({ type: 'text', text: source.slice(position, start) });
+        }
+        position = end;
+
+        if (raw) {
+            if (!PATH_PATTERN.test(tag)) return { error: `Invalid placeholder {{{${tag}}}}` };
+            current().push({ type: 'value', path: parsePath(tag), raw: true });
+            continue;
+        }
+
+        const open = tag.match(/^#(if|each)\s+(\S+)$/);
+        if (open) {
+            if (!PATH_PATTERN.test(open[2])) return { error: `Invalid placeholder in {{${tag}}}` };
+            if (stack.length >= MAX_NESTING) return { error: `Blocks can be nested at most ${MAX_NESTING} deep` };
+
+            const path = parsePath(open[2]);
+            const node: Block['node'] = open[1] === 'if'
+                ? { type: 'if', path, then: [], otherwise: [] }
+                : { type: 'each', path, body: [], otherwise: [] };
+            current().push(node);
+            stack.push({ node, inElse: false });
+            continue;
+        }
+
+        if (tag === 'else') {
+            const block = stack[stack.length - 1];
+            if (!block || block.inElse) return { error: 'Unexpected {{else}}' };
+            block.inElse = true;
+            continue;
+        }
+
+        const close = tag.match(/^\/(if|each)$/);
+        if (close) {
+            const block = stack.pop();
+            if (!block || block.node.type !== close[1]) return { error: `Unexpected {{${tag}}}` };
+            continue;
+        }
+
+        if (!PATH_PATTERN.test(tag)) return { error: `Invalid placeholder {{${tag}}}` };
+        current().push({ type: 'value', path: parsePath(tag), raw: false });
+    }
+
+    if (stack.length > 0) {
+        return { error: `Missing {{/${stack[stack.length - 1].node.type}}}` };
+    }
+
+    if (position < source.length) {
+        root.push({ type: 'text', text: source.slice(position) });
+    }
+
+    return { template: root };
+}
+
+/**
+ * Render a template against a context. Values are HTML-escaped unless
+ * `escape` is "none" or the placeholder uses triple braces.
+ */
+export function renderTemplate(
+    template: string | CompiledTemplate,
+    context: Record<string, any>,
+    escape: TemplateEscape
+): string {
+    let nodes = template;
+    if (typeof nodes === 'string') {
+        const compiled = compileTemplate(nodes);
+        if (!compiled.template) throw new Error(compiled.error);
+        nodes = compiled.template;
+    }
+
+    return renderNodes(nodes, [{ value: context }], escape);
+}
+
+/**
+ * Format a submitted value as text: arrays as lists, objects as
+ * indented `key: value` lines and uploaded files by name
+ */
+export function formatValue(value: any, indent = ''): string {
+    if (value === null || value === undefined) return '';
+    if (isFileReference(value)) return value.name;
+
+    if (Array.isArray(value)) {
+        if (value.every(item => !isNested(item))) {
+            return value.map(item => formatValue(item)).join(', ');
+        }
+        return value
+            .map(item => `${indent}- ${formatValue(item, `${indent}  `).trimStart()}`)
+            .join('\n');
+    }
+
+    if (typeof value === 'object') {
+        return Object.entries(value)
+            .map(([key, item]) => isNested(item)
+                ? `${indent}${key}:\n${formatValue(item, `${indent}  `)}`
+                : `${indent}${key}: ${formatValue(item)}`)
+            .join('\n');
+    }
+
+    return String(value);
+}
+
+/**
+ * Escape HTML to prevent XSS
+ */
+export function escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+/**
+ * Derive a plain-text version of a rendered HTML email
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<(head|style|script)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, text) => `${text} (${href})`)
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol)>/gi, '\n')
+        .replace(/<\/t[dh]>/gi, ' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#0?39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], escape: TemplateEscape): string {
+    let output = '';
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.text;
+                break;
+
+            case 'value': {
+                const text = formatValue(resolvePath(node.path, scopes));
+                output += escape === 'html' && !node.raw ? escapeHtml(text) : text;
+                break;
+            }
+
+            case 'if':
+                output += renderNodes(
+                    isTruthy(resolvePath(node.path, scopes)) ? node.then : node.otherwise,
+                    scopes,
+                    escape
+                );
+                break;
+
+            case 'each': {
+                const value = resolvePath(node.path, scopes);
+                const entries: [string | number, any][] = Array.isArray(value)
+                    ? value.map((item, index) => [index, item])
+                    : value && typeof value === 'object' && !isFileReference(value) ? Object.entries(value) : [];
+
+                if (entries.length === 0) {
+                    output += renderNodes(node.otherwise, scopes, escape);
+                    break;
+                }
+
+                entries.forEach(([key, item], index) => {
+                    output += renderNodes(node.body, [...scopes, {
+                        value: item,
+                        key,
+                        index,
+                        first: index === 0,
+                        last: index === entries.length - 1,
+                    }], escape);
+                });
+                break;
+            }
+        }
+    }
+
+    return output;
+}
+
+function parsePath(path: string): string[] {
+    return path.split('.');
+}
+
+/**
+ * Look a path up in the innermost loop first, then in the enclosing ones,
+ * so `{{name}}` inside `{{#each files}}` finds the file's name
+ */
+function resolvePath(path: string[], scopes: Scope[]): any {
+    const scope = scopes[scopes.length - 1];
+    const [head, ...rest] = path;
+
+    switch (head) {
+        case '@key': return scope.key;
+        case '@index': return scope.index;
+        case '@first': return scope.first;
+        case '@last': return scope.last;
+        case 'this': return lookup(scope.value, rest);
+    }
+
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const value = lookup(scopes[i].value, path);
+        if (value !== undefined) return value;
+    }
+    return undefined;
+}
+
+/**
+ * Follow a path, preferring the longest matching key so that
+ * field names containing dots (e.g. `fields.address.city`) still resolve
+ */
+function lookup(value: any, path: string[]): any {
+    if (path.length === 0) return value;
+    if (!value || typeof value !== 'object') return undefined;
+
+    for (let length = path.length; length > 0; length--) {
+        const key = path.slice(0, length).join('.');
+        if (Object.prototype.hasOwnProperty.call(value, key)) {
+            const found = lookup(value[key], path.slice(length));
+            if (found !== undefined) return found;
+        }
+    }
+    return undefined;
+}
+
+function isTruthy(value: any): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.keys(value).length > 0;
+    return !!value;
+}
+
+// Objects, and arrays containing objects, are laid out over several lines
+function isNested(value: any): boolean {
+    return !!value && typeof value === 'object' && !isFileReference(value)
+        && (!Array.isArray(value) || value.some(isNested));
+}
@@ -1,47 +1,288 @@
 /**
- * Verify Cloudflare Turnstile token
+ * Verify Cloudflare Turnstile tokens, and check that a token was issued
+ * for the form's hostnames and action and is still recent
  */
-export async function verifyTurnstile(
-    token: string,
-    secretKey: string,
-    remoteIP: string
-): Promise<{
+
+import type { FormConfig } from './forms';
+
+export interface TurnstileConfig {
+    hostnames?: string[]; // defaults to the hostnames of the form's allowedOrigins
+    allowMissingAction?: boolean; // accept tokens from widgets without an action, not only ones for this form
+    maxTokenAgeSeconds?: number; // defaults to 300, the lifetime of a token
+    secretKeys?: Record<string, string>; // secret key per hostname, for forms embedded on several sites
+}
+
+/**
+ * What the token says about where it was solved, kept with the submission
+ */
+export interface TurnstileToken {
+    hostname?: string;
+    action?: string;
+    cdata?: string;
+    challengeTs?: string;
+}
+
+export interface TurnstileResult {
     success: boolean;
     score?: number;
     errors?: string[];
-}> {
-    const formData = new FormData();
-    formData.append('secret', secretKey);
-    formData.append('response', token);
-    formData.append('remoteip', remoteIP);
+    token?: TurnstileToken;
+    unavailable?: boolean; // siteverify couldn't be reached, so the token is unverified rather than invalid
+}
 
-    try {
-        const response = await fetch(
-            'https://challenges.cloudflare.com/turnstile/v0/siteverify',
-            {
+export interface TurnstileOptions {
+    hostnames?: string[];
+    action?: string;
+    allowMissingAction?: boolean;
+    maxTokenAgeSeconds?: number;
+}
+
+export interface TurnstileEnv {
+    TURNSTILE_SECRET_KEY: string;
+    TURNSTILE_SECRET_KEYS?: string; // JSON object of hostname to secret key
+}
+
+const SITEVERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+const MAX_TOKEN_AGE_SECONDS = 300;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 250;
+
+/**
+ * Validate a Turnstile configuration supplied through the forms API
+ */
+export function parseTurnstileConfig(value: any): { turnstile?: TurnstileConfig; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'turnstile must be an object' };
+    }
+
+    const turnstile: TurnstileConfig = {};
+
+    if (value.hostnames !== undefined && value.hostnames !== null) {
+        if (!Array.isArray(value.hostnames) || !value.hostnames.every(isHostnamePattern)) {
+            return { error: 'turnstile.hostnames must be a list of hostnames, optionally starting with *.' };
+        }
+        turnstile.hostnames = value.hostnames.map((hostname: string) => hostname.toLowerCase());
+    }
+
+    if (value.allowMissingAction !== undefined && value.allowMissingAction !== null) {
+        if (typeof value.allowMissingAction !== 'boolean') {
+            return { error: 'turnstile.allowMissingAction must be a boolean' };
+        }
+        turnstile.allowMissingAction = value.allowMissingAction;
+    }
+
+    if (value.maxTokenAgeSeconds !== undefined && value.maxTokenAgeSeconds !== null) {
+        if (
+            !Number.isInteger(value.maxTokenAgeSeconds) ||
+            value.maxTokenAgeSeconds < 1 ||
+            value.maxTokenAgeSeconds > MAX_TOKEN_AGE_SECONDS
+        ) {
+            return { error: `turnstile.maxTokenAgeSeconds must be an integer from 1 to ${MAX_TOKEN_AGE_SECONDS}` };
+        }
+        turnstile.maxTokenAgeSeconds = value.maxTokenAgeSeconds;
+    }
+
+    if (value.secretKeys !== undefined && value.secretKeys !== null) {
+        if (
+            typeof value.secretKeys !== 'object' ||
+            Array.isArray(value.secretKeys) ||
+            !Object.entries(value.secretKeys).every(([hostname, key]) => isHostnamePattern(hostname) && typeof key === 'string' && key)
+        ) {
+            return { error: 'turnstile.secretKeys must map hostnames to secret keys' };
+        }
+        turnstile.secretKeys = Object.fromEntries(
+            Object.entries(value.secretKeys as Record<string, string>).map(([hostname, key]) => [hostname.toLowerCase(), key])
+        );
+    }
+
+    return { turnstile };
+}
+
+/**
+ * Hide per-hostname secret keys in API responses, keeping the hostnames they are for
+ */
+export function redactTurnstile(turnstile: TurnstileConfig) {
+    const { secretKeys, ...rest } = turnstile;
+    return { ...rest, secretKeyHostnames: Object.keys(secretKeys ?? {}) };
+}
+
+/**
+ * Hostnames a form's tokens must be issued for: the configured list, or the
+ * hostnames of its allowed origins. Empty when any hostname is accepted.
+ */
+export function turnstileHostnames(form: FormConfig): string[] {
+    return form.turnstile?.hostnames ?? originHostnames(form);
+}
+
+/**
+ * Hostnames of a form's allowed origins. Empty when any origin is allowed.
+ */
+export function originHostnames(form: FormConfig): string[] {
+    if (form.allowedOrigins.includes('*')) return [];
+
+    return form.allowedOrigins.flatMap((origin) => {
+        try {
+            return [new URL(origin).hostname];
+        } catch {
+            return [];
+        }
+    });
+}
+
+/**
+ * The secret key for a form's widget on a hostname. The form's per-hostname
+ * key comes first, then its own key, then the worker's per-hostname keys,
+ * then TURNSTILE_SECRET_KEY.
+ */
+export function resolveTurnstileSecret(form: FormConfig, hostname: string | undefined, env: TurnstileEnv): string {
+    return (hostname && findByHostname(form.turnstile?.secretKeys, hostname))
+        || form.turnstileSecretKey
+        || (hostname && findByHostname(parseSecretKeys(env.TURNSTILE_SECRET_KEYS), hostname))
+        || env.TURNSTILE_SECRET_KEY;
+}
+
+/**
+ * Verify a Turnstile token. Siteverify is retried with the same idempotency
+ * key when it can't be reached, so a token redeemed by an attempt whose
+ * response was lost isn't then rejected as a duplicate.
+ */
+export async function verifyTurnstile(
+    token: string,
+    secretKey: string,
+    remoteIP: string,
+    options: TurnstileOptions = {}
+): Promise<TurnstileResult> {
+    const idempotencyKey = crypto.randomUUID();
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const formData = new FormData();
+        formData.append('secret', secretKey);
+        formData.append('response', token);
+        formData.append('remoteip', remoteIP);
+        formData.append('idempotency_key', idempotencyKey);
+
+        try {
+            const response = await fetch(SITEVERIFY_URL, {
                 method: 'POST',
                 body: formData,
+            });
+
+            if (response.status >= 500 || response.status === 429) {
+                throw new Error(`Siteverify returned ${response.status}`);
             }
-        );
 
-        const result = await response.json() as {
-            success: boolean;
-            score?: number;
-            'error-codes'?: string[];
-            challenge_ts?: string;
-            hostname?: string;
-        };
-
-        return {
-            success: result.success,
-            score: result.score,
-            errors: result['error-codes'],
-        };
-    } catch (error) {
-        console.error('Turnstile verification error:', error);
-        return {
-            success: false,
-            errors: ['verification-failed'],
-        };
+            const result = await response.json() as {
+                success: boolean;
+                score?: number;
+                'error-codes'?: string[];
+                challenge_ts?: string;
+                hostname?: string;
+                action?: string;
+                cdata?: string;
+            };
+
+            const details: TurnstileToken = {
+                hostname: result.hostname || undefined,
+                action: result.action || undefined,
+                cdata: result.cdata || undefined,
+                challengeTs: result.challenge_ts || undefined,
+            };
+
+            if (!result.success) {
+                return { success: false, score: result.score, errors: result['error-codes'], token: details };
+            }
+
+            const errors = checkToken(details, options);
+            return errors.length > 0
+                ? { success: false, score: result.score, errors, token: details }
+                : { success: true, score: result.score, token: details };
+        } catch (error) {
+            console.error(`Turnstile verification error (attempt ${attempt} of ${MAX_ATTEMPTS}):`, error);
+            if (attempt < MAX_ATTEMPTS) {
+                await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+            }
+        }
+    }
+
+    return {
+        success: false,
+        errors: ['verification-failed'],
+        unavailable: true,
+    };
+}
+
+/**
+ * Check a valid token against the form: hostname-mismatch, action-mismatch or token-expired.
+ * Also used for the other CAPTCHA providers that report where a token was solved.
+ */
+export function checkToken(token: TurnstileToken, options: TurnstileOptions): string[] {
+    const errors: string[] = [];
+
+    if (options.hostnames?.length && !(token.hostname && matchesHostname(options.hostnames, token.hostname))) {
+        errors.push('hostname-mismatch');
+    }
+
+    // Tokens from widgets without an action are rejected too, unless the form allows them
+    if (options.action && (token.action ? token.action !== options.action : !options.allowMissingAction)) {
+        errors.push('action-mismatch');
     }
+
+    const maxAge = (options.maxTokenAgeSeconds ?? MAX_TOKEN_AGE_SECONDS) * 1000;
+    const issuedAt = token.challengeTs ? new Date(token.challengeTs).getTime() : NaN;
+    if (!isNaN(issuedAt) && Date.now() - issuedAt > maxAge) {
+        errors.push('token-expired');
+    }
+
+    return errors;
+}
+
+/**
+ * Whether a value can be a widget's action: up to 32 letters, digits, `-` and `_`
+ */
+export function isTurnstileAction(value: string): boolean {
+    return /^[A-Za-z0-9_-]{1,32}$/.test(value);
+}
+
+/**
+ * Whether a hostname is in a list, where `*.example.com` matches any subdomain of example.com
+ */
+function matchesHostname(patterns: string[], hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return patterns.some(pattern => pattern === host || (pattern.startsWith('*.') && host.endsWith(pattern.slice(1))));
+}
+
+/**
+ * Look a hostname up in a map keyed by hostnames, preferring an exact match over a wildcard
+ */
+function findByHostname<T>(map: Record<string, T> | undefined, hostname: string): T | undefined {
+    if (!map) return undefined;
+
+    const host = hostname.toLowerCase();
+    if (map[host] !== undefined) return map[host];
+
+    const pattern = Object.keys(map).find(pattern => pattern.startsWith('*.') && matchesHostname([pattern], host));
+    return pattern === undefined ? undefined : map[pattern];
+}
+
+function parseSecretKeys(value: string | undefined): Record<string, string> | undefined {
+    if (!value) return undefined;
+
+    try {
+        const keys = JSON.parse(value);
+        if (keys && typeof keys === 'object' && !Array.isArray(keys)) {
+            return Object.fromEntries(
+                Object.entries(keys).map(([hostname, key]) => [hostname.toLowerCase(), String(key)])
+            );
+        }
+    } catch {
+        // Reported below
+    }
+
+    console.error('TURNSTILE_SECRET_KEYS must be a JSON object of hostnames to secret keys');
+    return undefined;
+}
+
+function isHostnamePattern(value: unknown): boolean {
+    return typeof value === 'string' && /^(\*\.)?([a-z0-9-]+\.)*[a-z0-9-]+$/i.test(value);
 }
@@ -0,0 +1,249 @@
+/**
+ * Declarative field schema validation for form submissions
+ */
+
+export type FieldType = 'string' | 'email' | 'url' | 'number' | 'phone' | 'enum' | 'date' | 'boolean';
+
+export interface FieldRule {
+    type?: FieldType;
+    required?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    min?: number; // number fields only
+    max?: number; // number fields only
+    pattern?: string;
+    values?: string[]; // enum fields only
+    multiple?: boolean; // accept an array of values (e.g. checkbox groups)
+}
+
+export interface FormSchema {
+    fields: Record<string, FieldRule>;
+    unknownFields?: 'strip' | 'reject';
+}
+
+export type FieldErrors = Record<string, string[]>;
+
+const FIELD_TYPES: FieldType[] = ['string', 'email', 'url', 'number', 'phone', 'enum', 'date', 'boolean'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s().-]{7,20}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Validate a schema definition supplied through the forms API
+ */
+export function parseFormSchema(value: any): { schema?: FormSchema; error?: string } {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'schema must be an object' };
+    }
+
+    if (!value.fields || typeof value.fields !== 'object' || Array.isArray(value.fields)) {
+        return { error: 'schema.fields must be an object' };
+    }
+
+    if (value.unknownFields !== undefined && value.unknownFields !== 'strip' && value.unknownFields !== 'reject') {
+        return { error: 'schema.unknownFields must be "strip" or "reject"' };
+    }
+
+    const fields: Record<string, FieldRule> = {};
+
+    for (const [name, rule] of Object.entries<any>(value.fields)) {
+        if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+            return { error: `schema.fields.${name} must be an object` };
+        }
+
+        if (rule.type !== undefined && !FIELD_TYPES.includes(rule.type)) {
+            return { error: `schema.fields.${name}.type must be one of ${FIELD_TYPES.join(', ')}` };
+        }
+
+        for (const key of ['minLength', 'maxLength', 'min', 'max']) {
+            if (rule[key] !== undefined && typeof rule[key] !== 'number') {
+                return { error: `schema.fields.${name}.${key} must be a number` };
+            }
+        }
+
+        if (rule.pattern !== undefined) {
+            try {
+                new RegExp(rule.pattern);
+            } catch {
+                return { error: `schema.fields.${name}.pattern is not a valid regular expression` };
+            }
+        }
+
+        if (rule.type === 'enum' && (!Array.isArray(rule.values) || rule.values.length === 0)) {
+            return { error: `schema.fields.${name}.values is required for enum fields` };
+        }
+
+        fields[name] = {
+            type: rule.type,
+            required: rule.required === true,
+            minLength: rule.minLength,
+            maxLength: rule.maxLength,
+            min: rule.min,
+            max: rule.max,
+            pattern: rule.pattern,
+            values: rule.values?.map(String),
+            multiple: rule.multiple === true,
+        };
+    }
+
+    return {
+        schema: {
+            fields,
+            unknownFields: value.unknownFields || 'strip',
+        },
+    };
+}
+
+/**
+ * Validate submitted data against a form schema.
+ * Returns the cleaned data (unknown fields stripped, numbers and booleans coerced).
+ */
+export function validateSubmissionData(
+    schema: FormSchema,
+    data: Record<string, any>
+): { valid: boolean; data: Record<string, any>; errors: FieldErrors } {
+    const errors: FieldErrors = {};
+    const cleaned: Record<string, any> = {};
+
+    const addError = (field: string, message: string) => {
+        (errors[field] ||= []).push(message);
+    };
+
+    for (const key of Object.keys(data)) {
+        if (!(key in schema.fields) && schema.unknownFields === 'reject') {
+            addError(key, 'is not an allowed field');
+        }
+    }
+
+    for (const [name, rule] of Object.entries(schema.fields)) {
+        const value = data[name];
+
+        if (isEmpty(value)) {
+            if (rule.required) {
+                addError(name, 'is required');
+            }
+            continue;
+        }
+
+        if (Array.isArray(value)) {
+            if (!rule.multiple) {
+                addError(name, 'must be a single value');
+                continue;
+            }
+
+            const results = value.map(item => validateValue(rule, item));
+            const messages = results.flatMap(result => result.errors);
+            if (messages.length > 0) {
+                [...new Set(messages)].forEach(message => addError(name, message));
+            } else {
+                cleaned[name] = results.map(result => result.value);
+            }
+            continue;
+        }
+
+        const result = validateValue(rule, value);
+        if (result.errors.length > 0) {
+            result.errors.forEach(message => addError(name, message));
+        } else {
+            cleaned[name] = result.value;
+        }
+    }
+
+    return {
+        valid: Object.keys(errors).length === 0,
+        data: cleaned,
+        errors,
+    };
+}
+
+function validateValue(rule: FieldRule, value: any): { value?: any; errors: string[] } {
+    if (typeof value === 'object' && value !== null) {
+        return { errors: ['must be a text value'] };
+    }
+
+    const type = rule.type || 'string';
+
+    if (type === 'number') {
+        const num = typeof value === 'number' ? value : Number(String(value).trim());
+        if (!Number.isFinite(num)) {
+            return { errors: ['must be a number'] };
+        }
+
+        const errors: string[] = [];
+        if (rule.min !== undefined && num < rule.min) errors.push(`must be at least ${rule.min}`);
+        if (rule.max !== undefined && num > rule.max) errors.push(`must be at most ${rule.max}`);
+        return { value: num, errors };
+    }
+
+    if (type === 'boolean') {
+        if (typeof value === 'boolean') return { value, errors: [] };
+        const text = String(value).toLowerCase();
+        if (['true', 'on', '1', 'yes'].includes(text)) return { value: true, errors: [] };
+        if (['false', 'off', '0', 'no'].includes(text)) return { value: false, errors: [] };
+        return { errors: ['must be a boolean'] };
+    }
+
+    const text = String(value);
+    const errors: string[] = [];
+
+    switch (type) {
+        case 'email':
+            if (!EMAIL_PATTERN.test(text)) errors.push('must be a valid email address');
+            break;
+        case 'url':
+            if (!isHttpUrl(text)) errors.push('must be a valid URL');
+            break;
+        case 'phone':
+            if (!PHONE_PATTERN.test(text) || text.replace(/\D/g, '').length < 7) {
+                errors.push('must be a valid phone number');
+            }
+            break;
+        case 'enum':
+            if (!rule.values?.includes(text)) errors.push(`must be one of ${rule.values?.join(', ')}`);
+            break;
+        case 'date':
+            if (!DATE_PATTERN.test(text) || isNaN(Date.parse(text))) errors.push('must be a valid date');
+            break;
+    }
+
+    if (rule.minLength !== undefined && text.length < rule.minLength) {
+        errors.push(`must be at least ${rule.minLength} characters`);
+    }
+
+    if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+        errors.push(`must be at most ${rule.maxLength} characters`);
+    }
+
+    if (rule.pattern !== undefined && !new RegExp(rule.pattern).test(text)) {
+        errors.push('has an invalid format');
+    }
+
+    return { value: text, errors };
+}
+
+function isEmpty(value: any): boolean {
+    return value === undefined
+        || value === null
+        || (typeof value === 'string' && value.trim() === '')
+        || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Check that a string is a single email address that is safe to send to:
+ * no lists, display names or quoting that a provider could interpret
+ */
+export function isEmailAddress(value: string): boolean {
+    return value.length <= 254 && EMAIL_PATTERN.test(value) && !/[,;<>"'()[\]\\]/.test(value);
+}
+
+/**
+ * Check that a string is an absolute http(s) URL
+ */
+export function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,333 @@
+/**
+ * Webhook delivery with HMAC signatures, retries and a delivery log
+ */
+
+import { nanoid } from 'nanoid';
+import { hmacSha256Hex } from './crypto';
+
+export interface WebhookAttempt {
+    attemptedAt: string;
+    statusCode?: number;
+    error?: string;
+    durationMs: number;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    submissionId: string;
+    formId: string;
+    url: string;
+    payload: string;
+    status: 'pending' | 'succeeded' | 'failed';
+    attempts: WebhookAttempt[];
+    nextAttemptAt?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const RETRY_BASE_DELAY = 60; // seconds, doubled after every failed attempt
+const RETRY_MAX_DELAY = 6 * 60 * 60; // seconds
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * Sign a webhook body. Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`)
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+    return `v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Record a new webhook delivery for a submission
+ */
+export async function createWebhookDelivery(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    delivery: Pick<WebhookDelivery, 'submissionId' | 'formId' | 'url' | 'payload'>
+): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const record: WebhookDelivery = {
+        id: nanoid(),
+        ...delivery,
+        status: 'pending',
+        attempts: [],
+        // Picked up by the cron job if the first attempt never completes
+        nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY * 1000).toISOString(),
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    if (kv && !db) {
+        const indexKey = `webhook-index:${delivery.submissionId}`;
+        const index = await kv.get(indexKey, 'json') as string[] || [];
+        index.push(record.id);
+        await kv.put(indexKey, JSON.stringify(index));
+    }
+
+    await saveWebhookDelivery(kv, db, record);
+    return record;
+}
+
+/**
+ * Send a delivery once and record the attempt.
+ * Failed attempts are scheduled for retry with exponential backoff until
+ * WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+export async function attemptWebhookDelivery(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    delivery: WebhookDelivery,
+    secret?: string
+): Promise<WebhookDelivery> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-FormFlare-Event': 'submission',
+        'X-FormFlare-Delivery': delivery.id,
+        'X-FormFlare-Timestamp': String(timestamp),
+    };
+
+    if (secret) {
+        headers['X-FormFlare-Signature'] = await signWebhookPayload(secret, timestamp, delivery.payload);
+    }
+
+    const started = Date.now();
+    const attempt: WebhookAttempt = {
+        attemptedAt: new Date(started).toISOString(),
+        durationMs: 0,
+    };
+
+    try {
+        const response = await fetch(delivery.url, {
+            method: 'POST',
+            headers,
+            body: delivery.payload,
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+
+        attempt.statusCode = response.status;
+        if (!response.ok) {
+            attempt.error = `${response.status} ${response.statusText}`.trim();
+        }
+    } catch (error) {
+        attempt.error = error instanceof Error ? error.message : String(error);
+    }
+
+    attempt.durationMs = Date.now() - started;
+
+    const attempts = [...delivery.attempts, attempt];
+    const succeeded = !attempt.error;
+    const exhausted = attempts.length >= WEBHOOK_MAX_ATTEMPTS;
+
+    const updated: WebhookDelivery = {
+        ...delivery,
+        attempts,
+        status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+        nextAttemptAt: succeeded || exhausted
+            ? undefined
+            : new Date(Date.now() + retryDelay(attempts.length) * 1000).toISOString(),
+        updatedAt: new Date().toISOString(),
+    };
+
+    if (!succeeded) {
+        console.error(`Webhook delivery ${delivery.id} failed (attempt ${attempts.length}): ${attempt.error}`);
+    }
+
+    await saveWebhookDelivery(kv, db, updated);
+    return updated;
+}
+
+/**
+ * Retry pending deliveries whose backoff has elapsed. Called from the cron trigger.
+ * Returns the number of deliveries attempted.
+ */
+export async function retryDueWebhookDeliveries(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    resolveSecret: (formId: string) => Promise<string | undefined>
+): Promise<number> {
+    const now = new Date().toISOString();
+    let due: WebhookDelivery[] = [];
+
+    if (db) {
+        const result = await db
+            .prepare(
+                `SELECT * FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at
+         LIMIT ?`
+            )
+            .bind(now, RETRY_BATCH_SIZE)
+            .all();
+
+        due = result.results.map(rowToDelivery);
+    } else if (kv) {
+        let cursor: string | undefined;
+
+        do {
+            const list = await kv.list<{ nextAttemptAt: string }>({ prefix: 'webhook-retry:', cursor });
+
+            for (const key of list.keys) {
+                if (due.length >= RETRY_BATCH_SIZE) break;
+                if (!key.metadata || key.metadata.nextAttemptAt > now) continue;
+
+                const delivery = await getWebhookDelivery(kv, db, key.name.slice('webhook-retry:'.length));
+                if (delivery?.status === 'pending') due.push(delivery);
+            }
+            cursor = list.list_complete ? undefined : list.cursor;
+        } while (cursor && due.length < RETRY_BATCH_SIZE);
+    }
+
+    for (const delivery of due) {
+        await attemptWebhookDelivery(kv, db, delivery, await resolveSecret(delivery.formId));
+    }
+
+    return due.length;
+}
+
+/**
+ * Get a single delivery
+ */
+export async function getWebhookDelivery(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    deliveryId: string
+): Promise<WebhookDelivery | null> {
+    if (db) {
+        const result = await db
+            .prepare('SELECT * FROM webhook_deliveries WHERE id = ?')
+            .bind(deliveryId)
+            .first();
+
+        return result ? rowToDelivery(result) : null;
+    } else if (kv) {
+        return await kv.get(`webhook:${deliveryId}`, 'json') as WebhookDelivery | null;
+    }
+
+    return null;
+}
+
+/**
+ * Get the delivery log for a submission, oldest first
+ */
+export async function getWebhookDeliveries(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    submissionId: string
+): Promise<WebhookDelivery[]> {
+    if (db) {
+        const result = await db
+            .prepare(
+                `SELECT * FROM webhook_deliveries
+         WHERE submission_id = ?
+         ORDER BY created_at`
+            )
+            .bind(submissionId)
+            .all();
+
+        return result.results.map(rowToDelivery);
+    } else if (kv) {
+        const index = await kv.get(`webhook-index:${submissionId}`, 'json') as string[] || [];
+        const deliveries: WebhookDelivery[] = [];
+
+        for (const id of index) {
+            const delivery = await getWebhookDelivery(kv, db, id);
+            if (delivery) deliveries.push(delivery);
+        }
+
+        return deliveries;
+    }
+
+    return [];
+}
+
+/**
+ * Delete the delivery log for a submission, including pending retries
+ */
+export async function deleteWebhookDeliveries(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    submissionId: string
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare('DELETE FROM webhook_deliveries WHERE submission_id = ?')
+            .bind(submissionId)
+            .run();
+    } else if (kv) {
+        const index = await kv.get(`webhook-index:${submissionId}`, 'json') as string[] || [];
+
+        for (const id of index) {
+            await kv.delete(`webhook:${id}`);
+            await kv.delete(`webhook-retry:${id}`);
+        }
+        await kv.delete(`webhook-index:${submissionId}`);
+    }
+}
+
+async function saveWebhookDelivery(
+    kv: KVNamespace | undefined,
+    db: D1Database | undefined,
+    delivery: WebhookDelivery
+): Promise<void> {
+    if (db) {
+        await db
+            .prepare(
+                `INSERT INTO webhook_deliveries
+           (id, submission_id, form_id, url, payload, status, attempts, next_attempt_at, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           status = excluded.status,
+           attempts = excluded.attempts,
+           next_attempt_at = excluded.next_attempt_at,
+           updated_at = excluded.updated_at`
+            )
+            .bind(
+                delivery.id,
+                delivery.submissionId,
+                delivery.formId,
+                delivery.url,
+                delivery.payload,
+                delivery.status,
+                JSON.stringify(delivery.attempts),
+                delivery.nextAttemptAt ?? null,
+                delivery.createdAt,
+                delivery.updatedAt
+            )
+            .run();
+    } else if (kv) {
+        await kv.put(`webhook:${delivery.id}`, JSON.stringify(delivery));
+
+        // Pending deliveries are tracked under a separate prefix so the cron job can find them
+        if (delivery.status === 'pending' && delivery.nextAttemptAt) {
+            await kv.put(`webhook-retry:${delivery.id}`, '', {
+                metadata: { nextAttemptAt: delivery.nextAttemptAt },
+            });
+        } else {
+            await kv.delete(`webhook-retry:${delivery.id}`);
+        }
+    } else {
+        throw new Error('No storage backend configured');
+    }
+}
+
+function rowToDelivery(row: any): WebhookDelivery {
+    return {
+        id: row.id,
+        submissionId: row.submission_id,
+        formId: row.form_id,
+        url: row.url,
+        payload: row.payload,
+        status: row.status,
+        attempts: JSON.parse(row.attempts),
+        nextAttemptAt: row.next_attempt_at ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+}
@@ -0,0 +1,163 @@
+/**
+ * Submission workflow state used to triage submissions:
+ * status, starred, read/unread, tags and internal notes
+ */
+
+import { nanoid } from 'nanoid';
+
+export const SUBMISSION_STATUSES = ['new', 'in_progress', 'done', 'archived', 'spam'] as const;
+
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+export interface SubmissionNote {
+    id: string;
+    author: string;
+    text: string;
+    createdAt: string;
+}
+
+export interface SubmissionWorkflow {
+    status: SubmissionStatus;
+    starred: boolean;
+    read: boolean;
+    tags: string[];
+    notes: SubmissionNote[];
+    updatedAt?: string;
+}
+
+/**
+ * A validated change to a submission's workflow state
+ */
+export interface WorkflowUpdate {
+    status?: SubmissionStatus;
+    starred?: boolean;
+    read?: boolean;
+    tags?: string[]; // replaces all tags
+    addTags?: string[];
+    removeTags?: string[];
+    note?: { text: string };
+    removeNotes?: string[]; // note IDs
+}
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_NOTE_LENGTH = 5000;
+
+export function defaultWorkflow(): SubmissionWorkflow {
+    return { status: 'new', starred: false, read: false, tags: [], notes: [] };
+}
+
+export function isSubmissionStatus(value: unknown): value is SubmissionStatus {
+    return SUBMISSION_STATUSES.includes(value as SubmissionStatus);
+}
+
+/**
+ * Validate a PATCH payload
+ */
+export function parseWorkflowUpdate(body: any): { update?: WorkflowUpdate; error?: string } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { error: 'Update must be an object' };
+    }
+
+    const update: WorkflowUpdate = {};
+
+    if (body.status !== undefined) {
+        if (!isSubmissionStatus(body.status)) {
+            return { error: `status must be one of ${SUBMISSION_STATUSES.join(', ')}` };
+        }
+        update.status = body.status;
+    }
+
+    for (const key of ['starred', 'read'] as const) {
+        if (body[key] !== undefined) {
+            if (typeof body[key] !== 'boolean') return { error: `${key} must be a boolean` };
+            update[key] = body[key];
+        }
+    }
+
+    for (const key of ['tags', 'addTags', 'removeTags'] as const) {
+        if (body[key] !== undefined) {
+            const tags = parseTags(body[key]);
+            if (!tags) {
+                return { error: `${key} must be an array of tags of at most ${MAX_TAG_LENGTH} characters` };
+            }
+            update[key] = tags;
+        }
+    }
+
+    if (body.note !== undefined) {
+        const text = typeof body.note === 'string' ? body.note : body.note?.text;
+        if (typeof text !== 'string' || !text.trim() || text.length > MAX_NOTE_LENGTH) {
+            return { error: `note must be text of at most ${MAX_NOTE_LENGTH} characters` };
+        }
+
+        // Notes are signed by the API key that adds them
+        if (typeof body.note === 'object' && body.note.author !== undefined) {
+            return { error: 'note.author can not be set, notes are attributed to the API key' };
+        }
+        update.note = { text: text.trim() };
+    }
+
+    if (body.removeNotes !== undefined) {
+        if (!Array.isArray(body.removeNotes) || !body.removeNotes.every((id: any) => typeof id === 'string')) {
+            return { error: 'removeNotes must be an array of note IDs' };
+        }
+        update.removeNotes = body.removeNotes;
+    }
+
+    if (Object.keys(update).length === 0) {
+        return { error: 'Nothing to update' };
+    }
+
+    return { update };
+}
+
+/**
+ * Apply an update. A new note is attributed to `author`, the label of the API key making the change.
+ */
+export function applyWorkflowUpdate(
+    workflow: SubmissionWorkflow,
+    update: WorkflowUpdate,
+    author: string
+): { workflow?: SubmissionWorkflow; error?: string } {
+    let tags = update.tags ?? workflow.tags;
+    if (update.addTags) tags = [...new Set([...tags, ...update.addTags])];
+    if (update.removeTags) tags = tags.filter(tag => !update.removeTags!.includes(tag));
+
+    if (tags.length > MAX_TAGS) {
+        return { error: `A submission can have at most ${MAX_TAGS} tags` };
+    }
+
+    let notes = workflow.notes;
+    if (update.removeNotes) notes = notes.filter(note => !update.removeNotes!.includes(note.id));
+
+    const now = new Date().toISOString();
+    if (update.note) {
+        notes = [...notes, {
+            id: nanoid(10),
+            author,
+            text: update.note.text,
+            createdAt: now,
+        }];
+    }
+
+    return {
+        workflow: {
+            status: update.status ?? workflow.status,
+            starred: update.starred ?? workflow.starred,
+            read: update.read ?? workflow.read,
+            tags,
+            notes,
+            updatedAt: now,
+        },
+    };
+}
+
+function parseTags(value: unknown): string[] | null {
+    if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) return null;
+
+    const tags = value.map(tag => tag.trim()).filter(Boolean);
+    if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) return null;
+
+    return [...new Set(tags)];
+}
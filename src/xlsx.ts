@@ -0,0 +1,181 @@
+/**
+ * Minimal streaming XLSX writer
+ * Writes a single-sheet workbook as an uncompressed ZIP, one row at a time
+ */
+
+export type CellValue = string | number | null;
+
+const encoder = new TextEncoder();
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+/**
+ * Stream an XLSX workbook with a single sheet
+ */
+export async function* xlsxStream(
+    sheetName: string,
+    rows: AsyncIterable<CellValue[]>
+): AsyncGenerator<Uint8Array> {
+    const zip = new ZipWriter();
+
+    yield* zip.file('[Content_Types].xml', once(CONTENT_TYPES));
+    yield* zip.file('_rels/.rels', once(ROOT_RELS));
+    yield* zip.file('xl/workbook.xml', once(workbookXml(sheetName)));
+    yield* zip.file('xl/_rels/workbook.xml.rels', once(WORKBOOK_RELS));
+    yield* zip.file('xl/worksheets/sheet1.xml', sheetXml(rows));
+    yield zip.finish();
+}
+
+async function* sheetXml(rows: AsyncIterable<CellValue[]>): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+
+    for await (const row of rows) {
+        yield `<row>${row.map(cellXml).join('')}</row>`;
+    }
+
+    yield '</sheetData></worksheet>';
+}
+
+function workbookXml(sheetName: string): string {
+    // Sheet names are limited to 31 characters and may not contain []:*?/\
+    const name = sheetName.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet1';
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+}
+
+function cellXml(value: CellValue): string {
+    if (value === null || value === '') return '<c/>';
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c><v>${value}</v></c>`;
+    return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+async function* once(text: string): AsyncGenerator<string> {
+    yield text;
+}
+
+/**
+ * ZIP writer using stored (uncompressed) entries with data descriptors,
+ * so entry sizes and checksums don't need to be known up front.
+ */
+class ZipWriter {
+    private offset = 0;
+    private entries: { name: Uint8Array; crc: number; size: number; offset: number }[] = [];
+
+    async *file(name: string, chunks: AsyncIterable<string>): AsyncGenerator<Uint8Array> {
+        const nameBytes = encoder.encode(name);
+        const entryOffset = this.offset;
+
+        const header = new DataView(new ArrayBuffer(30));
+        header.setUint32(0, 0x04034b50, true); // local file header signature
+        header.setUint16(4, 20, true); // version needed to extract
+        header.setUint16(6, 0x0808, true); // flags: data descriptor, UTF-8 names
+        header.setUint16(8, 0, true); // method: stored
+        header.setUint16(26, nameBytes.length, true);
+        yield this.track(concat(new Uint8Array(header.buffer), nameBytes));
+
+        let crc = 0xffffffff;
+        let size = 0;
+        for await (const chunk of chunks) {
+            const bytes = encoder.encode(chunk);
+            crc = crc32Update(crc, bytes);
+            size += bytes.length;
+            yield this.track(bytes);
+        }
+        crc = (crc ^ 0xffffffff) >>> 0;
+
+        const descriptor = new DataView(new ArrayBuffer(16));
+        descriptor.setUint32(0, 0x08074b50, true); // data descriptor signature
+        descriptor.setUint32(4, crc, true);
+        descriptor.setUint32(8, size, true); // compressed size
+        descriptor.setUint32(12, size, true); // uncompressed size
+        yield this.track(new Uint8Array(descriptor.buffer));
+
+        this.entries.push({ name: nameBytes, crc, size, offset: entryOffset });
+    }
+
+    finish(): Uint8Array {
+        const parts: Uint8Array[] = [];
+        let directorySize = 0;
+
+        for (const entry of this.entries) {
+            const record = new DataView(new ArrayBuffer(46));
+            record.setUint32(0, 0x02014b50, true); // central directory signature
+            record.setUint16(4, 20, true); // version made by
+            record.setUint16(6, 20, true); // version needed to extract
+            record.setUint16(8, 0x0808, true);
+            record.setUint16(10, 0, true);
+            record.setUint32(16, entry.crc, true);
+            record.setUint32(20, entry.size, true);
+            record.setUint32(24, entry.size, true);
+            record.setUint16(28, entry.name.length, true);
+            record.setUint32(42, entry.offset, true);
+
+            const bytes = concat(new Uint8Array(record.buffer), entry.name);
+            parts.push(bytes);
+            directorySize += bytes.length;
+        }
+
+        const end = new DataView(new ArrayBuffer(22));
+        end.setUint32(0, 0x06054b50, true); // end of central directory signature
+        end.setUint16(8, this.entries.length, true);
+        end.setUint16(10, this.entries.length, true);
+        end.setUint32(12, directorySize, true);
+        end.setUint32(16, this.offset, true);
+        parts.push(new Uint8Array(end.buffer));
+
+        return this.track(concat(...parts));
+    }
+
+    private track(bytes: Uint8Array): Uint8Array {
+        this.offset += bytes.length;
+        return bytes;
+    }
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32Update(crc: number, bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return crc;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+}
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    checkAccess,
+    createAccessRule,
+    ipInRange,
+    listAccessRules,
+    parseAccessRuleInput,
+    type AccessRule,
+    type AccessRuleInput,
+} from '../src/accessrules';
+import { MemoryKV } from './helpers';
+
+const input: AccessRuleInput = { action: 'deny', type: 'ip', value: '203.0.113.0/24' };
+
+let nextId = 0;
+function rule(fields: Omit<AccessRuleInput, 'value'> & { value: string | number }): AccessRule {
+    return { id: `r${++nextId}`, createdAt: '2024-01-01T00:00:00.000Z', ...fields, value: String(fields.value) };
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('ipInRange', () => {
+    it.each([
+        // IPv4 prefixes
+        ['203.0.113.7', '0.0.0.0/0', true],
+        ['203.0.113.7', '203.0.113.0/24', true],
+        ['203.0.114.7', '203.0.113.0/24', false],
+        ['203.0.113.7', '203.0.113.7/32', true],
+        ['203.0.113.8', '203.0.113.7/32', false],
+        ['203.0.113.7', '203.0.113.7', true],
+        ['10.255.0.1', '10.0.0.0/8', true],
+        // IPv6 prefixes and :: compression
+        ['2001:db8::1', '::/0', true],
+        ['2001:db8::1', '2001:db8::/32', true],
+        ['2001:db9::1', '2001:db8::/32', false],
+        ['2001:db8:0:0:0:0:0:1', '2001:db8::1/128', true],
+        ['2001:db8::2', '2001:db8::1/128', false],
+        ['2001:DB8::1', '2001:db8::1', true],
+        ['::1', '::1/128', true],
+        ['fe80::1%eth0', 'fe80::/10', true],
+        ['2001:db8::', '2001:db8::/128', true],
+        // IPv4-mapped IPv6 addresses are IPv4
+        ['::ffff:203.0.113.7', '203.0.113.0/24', true],
+        ['::ffff:cb00:7107', '203.0.113.7/32', true],
+        ['::ffff:203.0.113.7', '::/0', false],
+        // IPv4 and IPv6 never match each other
+        ['203.0.113.7', '::/0', false],
+        ['2001:db8::1', '0.0.0.0/0', false],
+    ])('%s in %s is %s', (ip, range, expected) => {
+        expect(ipInRange(ip, range)).toBe(expected);
+    });
+
+    it.each([
+        ['203.0.113', '0.0.0.0/0'],
+        ['203.0.113.256', '0.0.0.0/0'],
+        ['unknown', '0.0.0.0/0'],
+        ['1:2:3:4:5:6:7:8:9', '::/0'],
+        ['1::2::3', '::/0'],
+        ['2001:db8::g', '::/0'],
+        ['203.0.113.7', '203.0.113.0/33'],
+        ['2001:db8::1', '2001:db8::/129'],
+        ['203.0.113.7', '203.0.113.0/24/8'],
+        ['203.0.113.7', 'not-a-range'],
+    ])('%s in %s is false for invalid input', (ip, range) => {
+        expect(ipInRange(ip, range)).toBe(false);
+    });
+});
+
+describe('parseAccessRuleInput', () => {
+    it('normalises ASNs and country codes', () => {
+        expect(parseAccessRuleInput({ action: 'deny', type: 'asn', value: 'AS13335' }).input?.value).toBe('13335');
+        expect(parseAccessRuleInput({ action: 'deny', type: 'asn', value: 13335 }).input?.value).toBe('13335');
+        expect(parseAccessRuleInput({ action: 'allow', type: 'country', value: 'de' }).input?.value).toBe('DE');
+    });
+
+    it.each([
+        [{ action: 'block', type: 'ip', value: '203.0.113.7' }, 'action must be "allow" or "deny"'],
+        [{ action: 'deny', type: 'city', value: 'Berlin' }, 'type must be one of: ip, asn, country'],
+        [{ action: 'deny', type: 'ip', value: '203.0.113.0/33' }, 'value must be an IPv4 or IPv6 address or CIDR range'],
+        [{ action: 'deny', type: 'ip', value: '1::2::3' }, 'value must be an IPv4 or IPv6 address or CIDR range'],
+        [{ action: 'deny', type: 'asn', value: '4294967296' }, 'value must be an ASN, e.g. 13335 or AS13335'],
+        [{ action: 'deny', type: 'country', value: 'DEU' }, 'value must be a two-letter country code'],
+        [{ action: 'deny', type: 'ip', value: '203.0.113.7', expiresAt: '2000-01-01' }, 'expiresAt must be in the future'],
+    ])('rejects %j', (body, error) => {
+        expect(parseAccessRuleInput(body).error).toBe(error);
+    });
+});
+
+describe('checkAccess', () => {
+    const visitor = { ip: '203.0.113.7', asn: 13335, country: 'DE' };
+
+    it('allows visitors when no rule matches and there are no allow rules', () => {
+        expect(checkAccess([], 'contact', visitor)).toEqual({ allowed: true });
+        expect(checkAccess([rule({ action: 'deny', type: 'country', value: 'FR' })], 'contact', visitor))
+            .toEqual({ allowed: true });
+    });
+
+    it.each([
+        ['IP over ASN', [
+            rule({ action: 'deny', type: 'asn', value: 13335 }),
+            rule({ action: 'allow', type: 'ip', value: '203.0.113.0/24' }),
+        ], true],
+        ['ASN over country', [
+            rule({ action: 'deny', type: 'country', value: 'DE' }),
+            rule({ action: 'allow', type: 'asn', value: 13335 }),
+        ], true],
+        ['IP over country', [
+            rule({ action: 'allow', type: 'country', value: 'DE' }),
+            rule({ action: 'deny', type: 'ip', value: '203.0.113.7' }),
+        ], false],
+        ['deny over allow of the same type', [
+            rule({ action: 'allow', type: 'ip', value: '203.0.113.0/24' }),
+            rule({ action: 'deny', type: 'ip', value: '203.0.113.7/32' }),
+        ], false],
+        ['allow rules as an allowlist', [
+            rule({ action: 'allow', type: 'country', value: 'FR' }),
+        ], false],
+        ['a matching allowlist entry', [
+            rule({ action: 'allow', type: 'country', value: 'FR' }),
+            rule({ action: 'allow', type: 'country', value: 'DE' }),
+        ], true],
+    ])('decides %s', (_, rules, allowed) => {
+        expect(checkAccess(rules, undefined, visitor).allowed).toBe(allowed);
+    });
+
+    it('reports the deciding rule, or none for an allowlist miss', () => {
+        const deny = rule({ action: 'deny', type: 'asn', value: 13335 });
+        expect(checkAccess([deny], undefined, visitor)).toEqual({ allowed: false, rule: deny });
+        expect(checkAccess([rule({ action: 'allow', type: 'ip', value: '198.51.100.0/24' })], undefined, visitor))
+            .toEqual({ allowed: false });
+    });
+
+    it('requires the visitor to pass both the global and the form layer', () => {
+        const globalDeny = rule({ action: 'deny', type: 'country', value: 'DE' });
+        const formAllow = rule({ action: 'allow', type: 'ip', value: '203.0.113.7', formId: 'contact' });
+
+        // A form's allow rule does not override a global deny
+        expect(checkAccess([globalDeny, formAllow], 'contact', visitor)).toEqual({ allowed: false, rule: globalDeny });
+
+        const formDeny = rule({ action: 'deny', type: 'asn', value: 13335, formId: 'contact' });
+        expect(checkAccess([formDeny], 'contact', visitor)).toEqual({ allowed: false, rule: formDeny });
+        expect(checkAccess([formDeny], 'signup', visitor)).toEqual({ allowed: true });
+        expect(checkAccess([formDeny], undefined, visitor)).toEqual({ allowed: true });
+    });
+
+    it('keeps allowlists to their own layer', () => {
+        const formAllowlist = rule({ action: 'allow', type: 'country', value: 'FR', formId: 'contact' });
+
+        expect(checkAccess([formAllowlist], 'contact', visitor).allowed).toBe(false);
+        expect(checkAccess([formAllowlist], 'signup', visitor).allowed).toBe(true);
+    });
+
+    it('ignores expired rules', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-06-01T00:00:00.000Z'));
+
+        const expired = { ...rule({ action: 'deny', type: 'country', value: 'DE' }), expiresAt: '2024-05-31T23:59:59.000Z' };
+        expect(checkAccess([expired], undefined, visitor)).toEqual({ allowed: true });
+    });
+});
+
+describe('createAccessRule', () => {
+    it('stores the rule in KV', async () => {
+        const kv = new MemoryKV().asBinding();
+        const rule = await createAccessRule(kv, undefined, input);
+
+        expect(await listAccessRules(kv, undefined)).toEqual([rule]);
+    });
+
+    it('fails without a storage backend', async () => {
+        await expect(createAccessRule(undefined, undefined, input)).rejects.toThrow('No storage backend configured');
+    });
+});
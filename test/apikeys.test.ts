@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+    authenticate,
+    canAccessForm,
+    createApiKey,
+    parseApiKeyInput,
+    revokeApiKey,
+    rotateApiKey,
+    type Principal,
+} from '../src/apikeys';
+import { sha256Hex, timingSafeEqual } from '../src/crypto';
+import worker from '../src/index';
+import { MemoryKV } from './helpers';
+
+const ADMIN_KEY = 'admin-secret-key';
+
+describe('parseApiKeyInput', () => {
+    it('accepts a label, scopes, form restriction and expiry', () => {
+        const expiresAt = new Date(Date.now() + 86400000).toISOString();
+        const { input, error } = parseApiKeyInput({
+            label: '  Zapier  ',
+            scopes: ['submissions:read', 'submissions:read', 'submissions:export'],
+            formIds: ['contact-form'],
+            expiresAt,
+        });
+
+        expect(error).toBeUndefined();
+        expect(input).toEqual({
+            label: 'Zapier',
+            scopes: ['submissions:read', 'submissions:export'],
+            formIds: ['contact-form'],
+            expiresAt,
+        });
+    });
+
+    it('rejects unknown scopes, empty form lists and past expiry', () => {
+        expect(parseApiKeyInput({ label: 'x', scopes: [] }).error).toMatch(/scopes/);
+        expect(parseApiKeyInput({ label: 'x', scopes: ['everything'] }).error).toMatch(/scopes/);
+        expect(parseApiKeyInput({ label: 'x', scopes: ['forms:manage'], formIds: [] }).error).toMatch(/formIds/);
+        expect(parseApiKeyInput({ label: 'x', scopes: ['forms:manage'], expiresAt: '2000-01-01' }).error)
+            .toMatch(/future/);
+        expect(parseApiKeyInput({ scopes: ['forms:manage'] }).error).toMatch(/label/);
+    });
+});
+
+describe('timingSafeEqual', () => {
+    it('compares strings of equal and different lengths', () => {
+        expect(timingSafeEqual('secret', 'secret')).toBe(true);
+        expect(timingSafeEqual('secret', 'secreT')).toBe(false);
+        expect(timingSafeEqual('secret', 'secret-longer')).toBe(false);
+        expect(timingSafeEqual('', 'secret')).toBe(false);
+        expect(timingSafeEqual('', '')).toBe(true);
+    });
+});
+
+describe('createApiKey and authenticate', () => {
+    it('stores only the SHA-256 hash of a ff_<id>_<secret> key', async () => {
+        const memory = new MemoryKV();
+        const kv = memory.asBinding();
+        const { key, record } = await createApiKey(kv, undefined, { label: 'CI', scopes: ['submissions:read'] });
+
+        expect(key).toMatch(/^ff_[A-Za-z0-9_-]{12}_[A-Za-z0-9_-]{43}$/);
+        expect(key.slice(3, 15)).toBe(record.id);
+        expect(record.hash).toBe(await sha256Hex(key));
+        expect(memory.store.get(`apikey:${record.id}`)!.value).not.toContain(key);
+    });
+
+    it('resolves the admin key and issued keys to principals', async () => {
+        const kv = new MemoryKV().asBinding();
+        const { key, record } = await createApiKey(kv, undefined, {
+            label: 'CI',
+            scopes: ['submissions:read'],
+            formIds: ['contact-form'],
+        });
+
+        expect(await authenticate(kv, undefined, ADMIN_KEY, ADMIN_KEY)).toMatchObject({ keyId: 'admin', admin: true });
+        expect(await authenticate(kv, undefined, ADMIN_KEY, key)).toEqual({
+            keyId: record.id,
+            label: 'CI',
+            scopes: ['submissions:read'],
+            formIds: ['contact-form'],
+            admin: false,
+        });
+    });
+
+    it('rejects malformed keys, wrong secrets and expired keys', async () => {
+        const kv = new MemoryKV().asBinding();
+        const { key, record } = await createApiKey(kv, undefined, { label: 'CI', scopes: ['submissions:read'] });
+
+        expect(await authenticate(kv, undefined, ADMIN_KEY, 'not-a-key')).toBeNull();
+        expect(await authenticate(kv, undefined, ADMIN_KEY, key.slice(0, -1) + (key.endsWith('A') ? 'B' : 'A'))).toBeNull();
+        expect(await authenticate(kv, undefined, undefined, ADMIN_KEY)).toBeNull();
+
+        await kv.put(`apikey:${record.id}`, JSON.stringify({ ...record, expiresAt: '2000-01-01T00:00:00.000Z' }));
+        expect(await authenticate(kv, undefined, ADMIN_KEY, key)).toBeNull();
+    });
+
+    it('stops accepting revoked keys and the old secret of rotated keys', async () => {
+        const kv = new MemoryKV().asBinding();
+        const first = await createApiKey(kv, undefined, { label: 'Revoked', scopes: ['submissions:read'] });
+        await revokeApiKey(kv, undefined, first.record);
+        expect(await authenticate(kv, undefined, ADMIN_KEY, first.key)).toBeNull();
+
+        const second = await createApiKey(kv, undefined, {
+            label: 'Rotated',
+            scopes: ['submissions:export'],
+            formIds: ['contact-form'],
+        });
+        const rotated = await rotateApiKey(kv, undefined, second.record);
+
+        expect(rotated.record.id).not.toBe(second.record.id);
+        expect(rotated.record).toMatchObject({ label: 'Rotated', scopes: ['submissions:export'], formIds: ['contact-form'] });
+        expect(await authenticate(kv, undefined, ADMIN_KEY, second.key)).toBeNull();
+        expect(await authenticate(kv, undefined, ADMIN_KEY, rotated.key)).toMatchObject({ keyId: rotated.record.id });
+    });
+});
+
+describe('canAccessForm', () => {
+    const principal = (formIds?: string[]): Principal => ({
+        keyId: 'k', label: 'k', scopes: ['submissions:read'], formIds, admin: false,
+    });
+
+    it('limits restricted keys to their forms', () => {
+        expect(canAccessForm(principal(), 'any-form')).toBe(true);
+        expect(canAccessForm(principal(['contact-form']), 'contact-form')).toBe(true);
+        expect(canAccessForm(principal(['contact-form']), 'signup')).toBe(false);
+    });
+});
+
+describe('requireAuth', () => {
+    const ctx = { waitUntil() {}, passThroughOnException() {} } as unknown as ExecutionContext;
+
+    async function request(kv: KVNamespace, path: string, token?: string) {
+        const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+        return worker.fetch(
+            new Request(`https://forms.example.com${path}`, { headers }),
+            { FORM_SUBMISSIONS: kv, API_KEY: ADMIN_KEY, ALLOWED_ORIGINS: '*' } as any,
+            ctx
+        );
+    }
+
+    it('answers 401 without a valid key', async () => {
+        const kv = new MemoryKV().asBinding();
+
+        expect((await request(kv, '/submissions/contact-form')).status).toBe(401);
+        expect((await request(kv, '/submissions/contact-form', 'wrong')).status).toBe(401);
+    });
+
+    it('answers 403 when the key lacks the scope', async () => {
+        const kv = new MemoryKV().asBinding();
+        const { key } = await createApiKey(kv, undefined, { label: 'Export only', scopes: ['submissions:export'] });
+
+        const response = await request(kv, '/submissions/contact-form', key);
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({ error: 'API key lacks the submissions:read scope' });
+
+        expect((await request(kv, '/keys', key)).status).toBe(403);
+    });
+
+    it('answers 403 for forms outside the key restriction', async () => {
+        const kv = new MemoryKV().asBinding();
+        const { key } = await createApiKey(kv, undefined, {
+            label: 'Contact only',
+            scopes: ['submissions:read'],
+            formIds: ['contact-form'],
+        });
+
+        expect((await request(kv, '/submissions/contact-form', key)).status).toBe(200);
+
+        const response = await request(kv, '/submissions/signup', key);
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({ error: 'API key is not allowed to access this form' });
+    });
+
+    it('lets the admin key through and rejects revoked keys', async () => {
+        const kv = new MemoryKV().asBinding();
+        const { key, record } = await createApiKey(kv, undefined, { label: 'CI', scopes: ['submissions:read'] });
+
+        expect((await request(kv, '/keys', ADMIN_KEY)).status).toBe(200);
+        expect((await request(kv, '/submissions/contact-form', key)).status).toBe(200);
+
+        await revokeApiKey(kv, undefined, record);
+        expect((await request(kv, '/submissions/contact-form', key)).status).toBe(401);
+    });
+});
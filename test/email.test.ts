@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sendEmail, type EmailConfig, type RawEmailClass } from '../src/email';
+
+class StubEmail {
+    constructor(readonly from: string, readonly to: string, readonly raw: string) {}
+}
+
+function stubBinding(failFor: string[] = []) {
+    const sent: StubEmail[] = [];
+    const binding = {
+        async send(message: StubEmail) {
+            if (failFor.includes(message.to)) throw new Error('destination address not verified');
+            sent.push(message);
+            return { messageId: `m${sent.length}` };
+        },
+    };
+    return { binding: binding as unknown as SendEmail, sent };
+}
+
+const message = { subject: 'Neue Anfrage: Köln', html: '<p>Hallo</p>', text: 'Hallo' };
+
+function cloudflareConfig(binding: SendEmail, overrides: Partial<EmailConfig> = {}): EmailConfig {
+    return {
+        provider: 'cloudflare',
+        apiKey: '',
+        from: 'FormFlare <forms@example.com>',
+        to: 'owner@example.com',
+        emailBinding: binding,
+        rawEmailClass: StubEmail as unknown as RawEmailClass,
+        ...overrides,
+    };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('sendEmail through Cloudflare Email Routing', () => {
+    it('sends the MIME message through the send_email binding', async () => {
+        const { binding, sent } = stubBinding();
+
+        const result = await sendEmail(cloudflareConfig(binding, {
+            replyTo: 'visitor@example.com',
+            attachments: [{ filename: 'cv.txt', contentType: 'text/plain', content: new TextEncoder().encode('hello') }],
+        }), message);
+
+        expect(result).toMatchObject({ success: true, attempts: [{ provider: 'cloudflare' }] });
+        expect(sent).toHaveLength(1);
+        expect(sent[0].from).toBe('forms@example.com');
+        expect(sent[0].to).toBe('owner@example.com');
+
+        const raw = sent[0].raw;
+        expect(raw).toContain('From: FormFlare <forms@example.com>\r\n');
+        expect(raw).toContain('To: owner@example.com\r\n');
+        expect(raw).toContain('Reply-To: visitor@example.com\r\n');
+        expect(raw).toContain(`Subject: =?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(message.subject)))}?=`);
+        expect(raw).toContain('Content-Type: multipart/alternative;');
+        expect(raw).toContain(btoa('Hallo'));
+        expect(raw).toContain('Content-Disposition: attachment; filename="cv.txt"');
+        expect(raw).toContain(btoa('hello'));
+    });
+
+    it('sends one message per recipient, each listing every recipient', async () => {
+        const { binding, sent } = stubBinding();
+
+        await sendEmail(cloudflareConfig(binding, { to: 'a@example.com, Team B <b@example.com>' }), message);
+
+        expect(sent.map(email => email.to)).toEqual(['a@example.com', 'b@example.com']);
+        expect(sent[0].raw).toContain('To: a@example.com, Team B <b@example.com>\r\n');
+        expect(sent[1].raw).toBe(sent[0].raw);
+    });
+
+    it('fails without a binding', async () => {
+        const result = await sendEmail(cloudflareConfig(undefined as unknown as SendEmail), message);
+
+        expect(result).toMatchObject({ success: false, error: 'The send_email binding is not configured' });
+    });
+
+    it('fails over only for the recipients that were not sent to', async () => {
+        const { binding, sent } = stubBinding(['b@example.com']);
+        const fetch = vi.fn(async () => new Response('{}'));
+        vi.stubGlobal('fetch', fetch);
+
+        const result = await sendEmail(cloudflareConfig(binding, {
+            to: 'a@example.com, b@example.com, c@example.com',
+            fallbacks: [{ provider: 'resend', apiKey: 're_test' }],
+        }), message);
+
+        expect(sent.map(email => email.to)).toEqual(['a@example.com', 'c@example.com']);
+        expect(JSON.parse((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body as string).to)
+            .toEqual(['b@example.com']);
+        expect(result.success).toBe(true);
+        expect(result.attempts.map(attempt => [attempt.provider, attempt.error])).toEqual([
+            ['cloudflare', 'Cloudflare Email Routing error: b@example.com: destination address not verified'],
+            ['resend', undefined],
+        ]);
+    });
+});
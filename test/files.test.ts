@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildFileLinks,
+    deleteUploads,
+    getFileReferences,
+    loadEmailAttachments,
+    storeUploads,
+    stripFileReferences,
+} from '../src/files';
+
+function stubBucket(failOnPut: number) {
+    const objects = new Map<string, unknown>();
+    let puts = 0;
+    const bucket = {
+        async put(key: string, value: unknown) {
+            if (++puts === failOnPut) throw new Error('R2 unavailable');
+            objects.set(key, value);
+        },
+        async get(key: string) {
+            const value = objects.get(key) as File | undefined;
+            return value ? { size: value.size, arrayBuffer: () => value.arrayBuffer() } : null;
+        },
+        async delete(keys: string | string[]) {
+            for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+        },
+    };
+    return { bucket: bucket as unknown as R2Bucket, objects };
+}
+
+const file = (name: string) => new File(['hello'], name, { type: 'text/plain' });
+
+describe('storeUploads', () => {
+    it('stores files under the submission and returns references per field', async () => {
+        const { bucket, objects } = stubBucket(0);
+        const references = await storeUploads(bucket, 'f1', 's1', [
+            { field: 'cv', file: file('cv.txt') },
+            { field: 'extra', file: file('a.txt') },
+            { field: 'extra', file: file('a.txt') },
+        ]);
+
+        expect([...objects.keys()]).toEqual(['f1/s1/cv.txt', 'f1/s1/a.txt', 'f1/s1/a-1.txt']);
+        expect(references.cv).toMatchObject({ key: 'f1/s1/cv.txt', name: 'cv.txt', size: 5 });
+        expect(references.extra).toHaveLength(2);
+    });
+
+    it('deletes the files already uploaded when an upload fails', async () => {
+        const { bucket, objects } = stubBucket(3);
+        await expect(storeUploads(bucket, 'f1', 's1', [
+            { field: 'a', file: file('a.txt') },
+            { field: 'b', file: file('b.txt') },
+            { field: 'c', file: file('c.txt') },
+        ])).rejects.toThrow('R2 unavailable');
+
+        expect(objects.size).toBe(0);
+    });
+});
+
+describe('forged file references', () => {
+    const own = { key: 'f1/s1/cv.txt', name: 'cv.txt', size: 5, type: 'text/plain' };
+    const forged = { key: 'other-form/s9/secret.pdf', name: 'secret.pdf', size: 0, type: 'application/pdf' };
+    const data = { name: 'Ada', cv: own, evidence: forged, more: [forged, own] };
+
+    it('only resolves references under the submission\'s own key prefix', () => {
+        expect(getFileReferences('f1', 's1', data)).toEqual([
+            { field: 'cv', file: own },
+            { field: 'more', file: own },
+        ]);
+        expect(getFileReferences('f1', 's2', data)).toEqual([]);
+    });
+
+    it('does not link, attach or delete files of other submissions', async () => {
+        const { bucket, objects } = stubBucket(0);
+        objects.set(own.key, file('cv.txt'));
+        objects.set(forged.key, file('secret.pdf'));
+
+        const links = await buildFileLinks('https://forms.example.com', 'f1', 's1', data);
+        expect(links.map(link => link.key)).toEqual([own.key, own.key]);
+
+        const attachments = await loadEmailAttachments(bucket, 'f1', 's1', { evidence: forged });
+        expect(attachments).toEqual([]);
+
+        await deleteUploads(bucket, 'f1', 's1', data);
+        expect([...objects.keys()]).toEqual([forged.key]);
+    });
+
+    it('strips reference-shaped values from submitted data', () => {
+        expect(stripFileReferences({ name: 'Ada', cv: forged, tags: ['a', forged], meta: { note: 'x' } }))
+            .toEqual({ name: 'Ada', tags: ['a'], meta: { note: 'x' } });
+    });
+});
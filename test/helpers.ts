@@ -0,0 +1,47 @@
+/**
+ * In-memory stand-ins for Workers bindings
+ */
+
+export class MemoryKV {
+    readonly store = new Map<string, { value: string; metadata?: unknown }>();
+
+    constructor(private readonly pageSize = 1000) {}
+
+    async get(key: string, type?: string | { type?: string }) {
+        const entry = this.store.get(key);
+        if (!entry) return null;
+        const asJson = type === 'json' || (typeof type === 'object' && type?.type === 'json');
+        return asJson ? JSON.parse(entry.value) : entry.value;
+    }
+
+    async getWithMetadata(key: string, type?: string) {
+        const entry = this.store.get(key);
+        if (!entry) return { value: null, metadata: null };
+        return { value: type === 'json' ? JSON.parse(entry.value) : entry.value, metadata: entry.metadata ?? null };
+    }
+
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+        this.store.set(key, { value, metadata: options?.metadata });
+    }
+
+    async delete(key: string) {
+        this.store.delete(key);
+    }
+
+    async list(options: { prefix?: string; cursor?: string; limit?: number } = {}) {
+        const names = [...this.store.keys()].filter(name => name.startsWith(options.prefix ?? '')).sort();
+        const start = options.cursor ? Number(options.cursor) : 0;
+        const end = start + Math.min(options.limit ?? 1000, this.pageSize);
+        const complete = end >= names.length;
+
+        return {
+            keys: names.slice(start, end).map(name => ({ name, metadata: this.store.get(name)!.metadata })),
+            list_complete: complete,
+            cursor: complete ? '' : String(end),
+        };
+    }
+
+    asBinding(): KVNamespace {
+        return this as unknown as KVNamespace;
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildMimeMessage, encodeHeaderValue, parseAddress } from '../src/mime';
+
+const decoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false });
+
+function decodeWord(word: string): string {
+    const match = word.match(/^=\?UTF-8\?B\?([A-Za-z0-9+/=]+)\?=$/);
+    if (!match) throw new Error(`Not an encoded word: ${word}`);
+    return decoder.decode(Uint8Array.from(atob(match[1]), char => char.charCodeAt(0)));
+}
+
+function header(raw: string, name: string): string | undefined {
+    const head = raw.slice(0, raw.indexOf('\r\nContent-Type:'));
+    return head.split(/\r\n(?! )/).find(line => line.startsWith(`${name}: `))?.slice(name.length + 2);
+}
+
+const message = {
+    from: 'FormFlare <forms@example.com>',
+    to: ['owner@example.com'],
+    subject: 'New submission',
+    text: 'Hello',
+    html: '<p>Hello</p>',
+};
+
+describe('encodeHeaderValue', () => {
+    it('leaves printable ASCII as it is', () => {
+        expect(encodeHeaderValue('New submission: contact')).toBe('New submission: contact');
+    });
+
+    it('splits long non-ASCII values into encoded words of at most 75 characters', () => {
+        const value = 'Neue Anfrage über das Kontaktformular – 🎉 Grüße aus Köln, Zürich und Malmö 🎉';
+        const words = encodeHeaderValue(value).split('\r\n ');
+
+        expect(words.length).toBeGreaterThan(1);
+        for (const word of words) {
+            expect(word.length).toBeLessThanOrEqual(75);
+        }
+        // Every word decodes on its own, so no UTF-8 sequence was cut in half
+        expect(words.map(decodeWord).join('')).toBe(value);
+    });
+});
+
+describe('buildMimeMessage', () => {
+    it('strips CR and LF from header values', () => {
+        const raw = buildMimeMessage({
+            ...message,
+            from: 'FormFlare <forms@example.com>\r\nBcc: victim@example.com',
+            replyTo: 'visitor@example.com\nBcc: victim@example.com',
+            subject: 'Hello\r\nBcc: victim@example.com',
+        });
+
+        expect(raw).not.toMatch(/^Bcc:/m);
+        expect(header(raw, 'Subject')).toBe('Hello Bcc: victim@example.com');
+        expect(header(raw, 'Reply-To')).toBe('visitor@example.com Bcc: victim@example.com');
+    });
+
+    it('encodes non-ASCII display names and quotes names with specials', () => {
+        const raw = buildMimeMessage({ ...message, from: 'Zoë <forms@example.com>', to: ['Doe, Jane <jane@example.com>'] });
+
+        expect(decodeWord(header(raw, 'From')!.split(' <')[0])).toBe('Zoë');
+        expect(header(raw, 'To')).toBe('"Doe, Jane" <jane@example.com>');
+    });
+
+    it('names attachments with RFC 2231 when the filename is not plain ASCII', () => {
+        const raw = buildMimeMessage({
+            ...message,
+            attachments: [
+                { filename: 'report.pdf', contentType: 'application/pdf', content: new Uint8Array([1, 2, 3]) },
+                { filename: "Lebenslauf (Müller's).pdf", contentType: 'application/pdf', content: new Uint8Array([4]) },
+            ],
+        });
+
+        expect(raw).toContain('Content-Type: multipart/mixed;');
+        expect(raw).toContain('Content-Disposition: attachment; filename="report.pdf"');
+        expect(raw).toContain("Content-Type: application/pdf; name*=UTF-8''Lebenslauf%20%28M%C3%BCller%27s%29.pdf");
+        expect(raw).toContain("Content-Disposition: attachment; filename*=UTF-8''Lebenslauf%20%28M%C3%BCller%27s%29.pdf");
+    });
+
+    it('strips CR and LF from attachment names', () => {
+        const raw = buildMimeMessage({
+            ...message,
+            attachments: [{ filename: 'a.txt\r\nX-Injected: 1', contentType: 'text/plain', content: new Uint8Array([1]) }],
+        });
+
+        expect(raw).not.toMatch(/^X-Injected:/m);
+    });
+});
+
+describe('parseAddress', () => {
+    it('splits a display name from the address', () => {
+        expect(parseAddress('"Doe, Jane" <jane@example.com>')).toEqual({ name: 'Doe, Jane', address: 'jane@example.com' });
+        expect(parseAddress('jane@example.com')).toEqual({ address: 'jane@example.com' });
+    });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dispatchNotifications, type NotificationEnv } from '../src/notifications';
+import { getNotificationLog } from '../src/notificationlog';
+import type { FormConfig } from '../src/forms';
+import type { StoredSubmission } from '../src/storage';
+import { defaultWorkflow } from '../src/workflow';
+import { MemoryKV } from './helpers';
+
+const form = {
+    id: 'f1',
+    enabled: true,
+    emailTo: [],
+    allowedOrigins: [],
+    redirectAllowlist: [],
+    webhookUrl: 'https://hooks.example.com/formflare',
+    channels: [{ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/T/B/X' }],
+} as unknown as FormConfig;
+
+const submission: StoredSubmission = {
+    id: 's1',
+    formId: 'f1',
+    data: { name: 'Ada' },
+    metadata: { ip: '192.0.2.1', userAgent: 'test', timestamp: '2024-03-01T12:00:00.000Z' },
+    workflow: defaultWorkflow(),
+};
+
+let posted: string[];
+
+beforeEach(() => {
+    posted = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+        posted.push(url);
+        return new Response('ok');
+    }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+async function dispatch(env: Partial<NotificationEnv>) {
+    const pending: Promise<unknown>[] = [];
+    await dispatchNotifications(
+        { EMAIL_PROVIDER: 'none', EMAIL_API_KEY: '', EMAIL_FROM: '', ...env } as NotificationEnv,
+        form,
+        submission,
+        'https://forms.example.com',
+        (promise) => { pending.push(promise); }
+    );
+    await Promise.all(pending);
+}
+
+describe('dispatchNotifications', () => {
+    it('sends the webhook and channel messages', async () => {
+        await dispatch({ FORM_SUBMISSIONS: new MemoryKV().asBinding(), PUBLIC_URL: 'https://forms.example.com' });
+
+        expect(posted.sort()).toEqual(['https://hooks.example.com/formflare', 'https://hooks.slack.com/services/T/B/X']);
+    });
+
+    it('still sends the webhook when the channel message can not be built', async () => {
+        await expect(dispatch({ FORM_SUBMISSIONS: new MemoryKV().asBinding(), PUBLIC_URL: 'not a url' })).resolves.toBeUndefined();
+
+        expect(posted).toEqual(['https://hooks.example.com/formflare']);
+        expect(console.error).toHaveBeenCalledWith('Channel slack failed:', expect.any(TypeError));
+    });
+
+    it('still posts to channels when the webhook delivery can not be recorded', async () => {
+        const kv = new MemoryKV();
+        kv.put = async () => { throw new Error('KV unavailable'); };
+
+        await expect(dispatch({ FORM_SUBMISSIONS: kv.asBinding() })).resolves.toBeUndefined();
+
+        expect(posted).toEqual(['https://hooks.slack.com/services/T/B/X']);
+        expect(console.error).toHaveBeenCalledWith('Webhook error:', expect.any(Error));
+    });
+
+    it('records channel posts in the notification log', async () => {
+        const kv = new MemoryKV().asBinding();
+        vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+            url.includes('slack') ? new Response('invalid_token', { status: 403 }) : new Response('ok')
+        ));
+
+        await dispatch({ FORM_SUBMISSIONS: kv });
+
+        const log = await getNotificationLog(kv, undefined, 's1');
+        expect(log).toHaveLength(1);
+        expect(log[0]).toMatchObject({
+            formId: 'f1',
+            type: 'channel',
+            to: 'slack',
+            status: 'failed',
+            error: '403 invalid_token',
+            attempts: [{ provider: 'slack', status: 403, error: '403 invalid_token' }],
+        });
+        expect(console.error).toHaveBeenCalledWith('slack post for submission s1 failed: 403 invalid_token');
+    });
+});
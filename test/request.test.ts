@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { resolveRedirectUrl } from '../src/request';
+import type { FormConfig } from '../src/forms';
+
+const form = {
+    id: 'contact-form',
+    enabled: true,
+    emailTo: [],
+    allowedOrigins: [],
+    successUrl: 'https://site-a.com/default',
+    redirectAllowlist: ['https://site-a.com/thanks', 'https://site-b.com/'],
+} as unknown as FormConfig;
+
+describe('resolveRedirectUrl', () => {
+    it('allows the allowlisted path and paths below it', () => {
+        expect(resolveRedirectUrl(form, true, 'https://site-a.com/thanks')).toBe('https://site-a.com/thanks');
+        expect(resolveRedirectUrl(form, true, 'https://site-a.com/thanks/newsletter?x=1'))
+            .toBe('https://site-a.com/thanks/newsletter?x=1');
+        expect(resolveRedirectUrl(form, true, 'https://site-b.com/anything')).toBe('https://site-b.com/anything');
+    });
+
+    it('rejects paths that only share a prefix', () => {
+        expect(resolveRedirectUrl(form, true, 'https://site-a.com/thanks-evil')).toBe('https://site-a.com/default');
+        expect(resolveRedirectUrl(form, true, 'https://site-a.com/thanksgiving')).toBe('https://site-a.com/default');
+    });
+
+    it('rejects other origins', () => {
+        expect(resolveRedirectUrl(form, true, 'https://site-a.com.evil.com/thanks')).toBe('https://site-a.com/default');
+        expect(resolveRedirectUrl(form, true, 'http://site-a.com/thanks')).toBe('https://site-a.com/default');
+        expect(resolveRedirectUrl(form, true, 'https://evil.com@site-b.com.evil.com/')).toBe('https://site-a.com/default');
+        expect(resolveRedirectUrl(form, true, 'not a url')).toBe('https://site-a.com/default');
+    });
+});
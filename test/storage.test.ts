@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+    getSubmissionFieldNames,
+    getSubmissions,
+    isValidCursor,
+    listSubmissionFormIds,
+    storeSubmission,
+} from '../src/storage';
+import { MemoryKV } from './helpers';
+
+const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const db = {} as D1Database;
+
+describe('isValidCursor', () => {
+    it('rejects cursors that are not base64url JSON objects', () => {
+        expect(isValidCursor('not a cursor')).toBe(false);
+        expect(isValidCursor(encode([1, 2]))).toBe(false);
+        expect(isValidCursor(encode('text'), db)).toBe(false);
+    });
+
+    it('rejects an empty object for either backend', () => {
+        expect(isValidCursor('e30')).toBe(false);
+        expect(isValidCursor('e30', db)).toBe(false);
+    });
+
+    it('requires a string created_at and id for D1', () => {
+        expect(isValidCursor(encode({ t: '2024-01-01T00:00:00.000Z', id: 'abc' }), db)).toBe(true);
+        expect(isValidCursor(encode({ t: '2024-01-01T00:00:00.000Z' }), db)).toBe(false);
+        expect(isValidCursor(encode({ t: 1, id: 'abc' }), db)).toBe(false);
+        expect(isValidCursor(encode({ o: 3 }), db)).toBe(false);
+    });
+
+    it('requires a non-negative integer offset and optional string cursor for KV', () => {
+        expect(isValidCursor(encode({ o: 0 }))).toBe(true);
+        expect(isValidCursor(encode({ c: 'next', o: 2 }))).toBe(true);
+        expect(isValidCursor(encode({ o: -1 }))).toBe(false);
+        expect(isValidCursor(encode({ o: 1.5 }))).toBe(false);
+        expect(isValidCursor(encode({ o: '1' }))).toBe(false);
+        expect(isValidCursor(encode({ c: 5, o: 1 }))).toBe(false);
+        expect(isValidCursor(encode({ t: '2024-01-01T00:00:00.000Z', id: 'abc' }))).toBe(false);
+    });
+
+    it('accepts the cursors getSubmissions issues', async () => {
+        const kv = new MemoryKV().asBinding();
+        for (let i = 0; i < 3; i++) {
+            await storeSubmission({
+                formId: 'f1',
+                data: { n: i },
+                metadata: { ip: '203.0.113.1', userAgent: 'test', timestamp: new Date(2024, 0, i + 1).toISOString() },
+            }, kv);
+        }
+
+        const first = await getSubmissions(kv, undefined, 'f1', { limit: 2 });
+        expect(first.submissions).toHaveLength(2);
+        expect(first.nextCursor).not.toBeNull();
+        expect(isValidCursor(first.nextCursor!)).toBe(true);
+
+        const second = await getSubmissions(kv, undefined, 'f1', { limit: 2, cursor: first.nextCursor! });
+        expect(second.submissions).toHaveLength(1);
+    });
+});
+
+describe('listSubmissionFormIds', () => {
+    it('finds every form with stored submissions in KV, registered or not', async () => {
+        const kv = new MemoryKV(2).asBinding();
+        for (const formId of ['contact', 'contact', 'deleted-form', 'signup:2024']) {
+            await storeSubmission({
+                formId,
+                data: {},
+                metadata: { ip: '203.0.113.1', userAgent: 'test', timestamp: new Date().toISOString() },
+            }, kv);
+        }
+
+        expect((await listSubmissionFormIds(kv, undefined)).sort()).toEqual(['contact', 'deleted-form', 'signup:2024']);
+    });
+});
+
+describe('getSubmissionFieldNames', () => {
+    it('only counts the fields of submissions matching the filter', async () => {
+        const kv = new MemoryKV().asBinding();
+        const metadata = { ip: '203.0.113.1', userAgent: 'test', timestamp: new Date().toISOString() };
+
+        await storeSubmission({ formId: 'f1', data: { name: 'Ada', email: 'ada@example.com' }, metadata }, kv);
+        await storeSubmission({
+            formId: 'f1',
+            data: { junk1: 'x', junk2: 'y' },
+            metadata: { ...metadata, spam: { score: 90, reasons: ['honeypot'], quarantined: true } },
+        }, kv);
+        await storeSubmission({
+            formId: 'f1',
+            data: { unconfirmed: 'z' },
+            metadata: { ...metadata, optIn: { status: 'pending', expiresAt: metadata.timestamp } },
+        }, kv);
+
+        expect((await getSubmissionFieldNames(kv, undefined, 'f1')).sort())
+            .toEqual(['email', 'junk1', 'junk2', 'name', 'unconfirmed']);
+        expect((await getSubmissionFieldNames(kv, undefined, 'f1', { quarantined: false, pending: false })).sort())
+            .toEqual(['email', 'name']);
+    });
+});
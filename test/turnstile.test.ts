@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkToken, isTurnstileAction, parseTurnstileConfig } from '../src/turnstile';
+
+const now = new Date('2024-03-01T12:00:00.000Z');
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+const token = { hostname: 'example.com', action: 'contact-form', challengeTs: now.toISOString() };
+
+describe('checkToken', () => {
+    it('accepts a token for the form action', () => {
+        expect(checkToken(token, { action: 'contact-form' })).toEqual([]);
+    });
+
+    it('rejects tokens for another action', () => {
+        expect(checkToken({ ...token, action: 'signup' }, { action: 'contact-form' })).toEqual(['action-mismatch']);
+        expect(checkToken({ ...token, action: 'signup' }, { action: 'contact-form', allowMissingAction: true }))
+            .toEqual(['action-mismatch']);
+    });
+
+    it('rejects tokens without an action unless the form allows them', () => {
+        const { action, ...withoutAction } = token;
+
+        expect(checkToken(withoutAction, { action: 'contact-form' })).toEqual(['action-mismatch']);
+        expect(checkToken(withoutAction, { action: 'contact-form', allowMissingAction: true })).toEqual([]);
+    });
+
+    it('checks hostnames and token age', () => {
+        expect(checkToken(token, { hostnames: ['*.example.com'] })).toEqual(['hostname-mismatch']);
+        expect(checkToken({ ...token, hostname: 'www.example.com' }, { hostnames: ['*.example.com'] })).toEqual([]);
+        expect(checkToken({ ...token, challengeTs: '2024-03-01T11:57:59.000Z' }, { maxTokenAgeSeconds: 120 }))
+            .toEqual(['token-expired']);
+    });
+});
+
+describe('parseTurnstileConfig', () => {
+    it('accepts allowMissingAction as a boolean', () => {
+        expect(parseTurnstileConfig({ allowMissingAction: true })).toEqual({ turnstile: { allowMissingAction: true } });
+        expect(parseTurnstileConfig({ allowMissingAction: 'yes' }).error).toBe('turnstile.allowMissingAction must be a boolean');
+    });
+});
+
+describe('isTurnstileAction', () => {
+    it('allows up to 32 letters, digits, dashes and underscores', () => {
+        expect(isTurnstileAction('contact-form_2')).toBe(true);
+        expect(isTurnstileAction('a'.repeat(32))).toBe(true);
+        expect(isTurnstileAction('a'.repeat(33))).toBe(false);
+    });
+});
@@ -0,0 +1,145 @@
+/// <reference types="node" />
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    attemptWebhookDelivery,
+    createWebhookDelivery,
+    retryDueWebhookDeliveries,
+    WEBHOOK_MAX_ATTEMPTS,
+} from '../src/webhooks';
+import { MemoryKV } from './helpers';
+
+// The Node.js recipe from docs/WEBHOOKS.md
+function verifyFormFlare(rawBody: string, headers: Record<string, string>, secret: string, toleranceSeconds = 300) {
+    const timestamp = headers['x-formflare-timestamp'];
+    const signature = headers['x-formflare-signature'] || '';
+
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = 'v1=' + crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${rawBody}`)
+        .digest('hex');
+
+    return signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+let requests: { url: string; headers: Record<string, string>; body: string }[];
+let status: number;
+
+beforeEach(() => {
+    requests = [];
+    status = 200;
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+        const headers = Object.fromEntries(
+            Object.entries(init.headers as Record<string, string>).map(([name, value]) => [name.toLowerCase(), value])
+        );
+        requests.push({ url, headers, body: init.body as string });
+        return new Response(null, { status });
+    }));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+});
+
+async function newDelivery(kv: MemoryKV) {
+    return createWebhookDelivery(kv.asBinding(), undefined, {
+        submissionId: 's1',
+        formId: 'f1',
+        url: 'https://hooks.example.com/formflare',
+        payload: JSON.stringify({ event: 'submission', data: { name: 'Ada' } }),
+    });
+}
+
+describe('webhook signatures', () => {
+    it('pass the documented verification recipe', async () => {
+        const delivery = await newDelivery(new MemoryKV());
+        await attemptWebhookDelivery(new MemoryKV().asBinding(), undefined, delivery, 'whsec');
+
+        const [{ headers, body }] = requests;
+        expect(headers['x-formflare-signature']).toMatch(/^v1=[0-9a-f]{64}$/);
+        expect(verifyFormFlare(body, headers, 'whsec')).toBe(true);
+    });
+
+    it('fail verification with a tampered body or the wrong secret', async () => {
+        const delivery = await newDelivery(new MemoryKV());
+        await attemptWebhookDelivery(new MemoryKV().asBinding(), undefined, delivery, 'whsec');
+
+        const [{ headers, body }] = requests;
+        expect(verifyFormFlare(body.replace('Ada', 'Eve'), headers, 'whsec')).toBe(false);
+        expect(verifyFormFlare(body, headers, 'other-secret')).toBe(false);
+    });
+
+    it('fail verification once the timestamp is stale', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+        const delivery = await newDelivery(new MemoryKV());
+        await attemptWebhookDelivery(new MemoryKV().asBinding(), undefined, delivery, 'whsec');
+
+        vi.setSystemTime(new Date('2024-03-01T12:05:01Z'));
+        const [{ headers, body }] = requests;
+        expect(verifyFormFlare(body, headers, 'whsec')).toBe(false);
+    });
+
+    it('are left out without a secret', async () => {
+        const delivery = await newDelivery(new MemoryKV());
+        await attemptWebhookDelivery(new MemoryKV().asBinding(), undefined, delivery);
+
+        expect(requests[0].headers['x-formflare-signature']).toBeUndefined();
+    });
+});
+
+describe('webhook retries', () => {
+    it('back off exponentially and give up after the last attempt', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+        status = 500;
+
+        const kv = new MemoryKV();
+        let delivery = await newDelivery(kv);
+        const delays: number[] = [];
+
+        for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+            delivery = await attemptWebhookDelivery(kv.asBinding(), undefined, delivery);
+            if (delivery.nextAttemptAt) delays.push((Date.parse(delivery.nextAttemptAt) - Date.now()) / 1000);
+        }
+
+        expect(delays).toEqual([60, 120, 240, 480, 960, 1920, 3840]);
+        expect(delivery.status).toBe('failed');
+        expect(delivery.attempts).toHaveLength(WEBHOOK_MAX_ATTEMPTS);
+        expect(delivery.attempts[0].error).toContain('500');
+        expect(kv.store.has(`webhook-retry:${delivery.id}`)).toBe(false);
+    });
+
+    it('are picked up by the cron job across KV list pages', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+        const kv = new MemoryKV(2);
+        for (let i = 0; i < 5; i++) await newDelivery(kv);
+
+        vi.setSystemTime(new Date('2024-03-01T12:02:00Z'));
+        const secrets: string[] = [];
+        const retried = await retryDueWebhookDeliveries(kv.asBinding(), undefined, async (formId) => {
+            secrets.push(formId);
+            return 'whsec';
+        });
+
+        expect(retried).toBe(5);
+        expect(secrets).toEqual(['f1', 'f1', 'f1', 'f1', 'f1']);
+        expect(requests.every(({ headers, body }) => verifyFormFlare(body, headers, 'whsec'))).toBe(true);
+        expect([...kv.store.keys()].filter(name => name.startsWith('webhook-retry:'))).toEqual([]);
+    });
+
+    it('are not attempted before their backoff has elapsed', async () => {
+        const kv = new MemoryKV();
+        await newDelivery(kv);
+
+        expect(await retryDueWebhookDeliveries(kv.asBinding(), undefined, async () => undefined)).toBe(0);
+        expect(requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { applyWorkflowUpdate, defaultWorkflow, parseWorkflowUpdate } from '../src/workflow';
+
+describe('workflow notes', () => {
+    it('attributes notes to the API key making the change', () => {
+        for (const note of ['Called back', { text: 'Called back' }]) {
+            const { update } = parseWorkflowUpdate({ note });
+            const { workflow } = applyWorkflowUpdate(defaultWorkflow(), update!, 'Support team');
+
+            expect(workflow!.notes).toEqual([
+                { id: expect.any(String), author: 'Support team', text: 'Called back', createdAt: expect.any(String) },
+            ]);
+        }
+    });
+
+    it('rejects notes that name their own author', () => {
+        expect(parseWorkflowUpdate({ note: { text: 'Approved', author: 'Admin' } }))
+            .toEqual({ error: 'note.author can not be set, notes are attributed to the API key' });
+    });
+});